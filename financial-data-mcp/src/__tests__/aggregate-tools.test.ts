@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { createClient } from './helpers.js';
+import { resamplePrices } from '../normalize/index.js';
+
+const DAY = 24 * 60 * 60;
+
+function epoch(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 1000;
+}
+
+function bar(date: string, close: number) {
+  return { date, open: close - 1, high: close + 1, low: close - 2, close, volume: 100 };
+}
+
+describe('ResilientApiClient aggregate tools', () => {
+  let finnhubMock: Record<string, ReturnType<typeof vi.fn>>;
+  let alphaMock: Record<string, ReturnType<typeof vi.fn>>;
+  let client: ResilientApiClient;
+
+  beforeEach(() => {
+    finnhubMock = {
+      getStockCandles: vi.fn(),
+      getCompanyMetrics: vi.fn(),
+      getCompanyProfile: vi.fn(),
+    };
+    alphaMock = {
+      getDailyPrices: vi.fn(),
+      getIncomeStatement: vi.fn(),
+      getBalanceSheet: vi.fn(),
+      getCashFlow: vi.fn(),
+      getCompanyOverview: vi.fn(),
+    };
+    client = createClient({ finnhub: finnhubMock, alphavantage: alphaMock }, {
+      apiKeys: { finnhub: 'finnhub-key', alphavantage: 'alphavantage-key' },
+    });
+  });
+
+  describe('getStockPriceHistory', () => {
+    it('should fail over to daily prices, keeping only bars in range', async () => {
+      finnhubMock.getStockCandles.mockRejectedValue(new Error('Finnhub API error: 403 Forbidden'));
+      alphaMock.getDailyPrices.mockResolvedValue({
+        '2024-01-02': bar('2024-01-02', 10),
+        '2024-01-03': bar('2024-01-03', 11),
+        '2024-01-04': bar('2024-01-04', 12),
+      });
+
+      const history = await client.getStockPriceHistory('AAPL', 'daily', epoch('2024-01-03'), epoch('2024-01-04'));
+
+      expect(finnhubMock.getStockCandles).toHaveBeenCalledWith('AAPL', 'D', epoch('2024-01-03'), epoch('2024-01-04'));
+      expect(alphaMock.getDailyPrices).toHaveBeenCalledWith('AAPL', 'compact');
+      expect(history.source).toBe('alphavantage');
+      expect(history.prices.map(price => price.date)).toEqual(['2024-01-03', '2024-01-04']);
+      expect(history.asOf).toBe('2024-01-04');
+    });
+
+    it('should roll daily bars up to monthly bars for sources without them', async () => {
+      finnhubMock.getStockCandles.mockRejectedValue(new Error('Finnhub API error: 403 Forbidden'));
+      alphaMock.getDailyPrices.mockResolvedValue({
+        '2024-01-30': bar('2024-01-30', 10),
+        '2024-01-31': bar('2024-01-31', 12),
+        '2024-02-01': bar('2024-02-01', 13),
+      });
+      const to = epoch('2024-02-01');
+
+      const history = await client.getStockPriceHistory('AAPL', 'M', to - 365 * DAY, to);
+
+      expect(finnhubMock.getStockCandles).toHaveBeenCalledWith('AAPL', 'M', to - 365 * DAY, to);
+      expect(alphaMock.getDailyPrices).toHaveBeenCalledWith('AAPL', 'full');
+      expect(history.prices).toEqual([
+        { date: '2024-01-31', open: 9, high: 13, low: 8, close: 12, volume: 200 },
+        { date: '2024-02-01', open: 12, high: 14, low: 11, close: 13, volume: 100 },
+      ]);
+    });
+  });
+
+  describe('getFinancials', () => {
+    it('should fetch only the requested statement and period', async () => {
+      alphaMock.getIncomeStatement.mockResolvedValue({
+        annualReports: [{ fiscalDateEnding: '2023-12-31', totalRevenue: '1000', netIncome: '100', grossProfit: '400' }],
+        quarterlyReports: [
+          { fiscalDateEnding: '2024-03-31', totalRevenue: '300', netIncome: '30', grossProfit: 'None' },
+          { fiscalDateEnding: '2023-12-31', totalRevenue: '250', netIncome: '25', grossProfit: '100' },
+        ],
+      });
+
+      const financials = await client.getFinancials('AAPL', 'quarterly', 'income');
+
+      expect(alphaMock.getBalanceSheet).not.toHaveBeenCalled();
+      expect(alphaMock.getCashFlow).not.toHaveBeenCalled();
+      expect(Object.keys(financials.statements)).toEqual(['income']);
+      expect(financials.statements.income?.map(report => report.fiscalDateEnding)).toEqual(['2023-12-31', '2024-03-31']);
+      expect(financials).toMatchObject({
+        period: 'quarterly',
+        statementType: 'income',
+        incomeStatement: { revenue: 300, netIncome: 30 },
+        source: 'alphavantage',
+        asOf: '2024-03-31',
+      });
+      expect(financials.balanceSheet).toBeUndefined();
+    });
+
+    it('should summarize every statement and derive free cash flow', async () => {
+      alphaMock.getIncomeStatement.mockResolvedValue({ annualReports: [{ fiscalDateEnding: '2023-12-31', totalRevenue: '1000' }] });
+      alphaMock.getBalanceSheet.mockResolvedValue({ annualReports: [{ fiscalDateEnding: '2023-12-31', totalAssets: '5000', totalShareholderEquity: '2000' }] });
+      alphaMock.getCashFlow.mockResolvedValue({ annualReports: [{ fiscalDateEnding: '2023-12-31', operatingCashflow: '300', capitalExpenditures: '120' }] });
+
+      const financials = await client.getFinancials('AAPL', 'annual', 'all');
+
+      expect(financials.incomeStatement).toEqual({ revenue: 1000 });
+      expect(financials.balanceSheet).toEqual({ totalAssets: 5000, totalEquity: 2000 });
+      expect(financials.cashFlowStatement).toEqual({ operatingCashFlow: 300, freeCashFlow: 180 });
+    });
+
+    it('should fall back to Finnhub ratio series grouped by statement', async () => {
+      alphaMock.getIncomeStatement.mockRejectedValue(new Error('Alpha Vantage API error: 503 Service Unavailable'));
+      finnhubMock.getCompanyMetrics.mockResolvedValue({
+        metric: {},
+        series: {
+          annual: {
+            eps: [{ period: '2023-09-30', v: 6.1 }, { period: '2022-09-30', v: 6.0 }],
+            netMargin: [{ period: '2023-09-30', v: 0.25 }],
+            currentRatio: [{ period: '2023-09-30', v: 0.98 }],
+          },
+        },
+      });
+
+      const financials = await client.getFinancials('AAPL', 'annual', 'income');
+
+      expect(finnhubMock.getCompanyMetrics).toHaveBeenCalledWith('AAPL', 'all');
+      expect(financials.source).toBe('finnhub');
+      expect(financials.statements.income).toEqual([
+        { fiscalDateEnding: '2022-09-30', values: { eps: 6.0 } },
+        { fiscalDateEnding: '2023-09-30', values: { eps: 6.1, netMargin: 0.25 } },
+      ]);
+      expect(financials.incomeStatement).toBeUndefined();
+    });
+  });
+
+  describe('getCompanyInfo', () => {
+    it('should use the Finnhub profile and fall back to overviews', async () => {
+      finnhubMock.getCompanyProfile.mockResolvedValueOnce({ symbol: 'AAPL', companyName: 'Apple Inc', marketCap: 3e12 });
+      finnhubMock.getCompanyProfile.mockRejectedValueOnce(new Error('Finnhub API error: no company profile for MSFT'));
+      alphaMock.getCompanyOverview.mockResolvedValue({ symbol: 'MSFT', companyName: 'Microsoft', sector: 'TECHNOLOGY' });
+
+      const apple = await client.getCompanyInfo('AAPL');
+      const microsoft = await client.getCompanyInfo('MSFT');
+
+      expect(apple).toMatchObject({ companyName: 'Apple Inc', marketCap: 3e12, source: 'finnhub' });
+      expect(microsoft).toMatchObject({ companyName: 'Microsoft', sector: 'TECHNOLOGY', source: 'alphavantage' });
+    });
+  });
+});
+
+describe('resamplePrices', () => {
+  it('should group daily bars into Monday-start weeks dated by their last day', () => {
+    const weekly = resamplePrices([
+      bar('2024-01-08', 12),
+      bar('2024-01-05', 11),
+      bar('2024-01-04', 10),
+    ], 'W');
+
+    expect(weekly.map(price => [price.date, price.close])).toEqual([['2024-01-05', 11], ['2024-01-08', 12]]);
+    expect(weekly[0]).toMatchObject({ open: 9, high: 12, low: 8, volume: 200 });
+  });
+});
@@ -3,6 +3,7 @@ import { FinnhubClient } from '../api/finnhub.js';
 import { AlphaVantageClient } from '../api/alphavantage.js';
 import { TwelveDataClient } from '../api/twelvedata.js';
 import { TiingoClient } from '../api/tiingo.js';
+import { EastMoneyClient } from '../api/eastmoney.js';
 
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -252,4 +253,20 @@ describe('API Client Tests - Interface Fixes Verification', () => {
       await expect(client.getQuote('INVALID')).rejects.toThrow('No data found for symbol INVALID');
     });
   });
+
+  describe('EastMoneyClient', () => {
+    const client = new EastMoneyClient();
+
+    it('should scale quote prices by the decimal places the response reports', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: { f43: 175250, f44: 176000, f45: 174000, f46: 174500, f59: 2, f60: 174010, f169: 1240, f170: 71 } }),
+      });
+
+      const result = await client.getStockQuote('600519.SH');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('f59');
+      expect(result).toMatchObject({ currentPrice: 1752.5, previousClosePrice: 1740.1, change: 12.4, highPriceOfDay: 1760, percentChange: 0.71 });
+    });
+  });
 });
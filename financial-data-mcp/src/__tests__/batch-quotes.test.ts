@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { ResponseCache } from '../resilience/response-cache.js';
+import { SinaClient } from '../api/sina.js';
+import { EastMoneyClient } from '../api/eastmoney.js';
+
+function quote(symbol: string, currentPrice: number) {
+  return {
+    symbol,
+    currentPrice,
+    change: 1,
+    percentChange: 0.5,
+    highPriceOfDay: currentPrice + 1,
+    lowPriceOfDay: currentPrice - 1,
+    openPriceOfDay: currentPrice,
+    previousClosePrice: currentPrice - 1,
+  };
+}
+
+describe('ResilientApiClient.getBatchQuotes', () => {
+  let finnhubMock: { getStockQuote: ReturnType<typeof vi.fn> };
+  let client: ResilientApiClient;
+
+  beforeEach(() => {
+    finnhubMock = { getStockQuote: vi.fn((symbol: string) => Promise.resolve(quote(symbol, 100))) };
+    client = new ResilientApiClient(finnhubMock as any, {} as any, undefined, undefined, {
+      retryEnabled: false,
+      batchConcurrency: 2,
+    }, {
+      cache: new ResponseCache(),
+      apiKeys: { finnhub: 'finnhub-key' },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fetch A-shares in one batch request and other markets per symbol', async () => {
+    const sinaBatch = vi.spyOn(client.sinaClient, 'getBatchQuotes').mockResolvedValue(new Map([
+      ['600519.SH', quote('600519.SH', 1700)],
+      ['000001.SZ', quote('000001.SZ', 10)],
+    ]));
+
+    const result = await client.getBatchQuotes(['AAPL', '600519.SH', '000001.SZ', 'AAPL']);
+
+    expect(sinaBatch).toHaveBeenCalledTimes(1);
+    expect(sinaBatch).toHaveBeenCalledWith(['600519.SH', '000001.SZ']);
+    expect(finnhubMock.getStockQuote).toHaveBeenCalledTimes(1);
+    expect(result.quotes.map(entry => entry.symbol)).toEqual(['AAPL', '600519.SH', '000001.SZ']);
+    expect(result.quotes[1].quote).toMatchObject({ currentPrice: 1700, source: 'sina' });
+    expect(result).toMatchObject({ succeeded: 3, failed: 0 });
+  });
+
+  it('should fall back to the next batch source, then per symbol for missing quotes', async () => {
+    vi.spyOn(client.sinaClient, 'getBatchQuotes').mockRejectedValue(new Error('Sina API error: 503 Service Unavailable'));
+    vi.spyOn(client.eastmoneyClient, 'getBatchQuotes').mockResolvedValue(new Map([
+      ['600519.SH', quote('600519.SH', 1700)],
+    ]));
+    vi.spyOn(client.sinaClient, 'getStockQuote').mockResolvedValue(quote('000001.SZ', 10));
+
+    const result = await client.getBatchQuotes(['600519.SH', '000001.SZ']);
+
+    expect(result.quotes[0].quote).toMatchObject({ currentPrice: 1700, source: 'eastmoney' });
+    expect(result.quotes[1].quote).toMatchObject({ currentPrice: 10, source: 'sina' });
+  });
+
+  it('should report per-symbol errors without failing the batch', async () => {
+    finnhubMock.getStockQuote.mockImplementation((symbol: string) => symbol === 'BAD'
+      ? Promise.reject(new Error('Finnhub API error: Symbol not found'))
+      : Promise.resolve(quote(symbol, 100)));
+
+    const result = await client.getBatchQuotes(['AAPL', 'BAD']);
+
+    expect(result.quotes[0].quote).toMatchObject({ symbol: 'AAPL', currentPrice: 100 });
+    expect(result.quotes[1]).toEqual({ symbol: 'BAD', error: expect.stringContaining('Symbol not found'), code: 'ALL_SOURCES_FAILED' });
+    expect(result).toMatchObject({ succeeded: 1, failed: 1 });
+  });
+
+  it('should bound concurrent per-symbol requests', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    finnhubMock.getStockQuote.mockImplementation(async (symbol: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return quote(symbol, 100);
+    });
+
+    const result = await client.getBatchQuotes(['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'NVDA']);
+
+    expect(result.succeeded).toBe(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should only batch symbols missing from the cache', async () => {
+    const sinaBatch = vi.spyOn(client.sinaClient, 'getBatchQuotes')
+      .mockResolvedValueOnce(new Map([['600519.SH', quote('600519.SH', 1700)]]))
+      .mockResolvedValueOnce(new Map([['000001.SZ', quote('000001.SZ', 10)]]));
+
+    await client.getBatchQuotes(['600519.SH']);
+    const result = await client.getBatchQuotes(['600519.SH', '000001.SZ']);
+
+    expect(sinaBatch).toHaveBeenLastCalledWith(['000001.SZ']);
+    expect(result.succeeded).toBe(2);
+  });
+
+  it('should reject empty symbol lists', async () => {
+    await expect(client.getBatchQuotes([' '])).rejects.toThrow('at least one symbol');
+  });
+});
+
+describe('Native batch endpoints', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should match Sina batch lines to symbols by variable name', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      text: () => Promise.resolve([
+        'var hq_str_sz000001="平安银行,10.00,9.90,10.10,10.20,9.80";',
+        'var hq_str_sh600000="";',
+        'var hq_str_sh600519="贵州茅台,1690.00,1680.00,1700.00,1710.00,1685.00";',
+      ].join('\n')),
+    });
+
+    const quotes = await new SinaClient().getBatchQuotes(['600519.SH', '600000', '000001.SZ']);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('list=sh600519,sh600000,sz000001');
+    expect([...quotes.keys()]).toEqual(['000001.SZ', '600519.SH']);
+    expect(quotes.get('600519.SH')).toMatchObject({ currentPrice: 1700, previousClosePrice: 1680 });
+  });
+
+  it('should parse EastMoney batch quotes and skip suspended symbols', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        data: {
+          diff: [
+            { f2: 1700, f3: 1.19, f4: 20, f12: '600519', f13: 1, f15: 1710, f16: 1685, f17: 1690, f18: 1680 },
+            { f2: '-', f3: '-', f4: '-', f12: '000001', f13: 0, f15: '-', f16: '-', f17: '-', f18: 9.9 },
+          ],
+        },
+      }),
+    });
+
+    const quotes = await new EastMoneyClient().getBatchQuotes(['600519.SH', '000001.SZ']);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('secids=1.600519%2C0.000001');
+    expect([...quotes.keys()]).toEqual(['600519.SH']);
+    expect(quotes.get('600519.SH')).toMatchObject({ currentPrice: 1700, change: 20, percentChange: 1.19 });
+  });
+});
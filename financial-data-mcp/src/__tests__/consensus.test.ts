@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_CONSENSUS_CONFIG, reconcileQuotes, reconcilePriceSeries } from '../resilience/consensus.js';
+import { ProviderError } from '../api/errors.js';
+import { logger } from '../logger.js';
+import type { NormalizedQuote, PriceSeries } from '../types.js';
+import { QUOTE, createClient } from './helpers.js';
+
+function quote(source: string, currentPrice: number, asOf = '2024-06-03T15:00:00.000Z'): NormalizedQuote {
+  return { symbol: '600519.SH', ...QUOTE, currentPrice, source, asOf };
+}
+
+function series(source: string, closes: Record<string, number>): PriceSeries {
+  const prices = Object.entries(closes).map(([date, close]) => ({ date, open: close, high: close, low: close, close, volume: 1000 }));
+  return { symbol: 'AAPL', prices, source, asOf: prices[prices.length - 1].date };
+}
+
+function createConsensusClient(clients: Record<string, unknown>, maxSources = 3) {
+  return createClient(clients, {
+    consensus: { maxSources },
+    apiKeys: { finnhub: 'f-one', twelvedata: 'td-key', tiingo: 't-key' },
+  });
+}
+
+describe('reconcileQuotes', () => {
+  it('should flag a wrongly scaled or stale quote and return the first one agreeing with the median', () => {
+    const { chosen, report } = reconcileQuotes([
+      quote('eastmoney', 1752000),
+      quote('sina', 1752.5),
+      quote('finnhub', 1751.9),
+      quote('tiingo', 1700, '2024-06-02T20:00:00.000Z'),
+    ], ['twelvedata'], DEFAULT_CONSENSUS_CONFIG);
+
+    expect(chosen.source).toBe('sina');
+    expect(report).toMatchObject({
+      sources: ['eastmoney', 'sina', 'finnhub', 'tiingo'],
+      failedSources: ['twelvedata'],
+      field: 'currentPrice',
+      median: 1752.5,
+      agreed: false,
+    });
+    expect(report.discrepancies).toEqual([
+      { source: 'tiingo', kind: 'stale', field: 'asOf', lagMs: 19 * 60 * 60 * 1000 },
+      { source: 'eastmoney', kind: 'deviation', field: 'currentPrice', value: 1752000, median: 1752.5, deviationPct: 99871.47 },
+    ]);
+  });
+
+  it('should agree only when enough sources answer within the tolerance', () => {
+    expect(reconcileQuotes([quote('sina', 100), quote('eastmoney', 100.5)], [], DEFAULT_CONSENSUS_CONFIG).report)
+      .toMatchObject({ agreed: true, median: 100.25, discrepancies: [] });
+    expect(reconcileQuotes([quote('sina', 100)], ['eastmoney'], DEFAULT_CONSENSUS_CONFIG).report)
+      .toMatchObject({ agreed: false, median: 100, discrepancies: [] });
+  });
+});
+
+describe('reconcilePriceSeries', () => {
+  it('should compare closes on the dates every source reports and flag a series missing the latest bar', () => {
+    const { chosen, report } = reconcilePriceSeries([
+      series('tiingo', { '2024-06-03': 190, '2024-06-04': 195 }),
+      series('alphavantage', { '2024-06-03': 190.2, '2024-06-04': 194.9, '2024-06-05': 196 }),
+      series('twelvedata', { '2024-06-03': 1.902, '2024-06-04': 1.95, '2024-06-05': 1.96 }),
+    ], [], DEFAULT_CONSENSUS_CONFIG);
+
+    expect(chosen.source).toBe('alphavantage');
+    expect(report.median).toBe(194.9);
+    expect(report.discrepancies).toEqual([
+      { source: 'twelvedata', kind: 'deviation', field: 'close', date: '2024-06-03', value: 1.902, median: 190, deviationPct: 99 },
+      { source: 'tiingo', kind: 'stale', field: 'date', date: '2024-06-04', lagMs: 24 * 60 * 60 * 1000 },
+    ]);
+  });
+});
+
+describe('ResilientApiClient - consensus calls', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ask several sources, return the agreeing quote and log the one that disagrees', async () => {
+    const warn = vi.spyOn(logger, 'warn');
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE, currentPrice: 190 }) };
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE, currentPrice: 1.9 }) };
+    const tiingo = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE, currentPrice: 190.1 }) };
+    const client = createConsensusClient({ finnhub, twelvedata, tiingo });
+
+    const { data, meta } = await client.withMeta('get_stock_quote', () => client.getConsensusQuote('AAPL'));
+
+    expect(data).toMatchObject({ source: 'finnhub', currentPrice: 190 });
+    expect(data.consensus).toMatchObject({ sources: ['finnhub', 'twelvedata', 'tiingo'], median: 190, agreed: false });
+    expect(data.consensus?.discrepancies).toEqual([expect.objectContaining({ source: 'twelvedata', value: 1.9 })]);
+    expect(meta.source).toBe('finnhub');
+    expect(meta.attempts).toHaveLength(3);
+    expect(warn).toHaveBeenCalledWith('Source disagrees with the other sources', expect.objectContaining({
+      tool: 'get_stock_quote', symbol: 'AAPL', source: 'twelvedata', deviationPct: 99,
+    }));
+  });
+
+  it('should ask another source while too few have answered, and fail fast on an unknown symbol', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('TRANSIENT', 'finnhub', 'Finnhub API error: 503')) };
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE, currentPrice: 190 }) };
+    const tiingo = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE, currentPrice: 190.1 }) };
+    const client = createConsensusClient({ finnhub, twelvedata, tiingo }, 2);
+
+    const data = await client.getConsensusQuote('AAPL');
+
+    expect(tiingo.getStockQuote).toHaveBeenCalledTimes(1);
+    expect(data.consensus).toMatchObject({ sources: ['twelvedata', 'tiingo'], failedSources: ['finnhub'], agreed: true });
+
+    twelvedata.getStockQuote.mockRejectedValue(new ProviderError('NOT_FOUND', 'twelvedata', 'TwelveData: symbol APPL not found'));
+    await expect(client.getConsensusQuote('APPL')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(tiingo.getStockQuote).toHaveBeenCalledTimes(1);
+  });
+});
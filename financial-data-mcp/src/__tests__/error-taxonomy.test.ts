@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FinnhubClient } from '../api/finnhub.js';
+import { TwelveDataClient } from '../api/twelvedata.js';
+import { AlphaVantageClient } from '../api/alphavantage.js';
+import { TiingoClient } from '../api/tiingo.js';
+import { SinaClient } from '../api/sina.js';
+import { EastMoneyClient } from '../api/eastmoney.js';
+import { ProviderError } from '../api/errors.js';
+import { TimeoutError } from '../resilience/api-timeout.js';
+import { RetryError } from '../resilience/api-retry.js';
+import { classifyError, getErrorAction, toToolError, hasToolMeta } from '../resilience/error-detection.js';
+import { toolRegistry } from '../tools/index.js';
+import { QUOTE, createClient } from './helpers.js';
+
+function respond(status: number, body: unknown, statusText = '') {
+  return vi.fn().mockResolvedValue({ ok: status < 400, status, statusText, json: () => Promise.resolve(body) });
+}
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(() => undefined, error => error);
+}
+
+describe('provider error taxonomy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should type client errors from HTTP statuses and error bodies', async () => {
+    vi.stubGlobal('fetch', respond(401, {}, 'Unauthorized'));
+    expect(await caught(new FinnhubClient('key').getStockQuote('AAPL'))).toMatchObject({
+      code: 'AUTH_FAILED',
+      source: 'finnhub',
+      status: 401,
+      message: 'Finnhub API error: 401 Unauthorized',
+    });
+
+    vi.stubGlobal('fetch', respond(200, { status: 'error', code: 404, message: 'symbol not found: APPL' }));
+    expect(await caught(new TwelveDataClient('key').getStockQuote('APPL'))).toMatchObject({ code: 'NOT_FOUND', source: 'twelvedata' });
+
+    vi.stubGlobal('fetch', respond(200, { 'Global Quote': {} }));
+    expect(await caught(new AlphaVantageClient('key').getQuote('APPL'))).toMatchObject({ code: 'NOT_FOUND', source: 'alphavantage' });
+
+    vi.stubGlobal('fetch', respond(200, {}));
+    expect(await caught(new AlphaVantageClient('key').getDailyPrices('AAPL'))).toMatchObject({ code: 'UPSTREAM_SCHEMA_CHANGED' });
+  });
+
+  it('should decide between fail-fast, retry, key rotation and failover', () => {
+    const notFound = new ProviderError('NOT_FOUND', 'finnhub', 'unknown symbol');
+    const retried = new RetryError(3, 3, 0, 'Retries exhausted');
+    retried.cause = new ProviderError('TRANSIENT', 'finnhub', 'Finnhub API error: 503 Service Unavailable');
+
+    expect(getErrorAction(notFound)).toBe('fail-fast');
+    expect(getErrorAction(new ProviderError('AUTH_FAILED', 'finnhub', 'bad key'))).toBe('rotate-key');
+    expect(getErrorAction(retried)).toBe('retry');
+    expect(getErrorAction(new ProviderError('UNSUPPORTED_BY_SOURCE', 'tiingo', 'premium only'))).toBe('failover');
+    expect(classifyError(new TimeoutError('sina', 'quote', 100))).toBe('TRANSIENT');
+    expect(classifyError(new Error('Acme: 429 Too Many Requests'))).toBe('RATE_LIMITED');
+    expect(classifyError(new TypeError('fetch failed'))).toBe('TRANSIENT');
+    expect(classifyError(new Error('something odd'))).toBeUndefined();
+    expect(getErrorAction(new Error('something odd'))).toBe('failover');
+  });
+
+  it('should stop failover at an unknown symbol without tripping the circuit', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('NOT_FOUND', 'finnhub', 'Finnhub: no quote for APPL')) };
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'APPL', ...QUOTE }) };
+    const client = createClient({ finnhub, twelvedata });
+
+    const error = await caught(client.withMeta('get_stock_quote', () => client.getStockQuote('APPL')));
+
+    expect(twelvedata.getStockQuote).not.toHaveBeenCalled();
+    expect(toToolError(error)).toEqual({ code: 'NOT_FOUND', message: 'Finnhub: no quote for APPL', source: 'finnhub', retryable: false });
+    expect(hasToolMeta(error)).toBe(true);
+    expect(hasToolMeta(error) && error.meta.attempts).toEqual([
+      expect.objectContaining({ source: 'finnhub', success: false, code: 'NOT_FOUND' }),
+    ]);
+    expect(client.getCircuitBreaker('finnhub')?.getState().failureCount).toBe(0);
+  });
+
+  it('should rotate past a rejected key and fail over from unsupported sources', async () => {
+    const finnhub = {
+      getStockQuote: vi.fn()
+        .mockRejectedValueOnce(new ProviderError('AUTH_FAILED', 'finnhub', 'Finnhub API error: 401 Unauthorized'))
+        .mockResolvedValueOnce({ symbol: 'AAPL', ...QUOTE }),
+      getStockCandles: vi.fn().mockRejectedValue(new ProviderError('UNSUPPORTED_BY_SOURCE', 'finnhub', 'Finnhub API error: 403 Forbidden')),
+    };
+    const twelvedata = { getStockCandles: vi.fn().mockResolvedValue([]) };
+    const client = createClient({ finnhub, twelvedata }, { apiKeys: { finnhub: 'f-one,f-two', twelvedata: 'td-key' } });
+
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+    expect(client.getKeyManager('finnhub')?.getKeyStatus()[0]).toMatchObject({ inCooldown: true });
+
+    await expect(client.getStockCandles('AAPL', 'D', 1700000000, 1700500000)).resolves.toMatchObject({ source: 'twelvedata' });
+    expect(client.getCircuitBreaker('finnhub')?.getState().failureCount).toBe(0);
+  });
+
+  it('should report every source when all fail, and server-side errors by code', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('RATE_LIMITED', 'finnhub', 'Finnhub API error: 429 Too Many Requests')) };
+    const twelvedata = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'twelvedata', 'TwelveData: quote has no close')) };
+    const client = createClient({ finnhub, twelvedata });
+
+    const error = toToolError(await caught(client.getStockQuote('AAPL')));
+
+    expect(error).toMatchObject({ code: 'ALL_SOURCES_FAILED', retryable: true });
+    expect(error.causes).toEqual(expect.arrayContaining([
+      { source: 'finnhub', code: 'RATE_LIMITED', message: 'Finnhub API error: 429 Too Many Requests' },
+      { source: 'twelvedata', code: 'UPSTREAM_SCHEMA_CHANGED', message: 'TwelveData: quote has no close' },
+    ]));
+
+    expect(toToolError(await caught(client.getIncomeStatement('AAPL')))).toMatchObject({ code: 'INTERNAL' });
+    expect(toToolError(await caught(Promise.resolve().then(() => toolRegistry.parseArguments('get_news', {})))))
+      .toMatchObject({ code: 'INVALID_ARGUMENT', retryable: false });
+    expect(toToolError(await caught(Promise.resolve().then(() => toolRegistry.parseArguments('get_weather', {})))))
+      .toMatchObject({ code: 'UNKNOWN_TOOL' });
+  });
+});
+
+describe('soft error payloads', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should type errors providers send with a 200 status', async () => {
+    const alpha = new AlphaVantageClient('key');
+    vi.stubGlobal('fetch', respond(200, { Note: 'Our standard API call frequency is 5 calls per minute and 500 calls per day.' }));
+    expect(await caught(alpha.getQuote('AAPL'))).toMatchObject({ code: 'RATE_LIMITED', source: 'alphavantage' });
+
+    vi.stubGlobal('fetch', respond(200, { Information: 'Thank you for using Alpha Vantage! This is a premium endpoint.' }));
+    expect(await caught(alpha.getDailyPrices('AAPL', 'full'))).toMatchObject({ code: 'UNSUPPORTED_BY_SOURCE' });
+
+    vi.stubGlobal('fetch', respond(200, { 'Error Message': 'Invalid API call. Please retry or visit the documentation.' }));
+    expect(await caught(alpha.getDailyPrices('APPL'))).toMatchObject({ code: 'NOT_FOUND' });
+
+    vi.stubGlobal('fetch', respond(200, {}));
+    expect(await caught(alpha.getIncomeStatement('APPL'))).toMatchObject({ code: 'NOT_FOUND' });
+
+    vi.stubGlobal('fetch', respond(200, { c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0 }));
+    expect(await caught(new FinnhubClient('key').getStockQuote('APPL'))).toMatchObject({ code: 'NOT_FOUND', source: 'finnhub' });
+    expect(await new FinnhubClient('key').healthCheck()).toBe(true);
+
+    vi.stubGlobal('fetch', respond(200, { detail: 'Error: You have run over your hourly request allocation.' }));
+    expect(await caught(new TiingoClient('key').getQuote('AAPL'))).toMatchObject({ code: 'RATE_LIMITED', source: 'tiingo' });
+
+    const sina = new SinaClient();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('var hq_str_sh999999="";') }));
+    expect(await caught(sina.getStockQuote('999999.SH'))).toMatchObject({ code: 'NOT_FOUND', source: 'sina' });
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('<html>blocked</html>') }));
+    expect(await caught(sina.getStockQuote('600519.SH'))).toMatchObject({ code: 'UPSTREAM_SCHEMA_CHANGED' });
+  });
+
+  it('should return an empty series for a range without bars and fail fast only on an unknown symbol', async () => {
+    const from = 1704067200;
+    const to = 1704240000;
+
+    vi.stubGlobal('fetch', respond(200, { s: 'no_data' }));
+    expect(await new FinnhubClient('key').getStockCandles('AAPL', 'D', from, to)).toEqual([]);
+
+    vi.stubGlobal('fetch', respond(200, { rc: 0, data: null }));
+    expect(await new EastMoneyClient().getDailyPrices('600519.SH')).toEqual({});
+
+    const twelvedata = new TwelveDataClient('key');
+    vi.stubGlobal('fetch', respond(200, { meta: { symbol: 'AAPL' }, status: 'ok' }));
+    expect(await twelvedata.getStockCandles('AAPL', '1day', from, to)).toEqual([]);
+    vi.stubGlobal('fetch', respond(200, { code: 404, message: '**symbol** not found: APPL', status: 'error' }));
+    expect(await caught(twelvedata.getStockCandles('APPL', '1day', from, to))).toMatchObject({ code: 'NOT_FOUND', source: 'twelvedata' });
+
+    const tiingo = new TiingoClient('key');
+    vi.stubGlobal('fetch', respond(200, []));
+    expect(await tiingo.getStockCandles('AAPL', 'D', from, to)).toEqual([]);
+    expect(await tiingo.getDailyPrices('AAPL')).toEqual({});
+    await expect(tiingo.getNews('AAPL')).resolves.toEqual([]);
+    vi.stubGlobal('fetch', respond(404, { detail: 'Not found.' }, 'Not Found'));
+    expect(await caught(tiingo.getStockCandles('APPL', 'D', from, to))).toMatchObject({ code: 'NOT_FOUND', source: 'tiingo' });
+    vi.stubGlobal('fetch', respond(200, { articles: [] }));
+    expect(await caught(tiingo.getNews('AAPL'))).toMatchObject({ code: 'UPSTREAM_SCHEMA_CHANGED', source: 'tiingo' });
+
+    const sina = new SinaClient();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('/*<script>*/=(null);') }));
+    expect(await sina.getStockCandles('600519.SH', '5', from, to)).toEqual([]);
+    expect(await sina.getDailyPrices('600519.SH')).toEqual({});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('=([{day:"2024-01-02"}]);') }));
+    expect(await caught(sina.getDailyPrices('600519.SH'))).toMatchObject({ code: 'UPSTREAM_SCHEMA_CHANGED', source: 'sina' });
+  });
+
+  it('should rotate keys on a throttling payload and fail fast on an all-zero quote', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ error: 'API limit reached. Please try again later.' }) })
+      .mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({ c: 101, d: 1, dp: 1, h: 102, l: 99, o: 100, pc: 100, t: 1700000000 }) });
+    vi.stubGlobal('fetch', fetchMock);
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub: new FinnhubClient(), twelvedata }, { apiKeys: { finnhub: 'f-one,f-two', twelvedata: 'td-key' } });
+
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub', currentPrice: 101 });
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers['X-Finnhub-Token'])).toEqual(['f-one', 'f-two']);
+    expect(client.getKeyManager('finnhub')?.getKeyStatus()[0]).toMatchObject({ inCooldown: true });
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({ c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0 }) });
+    expect(toToolError(await caught(client.getStockQuote('APPL')))).toMatchObject({ code: 'NOT_FOUND', source: 'finnhub' });
+    expect(twelvedata.getStockQuote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRequestSignal } from '../resilience/request-context.js';
+import { ProviderError } from '../api/errors.js';
+import type { HedgingConfig } from '../resilience/hedging.js';
+import { QUOTE, createClient } from './helpers.js';
+
+function delayedQuote(delayMs: number, signals: AbortSignal[] = []) {
+  return vi.fn(async (symbol: string) => {
+    signals.push(getRequestSignal()!);
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    return { symbol, ...QUOTE };
+  });
+}
+
+function createHedgedClient(clients: Record<string, unknown>, hedging: Partial<HedgingConfig> = {}) {
+  return createClient(clients, { hedging: { enabled: true, fallbackDelayMs: 30, minDelayMs: 0, ...hedging } });
+}
+
+describe('ResilientApiClient - hedged requests', () => {
+  it('should ask the next source when the first is slow, take the first answer and cancel the other', async () => {
+    const finnhubSignals: AbortSignal[] = [];
+    const finnhub = { getStockQuote: delayedQuote(300, finnhubSignals) };
+    const twelvedata = { getStockQuote: delayedQuote(5) };
+    const client = createHedgedClient({ finnhub, twelvedata });
+
+    const { data, meta } = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL'));
+
+    expect(data).toMatchObject({ source: 'twelvedata', currentPrice: 101 });
+    expect(meta.source).toBe('twelvedata');
+    expect(meta.totalDurationMs).toBeLessThan(300);
+    expect(meta.attempts).toEqual([
+      expect.objectContaining({ source: 'twelvedata', success: true }),
+      expect.objectContaining({ source: 'finnhub', success: false, code: 'CANCELLED', error: 'finnhub request cancelled, twelvedata answered first' }),
+    ]);
+    expect(finnhubSignals[0].aborted).toBe(true);
+
+    const report = await client.getProviderStatus({ source: 'finnhub' });
+    expect(report.providers[0].activity.calls).toBe(0);
+    expect(client.getCircuitBreaker('finnhub')?.getState().failureCount).toBe(0);
+  });
+
+  it('should not hedge a source that answers within its usual latency or a tool that is not hedged', async () => {
+    const finnhub = { getStockQuote: delayedQuote(5) };
+    const twelvedata = { getStockQuote: delayedQuote(5) };
+    const client = createHedgedClient({ finnhub, twelvedata }, { fallbackDelayMs: 40 });
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+
+    const slowFinnhub = { getStockQuote: delayedQuote(80) };
+    const quotesOnly = createHedgedClient({ finnhub: slowFinnhub, twelvedata }, { tools: ['get_quote'] });
+    await expect(quotesOnly.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+
+    expect(twelvedata.getStockQuote).not.toHaveBeenCalled();
+  });
+
+  it('should keep waiting for the first source when the hedge fails, and fail over at once when the first source fails', async () => {
+    const finnhub = { getStockQuote: delayedQuote(80) };
+    const twelvedata = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('TRANSIENT', 'twelvedata', 'Twelve Data API error: 503')) };
+    const client = createHedgedClient({ finnhub, twelvedata });
+
+    const { data, meta } = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL'));
+
+    expect(data).toMatchObject({ source: 'finnhub' });
+    expect(meta.attempts.map(attempt => [attempt.source, attempt.success])).toEqual([['twelvedata', false], ['finnhub', true]]);
+
+    finnhub.getStockQuote.mockRejectedValueOnce(new ProviderError('TRANSIENT', 'finnhub', 'Finnhub API error: 502'));
+    twelvedata.getStockQuote.mockResolvedValueOnce({ symbol: 'MSFT', ...QUOTE });
+    const failedOver = await client.withMeta('get_stock_quote', () => client.getStockQuote('MSFT'));
+
+    expect(failedOver.data).toMatchObject({ source: 'twelvedata' });
+    expect(failedOver.meta.attempts.map(attempt => attempt.source)).toEqual(['finnhub', 'twelvedata']);
+  });
+});
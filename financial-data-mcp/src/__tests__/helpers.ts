@@ -0,0 +1,37 @@
+/**
+ * Fixtures shared by the tests of the resilient client
+ */
+
+import type { ResilienceConfig } from '../types.js';
+import { ResilientApiClient, type ResilientApiClientOptions } from '../resilience/resilient-api-client.js';
+import { ResponseCache } from '../resilience/response-cache.js';
+import { RateLimiter } from '../resilience/rate-limiter.js';
+
+/** Quote fields providers answer with; tests add the symbol and override the price where it matters */
+export const QUOTE = {
+  currentPrice: 101,
+  change: 1,
+  percentChange: 1,
+  highPriceOfDay: 102,
+  lowPriceOfDay: 99,
+  openPriceOfDay: 100,
+  previousClosePrice: 100,
+};
+
+/**
+ * A client over ready-made provider clients, with the cache, rate limiter and retries off and
+ * keys for Finnhub and Twelve Data unless the options say otherwise
+ */
+export function createClient(
+  clients: Record<string, unknown>,
+  options: ResilientApiClientOptions = {},
+  config: Partial<ResilienceConfig> = {}
+): ResilientApiClient {
+  return ResilientApiClient.create({ retryEnabled: false, ...config }, {
+    cache: new ResponseCache({ enabled: false }),
+    rateLimiter: new RateLimiter({ enabled: false }),
+    apiKeys: { finnhub: 'f-one', twelvedata: 'td-key' },
+    ...options,
+    clients,
+  });
+}
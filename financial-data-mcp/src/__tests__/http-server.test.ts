@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHttpServer } from '../transport/index.js';
+
+function createEchoServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', description: 'Echo arguments', inputSchema: { type: 'object', properties: {} } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async request => ({
+    content: [{ type: 'text', text: JSON.stringify(request.params.arguments) }],
+  }));
+  return server;
+}
+
+/**
+ * Posts a tools/list call with the given headers; fetch would not let the Host header be set
+ */
+function postWithHeaders(url: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    }, res => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+  });
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    httpServer = new McpHttpServer({ httpHost: '127.0.0.1', httpPort: 0, sessionIdleTimeoutMs: 0 }, createEchoServer);
+    await httpServer.start();
+    baseUrl = `http://127.0.0.1:${httpServer.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  it('should report health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok', sessions: 0 });
+  });
+
+  it('should answer a tool call posted without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'echo', arguments: { symbol: 'AAPL' } } }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.result.content[0].text).toBe('{"symbol":"AAPL"}');
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('should keep a session for SDK clients until it is terminated', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+
+    const tools = await client.listTools();
+    const result = await client.callTool({ name: 'echo', arguments: { n: 1 } });
+
+    expect(tools.tools.map(tool => tool.name)).toEqual(['echo']);
+    expect(result.content).toEqual([{ type: 'text', text: '{"n":1}' }]);
+    expect(httpServer.getSessionCount()).toBe(1);
+
+    await transport.terminateSession();
+    await client.close();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('should reject unknown sessions and paths', async () => {
+    const unknownSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'missing',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    const unknownPath = await fetch(`${baseUrl}/other`);
+
+    expect(unknownSession.status).toBe(404);
+    expect(unknownPath.status).toBe(404);
+  });
+
+  it('should refuse requests for a foreign host or from a foreign origin', async () => {
+    const port = httpServer.getPort();
+
+    const reboundHost = await postWithHeaders(`${baseUrl}/mcp`, { Host: `evil.example:${port}`, Origin: `http://evil.example:${port}` });
+    const foreignOrigin = await postWithHeaders(`${baseUrl}/mcp`, { Origin: 'https://evil.example' });
+    const sameOrigin = await postWithHeaders(`${baseUrl}/mcp`, { Host: `localhost:${port}`, Origin: `http://localhost:${port}` });
+
+    expect(reboundHost).toBe(403);
+    expect(foreignOrigin).toBe(403);
+    expect(sameOrigin).toBe(200);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseSymbol, formatSymbol, toTwelveDataSymbol, toSinaSymbol, toEastMoneySecid } from '../symbols/index.js';
+import { sourceRouter } from '../resilience/source-router.js';
+import { EastMoneyClient } from '../api/eastmoney.js';
+import { toolRegistry, ToolArgumentError } from '../tools/index.js';
+import { QUOTE, createClient } from './helpers.js';
+
+describe('Index symbols', () => {
+  it('should read index namespaces and write them for each provider', () => {
+    expect(parseSymbol('idx:000300')).toEqual({ exchange: 'SH', code: '000300', assetClass: 'index' });
+    expect(parseSymbol('idx:399001')).toEqual({ exchange: 'SZ', code: '399001', assetClass: 'index' });
+    expect(parseSymbol('^GSPC')).toEqual({ exchange: 'US', code: 'GSPC', assetClass: 'index' });
+    expect(parseSymbol('HSI')).toEqual({ exchange: 'HK', code: 'HSI', assetClass: 'index' });
+    expect(parseSymbol('hkHSI')).toEqual(parseSymbol('idx:HSI'));
+    expect(parseSymbol('GSPC')).toMatchObject({ exchange: 'US', assetClass: 'stock' });
+    expect(['idx:600519', '^FTSE', 'idx:'].map(parseSymbol)).toEqual([null, null, null]);
+
+    const gspc = parseSymbol('^GSPC')!;
+    const hsi = parseSymbol('HSI')!;
+    expect([gspc, hsi].map(formatSymbol)).toEqual(['^GSPC', '^HSI']);
+    expect([gspc, hsi].map(toTwelveDataSymbol)).toEqual(['SPX', 'HSI']);
+    expect(toSinaSymbol(hsi)).toBe('hkHSI');
+    expect(['idx:000300', '^GSPC', '^DJI', 'HSTECH'].map(symbol => toEastMoneySecid(parseSymbol(symbol)!))).toEqual(['1.000300', '100.SPX', '100.DJIA', '124.HSTECH']);
+  });
+
+  it('should route indices only to providers quoting them and never fall back to stock sources', () => {
+    expect(sourceRouter.getSourcesForTool('get_stock_quote', '000001')).toEqual(['sina', 'eastmoney']);
+    expect(sourceRouter.getSourcesForTool('get_stock_quote', '^GSPC')).toEqual(['twelvedata']);
+    expect(sourceRouter.getSourcesForTool('get_stock_quote', 'HSI')).toEqual(['sina']);
+    expect(sourceRouter.getSourcesForTool('get_daily_prices', 'idx:399001')).toEqual(['sina', 'eastmoney']);
+    expect(sourceRouter.getSourcesForTool('get_company_info', '^GSPC')).toEqual([]);
+  });
+});
+
+describe('Index quotes and constituents', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should quote an index from Twelve Data under its own name', async () => {
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'SPX', ...QUOTE, currentPrice: 5300.5 }) };
+    const finnhub = { getStockQuote: vi.fn() };
+    const client = createClient({ finnhub, twelvedata });
+
+    const quote = await client.getStockQuote('^GSPC');
+
+    expect(twelvedata.getStockQuote).toHaveBeenCalledWith('SPX');
+    expect(finnhub.getStockQuote).not.toHaveBeenCalled();
+    expect(quote).toMatchObject({ symbol: '^GSPC', canonicalSymbol: '^GSPC', currentPrice: 5300.5, source: 'twelvedata' });
+  });
+
+  it('should list the members of an index with canonical symbols', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        data: {
+          diff: [
+            { f12: '600519', f13: 1, f14: '贵州茅台' },
+            { f12: '000001', f13: 0, f14: '平安银行' },
+          ],
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetch);
+    const client = createClient({ eastmoney: new EastMoneyClient() }, { apiKeys: {} });
+
+    const result = await client.getIndexConstituents('idx:000300');
+
+    expect(fetch.mock.calls[0][0]).toContain('fs=b%3ABK0500');
+    expect(result).toMatchObject({
+      symbol: 'idx:000300',
+      canonicalSymbol: '000300.SH',
+      source: 'eastmoney',
+      constituents: [{ symbol: '600519.SH', name: '贵州茅台' }, { symbol: '000001.SZ', name: '平安银行' }],
+    });
+    await expect(client.getIndexConstituents('idx:399006')).rejects.toMatchObject({
+      code: 'ALL_SOURCES_FAILED',
+      attempts: [{ source: 'eastmoney', error: { code: 'UNSUPPORTED_BY_SOURCE' } }],
+    });
+    expect(() => toolRegistry.parseArguments('get_index_constituents', { symbol: '600519.SH' })).toThrow(ToolArgumentError);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  normalizePriceSeries,
+  normalizeFinancialStatement,
+  normalizeMetrics,
+  normalizeTechnicalIndicator,
+  normalizeNews,
+  toIsoDate,
+  toNumber,
+} from '../normalize/index.js';
+import { FinnhubClient } from '../api/finnhub.js';
+import { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { ResponseCache } from '../resilience/response-cache.js';
+
+const retrievedAt = new Date('2024-06-01T12:00:00Z');
+
+describe('Normalization', () => {
+  describe('primitives', () => {
+    it('should parse provider numbers', () => {
+      expect(toNumber('1.69%')).toBe(1.69);
+      expect(toNumber('1,234.5')).toBe(1234.5);
+      expect(toNumber('None')).toBeNull();
+      expect(toNumber(undefined)).toBeNull();
+    });
+
+    it('should convert provider dates to ISO 8601', () => {
+      expect(toIsoDate('2024-01-02')).toBe('2024-01-02');
+      expect(toIsoDate('20240102')).toBe('2024-01-02');
+      expect(toIsoDate('2024-01-02 09:30')).toBe('2024-01-02T09:30:00');
+      expect(toIsoDate(1704153600)).toBe('2024-01-02T00:00:00.000Z');
+    });
+  });
+
+  describe('normalizePriceSeries', () => {
+    it('should give date-keyed and array payloads the same ascending shape', () => {
+      const alphaVantage = {
+        '2024-01-03': { date: '2024-01-03', open: 2, high: 3, low: 1, close: 2.5, volume: 100 },
+        '2024-01-02': { date: '2024-01-02', open: 1, high: 2, low: 0.5, close: 1.5, volume: 90 },
+      };
+      const tiingo = [
+        { date: '2024-01-03', open: 2, high: 3, low: 1, close: 2.5, volume: 100 },
+        { date: '2024-01-02', open: 1, high: 2, low: 0.5, close: 1.5, volume: 90 },
+      ];
+
+      const fromAlpha = normalizePriceSeries(alphaVantage, { source: 'alphavantage', params: { symbol: 'AAPL' }, retrievedAt });
+      const fromTiingo = normalizePriceSeries(tiingo, { source: 'tiingo', params: { symbol: 'AAPL' }, retrievedAt });
+
+      expect(fromAlpha.prices.map(p => p.date)).toEqual(['2024-01-02', '2024-01-03']);
+      expect(fromAlpha.prices).toEqual(fromTiingo.prices);
+      expect(fromAlpha).toMatchObject({ symbol: 'AAPL', source: 'alphavantage', asOf: '2024-01-03' });
+    });
+  });
+
+  describe('normalizeFinancialStatement', () => {
+    it('should convert line items to numbers and sort reports by fiscal date', () => {
+      const raw = {
+        symbol: 'AAPL',
+        annualReports: [
+          { fiscalDateEnding: '2023-09-30', reportedCurrency: 'USD', totalRevenue: '383285000000', researchAndDevelopment: 'None' },
+          { fiscalDateEnding: '2022-09-24', reportedCurrency: 'USD', totalRevenue: '394328000000', researchAndDevelopment: '26251000000' },
+        ],
+        quarterlyReports: [],
+      };
+
+      const result = normalizeFinancialStatement(raw, 'income', { source: 'alphavantage', params: { symbol: 'AAPL' }, retrievedAt });
+
+      expect(result.annualReports.map(r => r.fiscalDateEnding)).toEqual(['2022-09-24', '2023-09-30']);
+      expect(result.annualReports[1]).toEqual({
+        fiscalDateEnding: '2023-09-30',
+        reportedCurrency: 'USD',
+        values: { totalRevenue: 383285000000, researchAndDevelopment: null },
+      });
+      expect(result).toMatchObject({ statementType: 'income', source: 'alphavantage', asOf: '2023-09-30' });
+    });
+  });
+
+  describe('normalizeMetrics', () => {
+    it('should keep numeric metrics and sort series ascending', () => {
+      const raw = {
+        symbol: 'AAPL',
+        metricType: 'all',
+        metric: { peTTM: 29.5, '52WeekHighDate': '2024-05-01', beta: '1.2' },
+        series: { annual: { eps: [{ period: '2023-09-30', v: 6.13 }, { period: '2022-09-24', v: 6.11 }] } },
+      };
+
+      const result = normalizeMetrics(raw, { source: 'finnhub', params: { symbol: 'AAPL' }, retrievedAt });
+
+      expect(result.metrics).toEqual({ peTTM: 29.5, beta: 1.2 });
+      expect(result.series.annual.eps).toEqual([
+        { period: '2022-09-24', value: 6.11 },
+        { period: '2023-09-30', value: 6.13 },
+      ]);
+      expect(result.asOf).toBe(retrievedAt.toISOString());
+    });
+  });
+
+  describe('normalizeTechnicalIndicator', () => {
+    it('should parse Alpha Vantage string outputs into ascending numeric points', () => {
+      const raw = {
+        indicator: 'MACD',
+        symbol: 'AAPL',
+        data: {
+          '2024-01-03': { MACD: '1.5', MACD_Signal: '1.2', MACD_Hist: '0.3' },
+          '2024-01-02': { MACD: '1.4', MACD_Signal: '1.1', MACD_Hist: '0.3' },
+        },
+      };
+
+      const result = normalizeTechnicalIndicator(raw, { source: 'alphavantage', params: { symbol: 'AAPL', interval: 'daily' } });
+
+      expect(result.values[0]).toEqual({
+        date: '2024-01-02',
+        value: 1.4,
+        components: { MACD: 1.4, MACD_Signal: 1.1, MACD_Hist: 0.3 },
+      });
+      expect(result).toMatchObject({ indicator: 'MACD', interval: 'daily', asOf: '2024-01-03' });
+    });
+  });
+
+  describe('normalizeNews', () => {
+    it('should add ISO publication times and order articles newest first', () => {
+      const result = normalizeNews(
+        [{ id: 1, headline: 'old', datetime: 1704153600 }, { id: 2, headline: 'new', datetime: 1704240000 }],
+        { source: 'finnhub', params: { symbol: 'AAPL' }, retrievedAt }
+      );
+
+      expect(result.articles.map(a => a.id)).toEqual([2, 1]);
+      expect(result.articles[1].publishedAt).toBe('2024-01-02T00:00:00.000Z');
+    });
+  });
+});
+
+describe('FinnhubClient candles', () => {
+  const mockFetch = vi.fn();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should convert column arrays into bars', async () => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ s: 'ok', t: [1704153600], o: [1], h: [2], l: [0.5], c: [1.5], v: [100] }),
+    });
+
+    const candles = await new FinnhubClient('test-key').getStockCandles('AAPL', 'D', 1704067200, 1704240000);
+
+    expect(candles).toEqual([{ date: '2024-01-02', open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 }]);
+  });
+
+  it('should return no bars for a no_data response', async () => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ s: 'no_data' }) });
+
+    expect(await new FinnhubClient('test-key').getStockCandles('AAPL', 'D', 0, 1)).toEqual([]);
+  });
+});
+
+describe('ResilientApiClient normalization', () => {
+  it('should tag results with the source that won failover', async () => {
+    const finnhubMock = {};
+    const alphaMock = {
+      getDailyPrices: vi.fn().mockResolvedValue({
+        '2024-01-02': { date: '2024-01-02', open: '1', high: '2', low: '0.5', close: '1.5', volume: '90' },
+      }),
+    };
+    const client = new ResilientApiClient(finnhubMock as any, alphaMock as any, undefined, undefined, { retryEnabled: false }, {
+      cache: new ResponseCache({ enabled: false }),
+      apiKeys: { alphavantage: 'alpha-key' },
+    });
+
+    const result = await client.getDailyPrices('AAPL', 'compact');
+
+    expect(result).toMatchObject({
+      symbol: 'AAPL',
+      source: 'alphavantage',
+      asOf: '2024-01-02',
+      prices: [{ date: '2024-01-02', open: 1, high: 2, low: 0.5, close: 1.5, volume: 90 }],
+    });
+  });
+});
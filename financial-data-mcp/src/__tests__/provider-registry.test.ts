@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { providerRegistry, loadProviderPlugins, ProviderPluginError, ProviderRegistry } from '../providers/index.js';
+import { toolRegistry } from '../tools/index.js';
+import { sourceRouter } from '../resilience/source-router.js';
+import { getSourcesForMarket } from '../resilience/market-router.js';
+import { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { ResponseCache } from '../resilience/response-cache.js';
+import { loadConfig, resolveProviderPlugins } from '../config/index.js';
+
+const PLUGIN_SOURCE = `
+export default {
+  id: 'acme',
+  name: 'Acme Market Data',
+  tools: ['get_stock_quote', 'get_daily_prices'],
+  markets: ['US', 'HK'],
+  apiKeyEnvVar: 'ACME_API_KEY',
+  rateLimit: { requestsPerMinute: 120 },
+  createClient: ({ apiKey }) => apiKey ? {
+    apiKey,
+    getStockQuote: async symbol => ({
+      symbol,
+      currentPrice: 101,
+      change: 1,
+      percentChange: 1,
+      highPriceOfDay: 102,
+      lowPriceOfDay: 99,
+      openPriceOfDay: 100,
+      previousClosePrice: 100,
+    }),
+    healthCheck: async () => true,
+  } : undefined,
+};
+`;
+
+describe('ProviderRegistry', () => {
+  it('should declare every built-in tool source on the provider', () => {
+    for (const tool of toolRegistry.getToolNames()) {
+      const capable = providerRegistry.getIdsForTool(tool);
+      expect(toolRegistry.get(tool)?.sources.filter(source => !capable.includes(source))).toEqual([]);
+    }
+  });
+
+  it('should reject duplicate ids and unknown tools', () => {
+    const registry = new ProviderRegistry();
+    const provider = { id: 'acme', name: 'Acme', tools: ['get_stock_quote'], markets: ['US' as const], createClient: () => ({}) };
+
+    registry.register(provider);
+
+    expect(() => registry.register(provider)).toThrow('Provider acme is registered twice');
+    expect(() => registry.register({ ...provider, id: 'other', tools: ['get_weather'] }))
+      .toThrow('Provider other declares unknown tools: get_weather');
+    expect(() => registry.register({ ...provider, id: 'Bad-Id' })).toThrow('must be lower-case letters and digits');
+  });
+});
+
+describe('provider plugins', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdm-plugin-'));
+    fs.writeFileSync(path.join(dir, 'acme-provider.mjs'), PLUGIN_SOURCE);
+    fs.writeFileSync(path.join(dir, 'not-a-provider.mjs'), 'export default { id: "broken" };');
+    await loadProviderPlugins(providerRegistry, ['./acme-provider.mjs'], dir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should add plugin providers after the preferred sources of the tools they declare', () => {
+    expect(sourceRouter.getSourcesForTool('get_stock_quote')).toEqual(
+      ['finnhub', 'twelvedata', 'tiingo', 'alphavantage', 'sina', 'eastmoney', 'acme']
+    );
+    expect(sourceRouter.getSourcesForTool('get_stock_quote', '600519.SH')).not.toContain('acme');
+    expect(getSourcesForMarket('HK')).toEqual(['finnhub', 'twelvedata', 'sina', 'acme']);
+  });
+
+  it('should read the plugin key and settings through the config', () => {
+    const config = loadConfig({
+      cwd: dir,
+      env: { ACME_API_KEY: 'acme-one,acme-two', ACME_TIMEOUT_MS: '2500', SOURCE_PRIORITY_GET_QUOTE: 'acme,tiingo' },
+    });
+
+    expect(config.apiKeys.acme).toBe('acme-one,acme-two');
+    expect(config.resilience.acmeTimeoutMs).toBe(2500);
+    expect(config.sourcePriority.get_quote).toEqual(['acme', 'tiingo']);
+  });
+
+  it('should fail over to the plugin provider with key rotation and health checks', async () => {
+    const finnhubMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Finnhub API error: 503 Service Unavailable')) };
+    const client = new ResilientApiClient(finnhubMock, undefined, undefined, undefined, { retryEnabled: false }, {
+      cache: new ResponseCache({ enabled: false }),
+      apiKeys: { finnhub: 'finnhub-key', acme: 'acme-one,acme-two' },
+    });
+
+    const quote = await client.getStockQuote('AAPL');
+
+    expect(quote).toMatchObject({ currentPrice: 101, source: 'acme' });
+    expect(client.getKeyManager('acme')?.getTotalKeyCount()).toBe(2);
+    expect(client.getCircuitBreaker('acme')).toBeDefined();
+    expect(await client.checkHealth('acme')).toBe(true);
+    expect(await client.checkHealth('tiingo')).toBe(false);
+  });
+
+  it('should reject plugins without a provider definition', async () => {
+    await expect(loadProviderPlugins(new ProviderRegistry(), ['./not-a-provider.mjs'], dir))
+      .rejects.toThrow(ProviderPluginError);
+    await expect(loadProviderPlugins(new ProviderRegistry(), ['./missing.mjs'], dir))
+      .rejects.toThrow('Provider plugin ./missing.mjs: failed to import');
+  });
+
+  it('should list plugins from PROVIDER_PLUGINS before the config file', () => {
+    fs.writeFileSync(path.join(dir, 'financial-data-mcp.config.json'), JSON.stringify({ providerPlugins: ['./from-file.mjs'] }));
+
+    expect(resolveProviderPlugins({ cwd: dir, env: {} })).toEqual(['./from-file.mjs']);
+    expect(resolveProviderPlugins({ cwd: dir, env: { PROVIDER_PLUGINS: '@acme/provider, ./local.mjs' } }))
+      .toEqual(['@acme/provider', './local.mjs']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FinnhubClient } from '../api/finnhub.js';
+import { parseRateLimitHeaders } from '../api/rate-limit-headers.js';
+import { ProviderError } from '../api/errors.js';
+import { QUOTE, createClient } from './helpers.js';
+
+const FINNHUB_QUOTE = { c: 101, d: 1, dp: 1, h: 102, l: 99, o: 100, pc: 100, t: 1700000000 };
+
+const ROTATION_CONFIG = { keyRotationResetWindowMs: 60_000 };
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return { ok: status < 400, status, statusText: status === 429 ? 'Too Many Requests' : 'OK', headers: new Headers(headers), json: () => Promise.resolve(body) };
+}
+
+function sentTokens(fetchMock: ReturnType<typeof vi.fn>): string[] {
+  return fetchMock.mock.calls.map(([, init]) => init.headers['X-Finnhub-Token']);
+}
+
+describe('parseRateLimitHeaders', () => {
+  const now = Date.parse('2026-01-05T10:00:00Z');
+
+  it('should read Retry-After as seconds or an HTTP date', () => {
+    expect(parseRateLimitHeaders({ headers: new Headers({ 'Retry-After': '30' }) }, now)).toEqual({ retryAt: now + 30_000 });
+    expect(parseRateLimitHeaders({ headers: new Headers({ 'Retry-After': 'Mon, 05 Jan 2026 10:02:00 GMT' }) }, now))
+      .toEqual({ retryAt: now + 120_000 });
+  });
+
+  it('should read X-RateLimit headers and Twelve Data credit headers', () => {
+    expect(parseRateLimitHeaders({
+      headers: new Headers({ 'X-RateLimit-Remaining': '12', 'X-RateLimit-Limit': '60', 'X-RateLimit-Reset': String(now / 1000 + 45) }),
+    }, now)).toEqual({ remaining: 12, limit: 60, resetAt: now + 45_000 });
+    expect(parseRateLimitHeaders({ headers: new Headers({ 'X-RateLimit-Reset': '20' }) }, now)).toEqual({ resetAt: now + 20_000 });
+    expect(parseRateLimitHeaders({ headers: new Headers({ 'api-credits-used': '6', 'api-credits-left': '2' }) }, now))
+      .toEqual({ remaining: 2, limit: 8 });
+    expect(parseRateLimitHeaders({ headers: new Headers({ 'Content-Type': 'application/json' }) }, now)).toBeUndefined();
+    expect(parseRateLimitHeaders({}, now)).toBeUndefined();
+  });
+});
+
+describe('ResilientApiClient - rate-limit headers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep a throttled key in cooldown for as long as Retry-After says', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(429, {}, { 'Retry-After': '5' }))
+      .mockResolvedValue(respond(200, FINNHUB_QUOTE));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ finnhub: new FinnhubClient() }, { apiKeys: { finnhub: 'f-one,f-two' } }, ROTATION_CONFIG);
+
+    const before = Date.now();
+    await client.getStockQuote('AAPL');
+
+    expect(sentTokens(fetchMock)).toEqual(['f-one', 'f-two']);
+    const cooldownUntil = client.getKeyManager('finnhub')?.getKeyInfo('finnhub')[0].cooldownUntil as number;
+    expect(cooldownUntil).toBeGreaterThanOrEqual(before + 5_000);
+    expect(cooldownUntil).toBeLessThan(before + 60_000);
+  });
+
+  it('should pass over a nearly spent key and rest a spent one until its window resets', async () => {
+    const resetAt = Math.ceil(Date.now() / 1000) + 30;
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(200, FINNHUB_QUOTE, { 'X-RateLimit-Remaining': '3', 'X-RateLimit-Limit': '60', 'X-RateLimit-Reset': String(resetAt) }))
+      .mockResolvedValueOnce(respond(200, FINNHUB_QUOTE, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Limit': '60', 'X-RateLimit-Reset': String(resetAt) }))
+      .mockResolvedValue(respond(200, FINNHUB_QUOTE));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ finnhub: new FinnhubClient() }, { apiKeys: { finnhub: 'f-one,f-two' } }, ROTATION_CONFIG);
+
+    await client.getStockQuote('AAPL');
+    await client.getStockQuote('MSFT');
+    await client.getStockQuote('NVDA');
+
+    expect(sentTokens(fetchMock)).toEqual(['f-one', 'f-two', 'f-one']);
+    const [first, second] = client.getKeyManager('finnhub')?.getKeyStatus() ?? [];
+    expect(first).toMatchObject({ inCooldown: false, quota: { remaining: 3, limit: 60, low: true } });
+    expect(second).toMatchObject({ inCooldown: true, cooldownUntil: new Date(resetAt * 1000).toISOString() });
+  });
+
+  it('should send the key rotation picked for a request even after another request rotated away from it', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const sent: Array<[string, string]> = [];
+    const finnhub = {
+      keyProvider: () => '' as string | null,
+      setKeyProvider(provider: () => string | null) { this.keyProvider = provider; },
+      getStockQuote: vi.fn(async function (this: typeof finnhub, symbol: string) {
+        if (symbol === 'SLOW') await gate;
+        const key = this.keyProvider() as string;
+        sent.push([symbol, key]);
+        if (symbol === 'LIMIT' && key === 'f-one') {
+          throw new ProviderError('RATE_LIMITED', 'finnhub', 'Finnhub API error: 429 Too Many Requests');
+        }
+        return { symbol, ...QUOTE };
+      }),
+    };
+    const client = createClient({ finnhub }, { apiKeys: { finnhub: 'f-one,f-two' } }, ROTATION_CONFIG);
+
+    const slow = client.getStockQuote('SLOW');
+    await client.getStockQuote('LIMIT');
+    release();
+    await slow;
+
+    expect(sent).toEqual([['LIMIT', 'f-one'], ['LIMIT', 'f-two'], ['SLOW', 'f-one']]);
+    expect(client.getKeyManager('finnhub')?.getKeyStatus().map(key => key.inCooldown)).toEqual([true, false]);
+  });
+
+  it('should try other sources before one whose keys are all nearly spent', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(200, FINNHUB_QUOTE, { 'X-RateLimit-Remaining': '1' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub: new FinnhubClient(), twelvedata }, {}, ROTATION_CONFIG);
+
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+    await expect(client.getStockQuote('MSFT')).resolves.toMatchObject({ source: 'twelvedata' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
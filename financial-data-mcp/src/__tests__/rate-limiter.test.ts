@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RateLimiter, RateLimitExceededError } from '../resilience/rate-limiter.js';
+import { QUOTE, createClient } from './helpers.js';
+
+const KEY_ONE = { index: 0, key: 'key-one' };
+const KEY_TWO = { index: 1, key: 'key-two' };
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(() => undefined, error => error);
+}
+
+describe('RateLimiter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdm-quota-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should space out calls and fail a call that would wait longer than maxWaitMs', async () => {
+    const limiter = new RateLimiter({ maxWaitMs: 500, providers: { sina: { minIntervalMs: 50 }, finnhub: { requestsPerMinute: 2 } } });
+
+    const start = Date.now();
+    await limiter.acquire('sina');
+    await limiter.acquire('sina');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+
+    await limiter.acquire('finnhub', KEY_ONE);
+    await limiter.acquire('finnhub', KEY_ONE);
+    const error = await caught(limiter.acquire('finnhub', KEY_ONE));
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', source: 'finnhub' });
+    expect((error as RateLimitExceededError).retryAt).toBeGreaterThan(Date.now() + 20_000);
+
+    await expect(limiter.acquire('finnhub', KEY_TWO)).resolves.toBeUndefined();
+  });
+
+  it('should keep daily counts per key across restarts without storing the key', async () => {
+    const ledgerPath = path.join(dir, 'quota.json');
+    const config = { ledgerPath, providers: { alphavantage: { requestsPerDay: 2, keys: { 1: { requestsPerDay: 1 } } } } };
+
+    const first = new RateLimiter(config);
+    await first.acquire('alphavantage', KEY_ONE);
+    await first.acquire('alphavantage', KEY_TWO);
+    await first.acquire('alphavantage', KEY_ONE);
+    expect(fs.existsSync(ledgerPath)).toBe(false);
+    await first.flush();
+
+    const restarted = new RateLimiter(config);
+    expect(restarted.getDailyUsage('alphavantage', KEY_ONE)).toMatchObject({ used: 2, limit: 2 });
+    expect(restarted.hasDailyBudget('alphavantage', KEY_TWO)).toBe(false);
+    const error = await caught(restarted.acquire('alphavantage', KEY_ONE));
+    expect((error as Error).message).toContain('Alpha Vantage daily budget of 2 requests is spent');
+    expect(new Date((error as RateLimitExceededError).retryAt).toISOString()).toMatch(/T00:00:00\.000Z$/);
+    expect(fs.readFileSync(ledgerPath, 'utf8')).not.toContain('key-one');
+    expect(fs.statSync(ledgerPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should only count against daily budgets when enabled', async () => {
+    const limiter = new RateLimiter({ enabled: false, providers: { tiingo: { requestsPerDay: 1 } } });
+
+    await limiter.acquire('tiingo', KEY_ONE);
+    await limiter.acquire('tiingo', KEY_ONE);
+
+    expect(limiter.hasDailyBudget('tiingo', KEY_ONE)).toBe(true);
+  });
+});
+
+describe('ResilientApiClient - rate limiting', () => {
+  it('should rotate off a spent key and skip a source whose daily budget is spent', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub, twelvedata }, {
+      rateLimiter: new RateLimiter({ providers: { finnhub: { requestsPerDay: 1 } } }),
+      apiKeys: { finnhub: 'f-one,f-two', twelvedata: 'td-key' },
+    });
+
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+    await expect(client.getStockQuote('MSFT')).resolves.toMatchObject({ source: 'finnhub' });
+    const { data, meta } = await client.withMeta('get_stock_quote', () => client.getStockQuote('NVDA'));
+
+    expect(data).toMatchObject({ source: 'twelvedata' });
+    expect(meta.skippedSources).toContain('finnhub');
+    expect(finnhub.getStockQuote).toHaveBeenCalledTimes(2);
+    expect(client.getKeyManager('finnhub')?.getKeyStatus()[0]).toMatchObject({ inCooldown: true });
+
+    const report = await client.getProviderStatus({ source: 'finnhub' });
+    expect(report.providers[0]).toMatchObject({ available: false, rateLimit: { requestsPerMinute: 60, requestsPerDay: 1 } });
+    expect(report.providers[0].keys?.entries[1].dailyBudget).toMatchObject({ used: 1, limit: 1 });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestCoalescer } from '../resilience/request-coalescer.js';
+import { ProviderError } from '../api/errors.js';
+import { toToolError } from '../resilience/error-detection.js';
+import { QUOTE, createClient } from './helpers.js';
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(() => undefined, error => error);
+}
+
+describe('ResilientApiClient - request coalescing', () => {
+  it('should send identical concurrent calls upstream once and count the calls saved', async () => {
+    const finnhub = {
+      getStockQuote: vi.fn(async (symbol: string) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { symbol, ...QUOTE };
+      }),
+    };
+    const client = createClient({ finnhub });
+
+    const results = await Promise.all([
+      client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL')),
+      client.withMeta('get_stock_quote', () => client.getStockQuote('aapl')),
+      client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL')),
+      client.withMeta('get_stock_quote', () => client.getStockQuote('MSFT')),
+    ]);
+
+    expect(finnhub.getStockQuote).toHaveBeenCalledTimes(2);
+    expect(results.map(result => result.data.currentPrice)).toEqual([101, 101, 101, 101]);
+    expect(results.map(result => result.meta.coalesced)).toEqual([undefined, true, true, undefined]);
+    expect(results[1].meta).toMatchObject({ source: 'finnhub', attempts: [] });
+
+    const report = await client.getProviderStatus({ source: 'finnhub' });
+    expect(report.coalescing).toEqual({
+      enabled: true,
+      requests: 4,
+      coalesced: 2,
+      inFlight: 0,
+      coalescedByTool: { get_stock_quote: 2 },
+    });
+
+    await client.getStockQuote('AAPL');
+    expect(finnhub.getStockQuote).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share an error with every waiter without mixing up their provenance', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('NOT_FOUND', 'finnhub', 'Finnhub: no quote for APPL')) };
+    const client = createClient({ finnhub });
+
+    const [first, second] = await Promise.all([
+      caught(client.withMeta('get_stock_quote', () => client.getStockQuote('APPL'))),
+      caught(client.withMeta('get_stock_quote', () => client.getStockQuote('APPL'))),
+    ]);
+
+    expect(finnhub.getStockQuote).toHaveBeenCalledTimes(1);
+    expect(toToolError(first)).toMatchObject({ code: 'NOT_FOUND', source: 'finnhub' });
+    expect(toToolError(second)).toMatchObject({ code: 'NOT_FOUND', source: 'finnhub' });
+    expect((first as { meta: { attempts: unknown[] } }).meta.attempts).toHaveLength(1);
+    expect((second as { meta: unknown }).meta).toMatchObject({ coalesced: true, attempts: [] });
+  });
+
+  it('should not hand the leading call\'s provenance to a waiter outside withMeta', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockRejectedValue(new ProviderError('NOT_FOUND', 'finnhub', 'Finnhub: no quote for APPL')) };
+    const client = createClient({ finnhub });
+
+    const [leader, waiter] = await Promise.all([
+      caught(client.withMeta('get_stock_quote', () => client.getStockQuote('APPL'))),
+      caught(client.getStockQuote('APPL')),
+    ]);
+
+    expect((leader as { meta: unknown }).meta).toMatchObject({ tool: 'get_stock_quote' });
+    expect(toToolError(waiter)).toMatchObject({ code: 'NOT_FOUND', source: 'finnhub' });
+    expect((waiter as { meta?: unknown }).meta).toBeUndefined();
+  });
+
+  it('should run every call when coalescing is disabled', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub }, { coalescer: new RequestCoalescer(false) });
+
+    await Promise.all([client.getStockQuote('AAPL'), client.getStockQuote('AAPL')]);
+
+    expect(finnhub.getStockQuote).toHaveBeenCalledTimes(2);
+    expect(client.getCoalescer().getStats()).toMatchObject({ enabled: false, requests: 2, coalesced: 0 });
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { ResponseCache } from '../resilience/response-cache.js';
+import { FinnhubClient } from '../api/finnhub.js';
+import { AlphaVantageClient } from '../api/alphavantage.js';
 
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -140,6 +143,201 @@ describe('ResilientApiClient - Method Compatibility', () => {
   });
 });
 
+describe('ResilientApiClient - Circuit Breakers', () => {
+  const createClient = (finnhubMock: any, alphaMock: any) =>
+    new ResilientApiClient(finnhubMock, alphaMock, undefined, undefined, {
+      circuitBreakerFailureThreshold: 2,
+      circuitBreakerTimeoutMs: 60000,
+      circuitBreakerHalfOpenAttempts: 1,
+      retryEnabled: false,
+    }, { cache: new ResponseCache({ enabled: false }) });
+
+  beforeEach(() => {
+    vi.stubEnv('FINNHUB_API_KEY', 'finnhub-key');
+    vi.stubEnv('ALPHAVANTAGE_API_KEY', 'alpha-key');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('should skip a source once its circuit opens', async () => {
+    const finnhubMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Finnhub API error: 503 Service Unavailable')) };
+    const alphaMock = { getStockQuote: vi.fn().mockResolvedValue({ currentPrice: 150 }) };
+    const client = createClient(finnhubMock, alphaMock);
+
+    await client.getStockQuote('AAPL');
+    await client.getStockQuote('AAPL');
+    expect(client.getCircuitBreaker('finnhub')?.getState().state).toBe('open');
+
+    const result = await client.getStockQuote('AAPL');
+
+    expect(result).toMatchObject({ currentPrice: 150, source: 'alphavantage' });
+    expect(finnhubMock.getStockQuote).toHaveBeenCalledTimes(2);
+    expect(alphaMock.getStockQuote).toHaveBeenCalledTimes(3);
+  });
+
+  it('should probe a half-open source and close the circuit on success', async () => {
+    vi.useFakeTimers();
+    const finnhubMock = {
+      getStockQuote: vi.fn()
+        .mockRejectedValueOnce(new Error('Finnhub API error: 503 Service Unavailable'))
+        .mockRejectedValueOnce(new Error('Finnhub API error: 503 Service Unavailable'))
+        .mockResolvedValue({ currentPrice: 151 }),
+    };
+    const alphaMock = { getStockQuote: vi.fn().mockResolvedValue({ currentPrice: 150 }) };
+    const client = createClient(finnhubMock, alphaMock);
+
+    await client.getStockQuote('AAPL');
+    await client.getStockQuote('AAPL');
+    vi.advanceTimersByTime(60001);
+
+    const result = await client.getStockQuote('AAPL');
+
+    expect(result).toMatchObject({ currentPrice: 151, source: 'finnhub' });
+    expect(client.getCircuitBreaker('finnhub')?.getState().state).toBe('closed');
+  });
+
+  it('should not count rate limits as source failures', async () => {
+    const finnhubMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Finnhub API error: 429 Too Many Requests')) };
+    const alphaMock = { getStockQuote: vi.fn().mockResolvedValue({ currentPrice: 150 }) };
+    const client = createClient(finnhubMock, alphaMock);
+
+    await client.getStockQuote('AAPL');
+    await client.getStockQuote('AAPL');
+    await client.getStockQuote('AAPL');
+
+    expect(client.getCircuitBreaker('finnhub')?.getState().state).toBe('closed');
+  });
+});
+
+describe('ResilientApiClient - Retry and Timeout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('FINNHUB_API_KEY', 'finnhub-key');
+    vi.stubEnv('ALPHAVANTAGE_API_KEY', 'alpha-key');
+  });
+
+  afterEach(() => {
+    mockFetch.mockReset();
+    vi.unstubAllEnvs();
+  });
+
+  it('should retry transient errors on the same source', async () => {
+    const finnhubMock = {
+      getStockQuote: vi.fn()
+        .mockRejectedValueOnce(new Error('Finnhub API error: 503 Service Unavailable'))
+        .mockResolvedValue({ currentPrice: 150 }),
+    };
+    const alphaMock = { getStockQuote: vi.fn() };
+    const client = new ResilientApiClient(finnhubMock as any, alphaMock as any, undefined, undefined, {
+      retryInitialDelayMs: 1,
+      retryMaxDelayMs: 1,
+    }, { cache: new ResponseCache({ enabled: false }) });
+
+    const result = await client.getStockQuote('AAPL');
+
+    expect(result).toMatchObject({ currentPrice: 150, source: 'finnhub' });
+    expect(finnhubMock.getStockQuote).toHaveBeenCalledTimes(2);
+    expect(alphaMock.getStockQuote).not.toHaveBeenCalled();
+  });
+
+  it('should abort a hung request after the provider timeout and fail over', async () => {
+    let finnhubSignal: AbortSignal | undefined;
+    mockFetch.mockImplementation((url: string, init: RequestInit) => {
+      if (url.includes('finnhub.io')) {
+        finnhubSignal = init.signal as AbortSignal;
+        return new Promise((_, reject) => {
+          finnhubSignal?.addEventListener('abort', () => reject(finnhubSignal?.reason));
+        });
+      }
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ 'Global Quote': { '01. symbol': 'AAPL', '05. price': '150.50' } }),
+      });
+    });
+
+    const client = new ResilientApiClient(
+      new FinnhubClient('finnhub-key'),
+      new AlphaVantageClient('alpha-key'),
+      undefined,
+      undefined,
+      { finnhubTimeoutMs: 20, retryEnabled: false },
+      { cache: new ResponseCache({ enabled: false }) }
+    );
+
+    const result = await client.getStockQuote('AAPL');
+
+    expect(result.currentPrice).toBe(150.5);
+    expect(finnhubSignal?.aborted).toBe(true);
+    expect((finnhubSignal?.reason as Error).name).toBe('TimeoutError');
+  });
+});
+
+describe('ResilientApiClient - Key Rotation', () => {
+  const rateLimited = { ok: false, status: 429, statusText: 'Too Many Requests', json: () => Promise.resolve({}) };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('FINNHUB_API_KEY', 'key-one,key-two');
+    vi.stubEnv('ALPHAVANTAGE_API_KEY', 'alpha-one,alpha-two');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should send the second Finnhub key after the first is rate limited', async () => {
+    mockFetch
+      .mockResolvedValueOnce(rateLimited)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ c: 150.5, d: 2.5, dp: 1.69, h: 152, l: 149, o: 149.5, pc: 148 }),
+      });
+
+    const client = new ResilientApiClient(
+      new FinnhubClient('key-one,key-two'),
+      new AlphaVantageClient('alpha-one,alpha-two'),
+      undefined,
+      undefined,
+      undefined,
+      { cache: new ResponseCache({ enabled: false }) }
+    );
+
+    const result = await client.getStockQuote('AAPL');
+
+    expect(result.currentPrice).toBe(150.5);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][1].headers['X-Finnhub-Token']).toBe('key-one');
+    expect(mockFetch.mock.calls[1][1].headers['X-Finnhub-Token']).toBe('key-two');
+    expect(client.getKeyManager('finnhub')?.getKeyInfo('finnhub')[0].inCooldown).toBe(true);
+  });
+
+  it('should send the second Alpha Vantage key after the first is rate limited', async () => {
+    mockFetch
+      .mockResolvedValueOnce(rateLimited)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ annualReports: [] }),
+      });
+
+    const client = new ResilientApiClient(
+      new FinnhubClient('key-one'),
+      new AlphaVantageClient('alpha-one,alpha-two'),
+      undefined,
+      undefined,
+      undefined,
+      { cache: new ResponseCache({ enabled: false }) }
+    );
+
+    await client.getIncomeStatement('AAPL');
+
+    expect(mockFetch.mock.calls[0][0]).toContain('apikey=alpha-one');
+    expect(mockFetch.mock.calls[1][0]).toContain('apikey=alpha-two');
+  });
+});
+
 describe('Client Method Aliases Verification', () => {
   it('should verify FinnhubClient exports getQuote alias', async () => {
     const { FinnhubClient } = await import('../api/finnhub.js');
@@ -169,3 +367,49 @@ describe('Client Method Aliases Verification', () => {
     expect(typeof client.getStockQuote).toBe('function');
   });
 });
+
+describe('ResilientApiClient - Provenance', () => {
+  beforeEach(() => {
+    vi.stubEnv('FINNHUB_API_KEY', 'finnhub-key');
+    vi.stubEnv('ALPHAVANTAGE_API_KEY', 'alpha-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should report the winning source, failed attempts and cache status', async () => {
+    const finnhubMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Finnhub API error: 503 Service Unavailable')) };
+    const alphaMock = { getStockQuote: vi.fn().mockResolvedValue({ currentPrice: 150 }) };
+    const client = new ResilientApiClient(finnhubMock as any, alphaMock as any, undefined, undefined, {
+      retryEnabled: false,
+    }, { cache: new ResponseCache() });
+
+    const first = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL'));
+
+    expect(first.data).toMatchObject({ currentPrice: 150, source: 'alphavantage' });
+    expect(first.meta).toMatchObject({ tool: 'get_stock_quote', source: 'alphavantage', cacheStatus: 'miss' });
+    expect(first.meta.attempts).toEqual([
+      expect.objectContaining({ source: 'finnhub', success: false, error: 'Finnhub API error: 503 Service Unavailable' }),
+      expect.objectContaining({ source: 'alphavantage', success: true }),
+    ]);
+
+    const second = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL'));
+
+    expect(second.meta).toMatchObject({ source: 'alphavantage', cacheStatus: 'hit', attempts: [] });
+  });
+
+  it('should attach provenance to the error when every source fails', async () => {
+    const finnhubMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Finnhub API error: 503 Service Unavailable')) };
+    const alphaMock = { getStockQuote: vi.fn().mockRejectedValue(new Error('Alpha Vantage API error: 503 Service Unavailable')) };
+    const client = new ResilientApiClient(finnhubMock as any, alphaMock as any, undefined, undefined, {
+      retryEnabled: false,
+    }, { cache: new ResponseCache({ enabled: false }) });
+
+    const error = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL')).catch(e => e);
+
+    expect(error.message).toContain('All sources failed');
+    expect(error.meta.attempts.map((a: any) => a.source)).toEqual(['finnhub', 'alphavantage']);
+    expect(error.meta.cacheStatus).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache, buildCacheKey, FileCacheBackend, MemoryCacheBackend } from '../resilience/response-cache.js';
+import { ResilientApiClient } from '../resilience/resilient-api-client.js';
+import { defaultStateFile } from '../resilience/state-file.js';
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildCacheKey', () => {
+    it('should ignore argument order, undefined values and symbol case', () => {
+      const a = buildCacheKey('get_news', { symbol: 'aapl', category: 'general', minId: undefined });
+      const b = buildCacheKey('get_news', { category: 'general', symbol: ' AAPL ' });
+
+      expect(a).toBe(b);
+    });
+
+    it('should separate tools with identical arguments', () => {
+      expect(buildCacheKey('get_quote', { symbol: 'AAPL' })).not.toBe(buildCacheKey('get_stock_quote', { symbol: 'AAPL' }));
+    });
+  });
+
+  describe('getOrLoad', () => {
+    it('should serve a hit within the tool TTL and reload after expiry', async () => {
+      const cache = new ResponseCache({ ttlOverrides: { get_stock_quote: 10 } });
+      const load = vi.fn().mockResolvedValueOnce({ currentPrice: 150 }).mockResolvedValueOnce({ currentPrice: 151 });
+
+      const first = await cache.getOrLoad('get_stock_quote', { symbol: 'AAPL' }, load);
+      const second = await cache.getOrLoad('get_stock_quote', { symbol: 'AAPL' }, load);
+
+      expect(first).toEqual({ value: { currentPrice: 150 }, status: 'miss' });
+      expect(second).toEqual({ value: { currentPrice: 150 }, status: 'hit' });
+      expect(load).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(11_000);
+
+      const third = await cache.getOrLoad('get_stock_quote', { symbol: 'AAPL' }, load);
+      expect(third).toEqual({ value: { currentPrice: 151 }, status: 'miss' });
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('should serve a stale entry when the loader fails', async () => {
+      const cache = new ResponseCache({ ttlOverrides: { get_company_overview: 1 } });
+      await cache.getOrLoad('get_company_overview', { symbol: 'AAPL' }, async () => ({ companyName: 'Apple' }));
+
+      vi.advanceTimersByTime(5_000);
+
+      const result = await cache.getOrLoad('get_company_overview', { symbol: 'AAPL' }, async () => {
+        throw new Error('All sources failed for get_company_overview');
+      });
+
+      expect(result).toEqual({ value: { companyName: 'Apple' }, status: 'stale' });
+      expect(cache.getStats().staleHits).toBe(1);
+    });
+
+    it('should rethrow when no stale entry exists or it is past the stale window', async () => {
+      const cache = new ResponseCache({ staleMaxAgeMs: 1_000, ttlOverrides: { get_quote: 1 } });
+      const failing = async () => {
+        throw new Error('upstream down');
+      };
+
+      await expect(cache.getOrLoad('get_quote', { symbol: 'MSFT' }, failing)).rejects.toThrow('upstream down');
+
+      await cache.getOrLoad('get_quote', { symbol: 'MSFT' }, async () => ({ currentPrice: 400 }));
+      vi.advanceTimersByTime(3_000);
+
+      await expect(cache.getOrLoad('get_quote', { symbol: 'MSFT' }, failing)).rejects.toThrow('upstream down');
+    });
+
+    it('should bypass the cache when disabled', async () => {
+      const cache = new ResponseCache({ enabled: false });
+      const load = vi.fn().mockResolvedValue({ currentPrice: 150 });
+
+      await cache.getOrLoad('get_stock_quote', { symbol: 'AAPL' }, load);
+      const result = await cache.getOrLoad('get_stock_quote', { symbol: 'AAPL' }, load);
+
+      expect(result.status).toBe('bypass');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('backends', () => {
+    it('should evict the least recently used entry', () => {
+      const backend = new MemoryCacheBackend(2);
+      const entry = (key: string) => ({ key, tool: 't', value: key, storedAt: 0, expiresAt: 1 });
+
+      backend.set(entry('a'));
+      backend.set(entry('b'));
+      backend.get('a');
+      backend.set(entry('c'));
+
+      expect(backend.get('a')).toBeDefined();
+      expect(backend.get('b')).toBeUndefined();
+      expect(backend.size()).toBe(2);
+    });
+
+    it('should persist entries to disk in one batched write and reload them', async () => {
+      vi.useRealTimers();
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdm-cache-'));
+      const filePath = path.join(dir, 'cache.json');
+
+      const cache = new ResponseCache({}, new FileCacheBackend(filePath, 10, 60000));
+      cache.set('get_income_statement?symbol=AAPL', 'get_income_statement', { annualReports: [] });
+      cache.set('get_balance_sheet?symbol=AAPL', 'get_balance_sheet', { annualReports: [] });
+      expect(fs.existsSync(filePath)).toBe(false);
+      await cache.flush();
+
+      const reloaded = new ResponseCache({}, new FileCacheBackend(filePath, 10));
+      expect(reloaded.get('get_income_statement?symbol=AAPL')?.value).toEqual({ annualReports: [] });
+      expect(reloaded.getStats().size).toBe(2);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the file in a directory and file only the user can read', async () => {
+      vi.useRealTimers();
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdm-cache-'));
+      const filePath = path.join(dir, 'state', 'cache.json');
+
+      const cache = new ResponseCache({}, new FileCacheBackend(filePath, 10));
+      cache.set('get_income_statement?symbol=AAPL', 'get_income_statement', { annualReports: [] });
+      await cache.flush();
+
+      expect(fs.statSync(path.dirname(filePath)).mode & 0o777).toBe(0o700);
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['cache.json']);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should default to the user cache directory', () => {
+      vi.stubEnv('XDG_CACHE_HOME', '/home/alice/.cache');
+      expect(defaultStateFile('cache')).toBe('/home/alice/.cache/financial-data-mcp/cache.json');
+
+      vi.stubEnv('XDG_CACHE_HOME', '');
+      expect(defaultStateFile('cache')).toBe(path.join(os.homedir(), '.cache', 'financial-data-mcp', 'cache.json'));
+      vi.unstubAllEnvs();
+    });
+  });
+});
+
+describe('ResilientApiClient caching', () => {
+  it('should only hit the provider once for repeated fundamentals requests', async () => {
+    const alphaMock = {
+      getIncomeStatement: vi.fn().mockResolvedValue({ symbol: 'AAPL', annualReports: [] }),
+    };
+
+    const client = new ResilientApiClient({} as any, alphaMock as any, undefined, undefined, undefined, {
+      cache: new ResponseCache(),
+    });
+
+    await client.getIncomeStatement('AAPL');
+    await client.getIncomeStatement('aapl');
+
+    expect(alphaMock.getIncomeStatement).toHaveBeenCalledTimes(1);
+    expect(client.getCache().getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SourceRanker } from '../resilience/source-ranking.js';
+import { sourceRouter } from '../resilience/source-router.js';
+import { ProviderError } from '../api/errors.js';
+import type { ApiSource, FailoverAttempt } from '../types.js';
+import { QUOTE, createClient } from './helpers.js';
+
+function attempt(source: ApiSource, durationMs: number, error?: Error): FailoverAttempt {
+  const endTime = Date.now();
+  return { source, keyIndex: 0, startTime: endTime - durationMs, endTime, durationMs, success: !error, error };
+}
+
+function recordCalls(ranker: SourceRanker, tool: string, source: ApiSource, count: number, durationMs: number, error?: Error) {
+  for (let i = 0; i < count; i++) {
+    ranker.record(tool, attempt(source, durationMs, error));
+  }
+}
+
+describe('SourceRanker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should move a slow or rate-limited source behind better ones and leave close scores alone', () => {
+    const ranker = new SourceRanker({ minSamples: 3 });
+    recordCalls(ranker, 'get_stock_quote', 'finnhub', 3, 3000);
+    recordCalls(ranker, 'get_stock_quote', 'twelvedata', 3, 200);
+    recordCalls(ranker, 'get_stock_quote', 'alphavantage', 3, 100, new ProviderError('RATE_LIMITED', 'alphavantage', 'Alpha Vantage: rate limited'));
+
+    const { order, scores } = ranker.rank('get_stock_quote', ['finnhub', 'twelvedata', 'tiingo', 'alphavantage']);
+
+    expect(order).toEqual(['twelvedata', 'tiingo', 'finnhub', 'alphavantage']);
+    expect(scores[0]).toMatchObject({ source: 'finnhub', configuredRank: 0, score: 50, samples: 3, successRate: 1, p50Ms: 3000 });
+    expect(scores[1]).toMatchObject({ source: 'twelvedata', score: 96 });
+    expect(scores[2]).toMatchObject({ source: 'tiingo', score: null, samples: 0 });
+    expect(scores[3]).toMatchObject({ source: 'alphavantage', score: 0, rateLimited: 3 });
+
+    recordCalls(ranker, 'get_daily_prices', 'tiingo', 3, 700);
+    recordCalls(ranker, 'get_daily_prices', 'alphavantage', 3, 300);
+    expect(ranker.rank('get_daily_prices', ['tiingo', 'alphavantage']).order).toEqual(['tiingo', 'alphavantage']);
+  });
+
+  it('should ignore unknown symbols and forget calls that fall out of the window', () => {
+    vi.useFakeTimers();
+    const ranker = new SourceRanker({ minSamples: 2, windowMs: 60_000 });
+    recordCalls(ranker, 'get_stock_quote', 'finnhub', 2, 100, new ProviderError('NOT_FOUND', 'finnhub', 'Finnhub: no quote for APPL'));
+    expect(ranker.score('get_stock_quote', 'finnhub', 0).samples).toBe(0);
+
+    recordCalls(ranker, 'get_stock_quote', 'finnhub', 2, 100, new ProviderError('TRANSIENT', 'finnhub', 'Finnhub API error: 503'));
+    expect(ranker.rank('get_stock_quote', ['finnhub', 'twelvedata']).order).toEqual(['twelvedata', 'finnhub']);
+
+    vi.advanceTimersByTime(61_000);
+    expect(ranker.rank('get_stock_quote', ['finnhub', 'twelvedata']).order).toEqual(['finnhub', 'twelvedata']);
+  });
+});
+
+describe('ResilientApiClient - adaptive source ranking', () => {
+  afterEach(() => {
+    sourceRouter.configure({});
+  });
+
+  it('should try the better performing source first and explain the ranking in provider status', async () => {
+    const ranker = new SourceRanker({ minSamples: 2 });
+    recordCalls(ranker, 'get_stock_quote', 'finnhub', 2, 4000);
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const twelvedata = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub, twelvedata }, { sourceRanker: ranker });
+
+    const { data } = await client.withMeta('get_stock_quote', () => client.getStockQuote('AAPL'));
+
+    expect(data).toMatchObject({ source: 'twelvedata' });
+    expect(finnhub.getStockQuote).not.toHaveBeenCalled();
+
+    const report = await client.getProviderStatus({ tool: 'get_stock_quote', symbol: 'AAPL' });
+    expect(report.ranking).toMatchObject({
+      tool: 'get_stock_quote',
+      adaptive: true,
+      configuredOrder: ['finnhub', 'twelvedata', 'tiingo', 'alphavantage'],
+      rankedOrder: ['twelvedata', 'tiingo', 'alphavantage', 'finnhub'],
+    });
+    expect(report.ranking?.scores.find(score => score.source === 'twelvedata')).toMatchObject({ samples: 1, successRate: 1 });
+    await expect(client.getProviderStatus({ tool: 'get_stock_price' })).rejects.toThrow('Unknown tool: get_stock_price');
+  });
+
+  it('should keep a custom source priority fixed', async () => {
+    sourceRouter.configure({ sourcePriority: { get_stock_quote: ['finnhub', 'twelvedata'] } });
+    const ranker = new SourceRanker({ minSamples: 2 });
+    recordCalls(ranker, 'get_stock_quote', 'finnhub', 2, 4000);
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: 'AAPL', ...QUOTE }) };
+    const client = createClient({ finnhub, twelvedata: { getStockQuote: vi.fn() } }, { sourceRanker: ranker });
+
+    await expect(client.getStockQuote('AAPL')).resolves.toMatchObject({ source: 'finnhub' });
+
+    const { ranking } = await client.getProviderStatus({ tool: 'get_stock_quote' });
+    expect(ranking).toMatchObject({ adaptive: false, fixedReason: 'custom source priority', rankedOrder: ['finnhub', 'twelvedata'] });
+  });
+});
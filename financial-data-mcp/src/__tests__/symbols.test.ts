@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseSymbol, formatSymbol, toCanonicalSymbol, toTickerSymbol, toSinaSymbol, toEastMoneySecid } from '../symbols/index.js';
+import { getMarketFromSymbol } from '../resilience/market-router.js';
+import { SinaClient } from '../api/sina.js';
+import { QUOTE, createClient } from './helpers.js';
+
+describe('parseSymbol', () => {
+  it('should read every common notation of the same security into one canonical symbol', () => {
+    const notations: Record<string, string[]> = {
+      'AAPL.US': ['AAPL', 'aapl', 'AAPL.US', 'AAPL.O'],
+      '600519.SH': ['600519', '600519.SH', '600519.SS', 'sh600519', '1.600519'],
+      '000001.SZ': ['000001', '000001.SZ', 'sz000001', '0.000001'],
+      '430047.BJ': ['430047', '430047.BJ', 'bj430047', '0.430047'],
+      '00700.HK': ['00700', '00700.HK', '0700.HK', '700.HK', 'hk00700', '116.00700'],
+      'BRK.B.US': ['BRK.B', 'BRK-B'],
+    };
+
+    for (const [canonical, inputs] of Object.entries(notations)) {
+      expect(inputs.map(toCanonicalSymbol), canonical).toEqual(inputs.map(() => canonical));
+    }
+    expect(['', 'APPLE INC', '12345678', '7001.SH', 'ABC.SZ'].map(parseSymbol)).toEqual([null, null, null, null, null]);
+  });
+
+  it('should tell indices and funds from stocks on mainland exchanges', () => {
+    expect(parseSymbol('000001.SH')).toEqual({ exchange: 'SH', code: '000001', assetClass: 'index' });
+    expect(parseSymbol('000001')).toEqual({ exchange: 'SZ', code: '000001', assetClass: 'stock' });
+    expect(parseSymbol('399001.SZ')?.assetClass).toBe('index');
+    expect(parseSymbol('510300')?.assetClass).toBe('fund');
+    expect(parseSymbol('159919')).toMatchObject({ exchange: 'SZ', assetClass: 'fund' });
+    expect(getMarketFromSymbol('sh000001')).toBe('SH');
+    expect(getMarketFromSymbol('aapl')).toBe('US');
+    expect(getMarketFromSymbol('APPLE INC')).toBe('UNKNOWN');
+  });
+
+  it('should write a symbol in each provider notation', () => {
+    const ids = ['AAPL', '00700.HK', '600519.SS', '000001.SZ', '430047.BJ'].map(symbol => parseSymbol(symbol)!);
+
+    expect(ids.map(formatSymbol)).toEqual(['AAPL.US', '00700.HK', '600519.SH', '000001.SZ', '430047.BJ']);
+    expect(ids.map(toTickerSymbol)).toEqual(['AAPL', '0700.HK', '600519.SS', '000001.SZ', '430047.BJ']);
+    expect(ids.map(toSinaSymbol)).toEqual(['aapl', 'hk00700', 'sh600519', 'sz000001', 'bj430047']);
+    expect(ids.map(toEastMoneySecid)).toEqual(['AAPL', '116.00700', '1.600519', '0.000001', '0.430047']);
+  });
+});
+
+describe('Canonical symbols in provider requests and results', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send each provider its own notation and return the canonical symbol', async () => {
+    const finnhub = { getStockQuote: vi.fn().mockResolvedValue({ symbol: '0700.HK', ...QUOTE }) };
+    const client = createClient({ finnhub }, { apiKeys: { finnhub: 'f-one' } });
+
+    const quote = await client.getStockQuote('700.HK');
+
+    expect(finnhub.getStockQuote).toHaveBeenCalledWith('0700.HK');
+    expect(quote).toMatchObject({ symbol: '700.HK', canonicalSymbol: '00700.HK', source: 'finnhub' });
+  });
+
+  it('should read Hong Kong quotes from Sina in their own field layout', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve('var hq_str_hk00700="TENCENT,腾讯控股,380.000,378.600,385.000,376.200,383.200,4.600,1.215";'),
+    });
+    vi.stubGlobal('fetch', fetch);
+
+    const quote = await new SinaClient().getStockQuote('00700.HK');
+
+    expect(fetch.mock.calls[0][0]).toContain('list=hk00700');
+    expect(quote).toMatchObject({ currentPrice: 383.2, previousClosePrice: 378.6, openPriceOfDay: 380, highPriceOfDay: 385, lowPriceOfDay: 376.2 });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { toolRegistry, ToolArgumentError } from '../tools/index.js';
+import { sourceRouter } from '../resilience/source-router.js';
+import { DEFAULT_CACHE_TTL_SECONDS } from '../resilience/response-cache.js';
+import type { ResilientApiClient } from '../resilience/resilient-api-client.js';
+
+describe('ToolRegistry', () => {
+  describe('listTools', () => {
+    it('should list every tool with JSON Schemas for its arguments and result', () => {
+      const tools = toolRegistry.listTools();
+      const candles = tools.find(tool => tool.name === 'get_stock_candles');
+
+      expect(tools.map(tool => tool.name)).toEqual(toolRegistry.getToolNames());
+      expect(candles?.inputSchema).toMatchObject({
+        type: 'object',
+        required: ['symbol'],
+        properties: {
+          resolution: { enum: ['1', '5', '15', '30', '60', 'D', 'W', 'M'], default: 'D' },
+          includeMeta: { type: 'boolean' },
+        },
+      });
+      expect(candles?.inputSchema).not.toHaveProperty('$schema');
+      expect(candles?.outputSchema).toMatchObject({
+        type: 'object',
+        required: expect.arrayContaining(['symbol', 'prices', 'source', 'asOf']),
+      });
+    });
+  });
+
+  describe('parseArguments', () => {
+    it('should apply defaults and convert dates and numeric strings', () => {
+      expect(toolRegistry.parseArguments('get_stock_candles', {
+        symbol: ' AAPL ',
+        from: '2024-01-02',
+        to: 1706659200000,
+        includeMeta: true,
+      })).toEqual({
+        args: { symbol: 'AAPL', resolution: 'D', from: 1704153600, to: 1706659200 },
+        includeMeta: true,
+      });
+      expect(toolRegistry.parseArguments('get_news', { symbol: 'AAPL', minId: '42', source: 'finnhub' })).toEqual({
+        args: { symbol: 'AAPL', minId: 42 },
+        includeMeta: false,
+      });
+    });
+
+    it('should report every invalid argument by name', () => {
+      expect(() => toolRegistry.parseArguments('get_news', { symbol: 'AAPL', minId: 'abc' }))
+        .toThrow('Invalid arguments for get_news: minId: expected a whole number');
+
+      try {
+        toolRegistry.parseArguments('get_stock_candles', { symbol: '', resolution: 'Y', from: 'last week' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ToolArgumentError);
+        expect((error as ToolArgumentError).issues).toEqual([
+          'symbol: expected a non-empty stock symbol',
+          expect.stringMatching(/^resolution: /),
+          'from: expected epoch seconds or a date such as 2024-01-31, got "last week"',
+        ]);
+      }
+    });
+
+    it('should reject unknown tools', () => {
+      expect(() => toolRegistry.parseArguments('get_weather', {})).toThrow('Unknown tool: get_weather');
+    });
+  });
+
+  describe('call', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-02-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pass parsed arguments to the handler, filling in the default range', async () => {
+      const client = { getStockPriceHistory: vi.fn().mockResolvedValue({ prices: [] }) };
+      const { args } = toolRegistry.parseArguments('get_stock_price_history', { symbol: 'AAPL', resolution: 'weekly' });
+
+      await toolRegistry.call(client as unknown as ResilientApiClient, 'get_stock_price_history', args);
+
+      const to = Date.parse('2024-02-01T00:00:00Z') / 1000;
+      expect(client.getStockPriceHistory).toHaveBeenCalledWith('AAPL', 'weekly', to - 365 * 24 * 3600, to);
+    });
+  });
+
+  describe('derived tables', () => {
+    it('should drive source priorities and cache TTLs', () => {
+      expect(sourceRouter.getSourcesForTool('get_company_info')).toEqual(['finnhub', 'alphavantage', 'tiingo']);
+      expect(DEFAULT_CACHE_TTL_SECONDS).toMatchObject({ get_stock_quote: 15, get_financials: 24 * 3600 });
+      expect(DEFAULT_CACHE_TTL_SECONDS).not.toHaveProperty('get_batch_quotes');
+    });
+  });
+});
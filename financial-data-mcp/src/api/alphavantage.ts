@@ -1,39 +1,85 @@
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
+import { ProviderError, httpError, payloadError } from './errors.js';
 
 const ALPHAVANTAGE_API_KEY = process.env.ALPHAVANTAGE_API_KEY || '';
 const ALPHAVANTAGE_BASE_URL = 'https://www.alphavantage.co/query';
 
+/**
+ * Raw INCOME_STATEMENT / BALANCE_SHEET / CASH_FLOW payload, every line item as a string ("None" when missing)
+ */
+export interface AlphaVantageStatementResponse {
+  symbol?: string;
+  annualReports?: Array<Record<string, string>>;
+  quarterlyReports?: Array<Record<string, string>>;
+}
+
 export class AlphaVantageClient {
   private apiKey: string;
+  private keyProvider?: types.ApiKeyProvider;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || ALPHAVANTAGE_API_KEY;
   }
 
+  /**
+   * Supply the API key per request instead of the key given at construction
+   */
+  setKeyProvider(provider: types.ApiKeyProvider | undefined): void {
+    this.keyProvider = provider;
+  }
+
+  private getApiKey(): string {
+    return this.keyProvider?.() || this.apiKey;
+  }
+
   private async request(functionName: string, params: Record<string, string> = {}): Promise<any> {
     const url = new URL(ALPHAVANTAGE_BASE_URL);
     url.searchParams.append('function', functionName);
-    url.searchParams.append('apikey', this.apiKey);
+    url.searchParams.append('apikey', this.getApiKey());
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value);
     });
 
-    const response = await fetch(url.toString(), {
+    const response = await fetch(url.toString(), fetchOptions({
       headers: {
         'User-Agent': 'financial-data-mcp/1.0.0',
       },
-    });
+    }));
 
     if (!response.ok) {
-      throw new Error(`Alpha Vantage API error: ${response.status} ${response.statusText}`);
+      throw httpError('alphavantage', 'Alpha Vantage', response);
     }
 
-    return response.json();
+    const data = await response.json();
+
+    // Throttling, premium-only endpoints and bad keys come back as a 200 with a Note or Information text,
+    // unknown symbols as an Error Message
+    if (typeof data?.['Error Message'] === 'string') {
+      throw payloadError('alphavantage', 'Alpha Vantage', data['Error Message'], 'NOT_FOUND');
+    }
+    const notice = data?.['Note'] ?? data?.['Information'];
+    if (typeof notice === 'string') {
+      throw payloadError('alphavantage', 'Alpha Vantage', notice, 'RATE_LIMITED');
+    }
+
+    return data;
+  }
+
+  private async requestStatement(functionName: string, symbol: string): Promise<AlphaVantageStatementResponse> {
+    const data = await this.request(functionName, { symbol });
+    if (!data || Object.keys(data).length === 0) {
+      throw new ProviderError('NOT_FOUND', 'alphavantage', `Alpha Vantage API error: No data found for symbol ${symbol}`);
+    }
+    return data;
   }
 
   async getDailyPrices(symbol: string, outputsize: 'compact' | 'full' = 'compact'): Promise<Record<string, types.HistoricalPrice>> {
     const data = await this.request('TIME_SERIES_DAILY', { symbol, outputsize });
     const timeSeries = data['Time Series (Daily)'];
+    if (!timeSeries) {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'alphavantage', `Alpha Vantage API error: no daily time series for ${symbol}`);
+    }
     const result: Record<string, types.HistoricalPrice> = {};
 
     Object.entries(timeSeries).forEach(([date, values]: [string, any]) => {
@@ -54,6 +100,10 @@ export class AlphaVantageClient {
 
   async getQuote(symbol: string): Promise<types.StockQuote> {
     const data = await this.request('GLOBAL_QUOTE', { symbol });
+    // Unknown symbols come back as an empty Global Quote
+    if (data['Global Quote'] && Object.keys(data['Global Quote']).length === 0) {
+      throw new ProviderError('NOT_FOUND', 'alphavantage', `Alpha Vantage API error: No data found for symbol ${symbol}`);
+    }
     const quote = data['Global Quote'] || {};
     return {
       symbol: quote['01. symbol'] || symbol,
@@ -73,27 +123,30 @@ export class AlphaVantageClient {
 
   async getCompanyOverview(symbol: string): Promise<types.CompanyInfo> {
     const data = await this.request('OVERVIEW', { symbol });
+    if (!data || Object.keys(data).length === 0) {
+      throw new ProviderError('NOT_FOUND', 'alphavantage', `Alpha Vantage API error: No data found for symbol ${symbol}`);
+    }
     return {
-      symbol: data['02. Symbol'] || data['01. symbol'] || symbol,
-      companyName: data['01. symbol'] || data['02. Symbol'] || symbol,
-      industry: data['08. Industry'],
-      sector: data['10. Sector'],
-      marketCap: parseFloat(data['06. Market Capitalization'] || '0'),
-      sharesOutstanding: parseFloat(data['05. Shares Outstanding'] || '0'),
-      description: data['11. Description'],
+      symbol: data['Symbol'] || symbol,
+      companyName: data['Name'] || symbol,
+      industry: data['Industry'],
+      sector: data['Sector'],
+      marketCap: parseFloat(data['MarketCapitalization'] || '0'),
+      sharesOutstanding: parseFloat(data['SharesOutstanding'] || '0'),
+      description: data['Description'],
     };
   }
 
-  async getIncomeStatement(symbol: string): Promise<any> {
-    return this.request('INCOME_STATEMENT', { symbol });
+  async getIncomeStatement(symbol: string): Promise<AlphaVantageStatementResponse> {
+    return this.requestStatement('INCOME_STATEMENT', symbol);
   }
 
-  async getBalanceSheet(symbol: string): Promise<any> {
-    return this.request('BALANCE_SHEET', { symbol });
+  async getBalanceSheet(symbol: string): Promise<AlphaVantageStatementResponse> {
+    return this.requestStatement('BALANCE_SHEET', symbol);
   }
 
-  async getCashFlow(symbol: string): Promise<any> {
-    return this.request('CASH_FLOW', { symbol });
+  async getCashFlow(symbol: string): Promise<AlphaVantageStatementResponse> {
+    return this.requestStatement('CASH_FLOW', symbol);
   }
 
   async getTechnicalIndicator(symbol: string, indicator: string, interval: string = 'daily', time_period: string = '14'): Promise<types.TechnicalIndicator> {
@@ -109,8 +162,9 @@ export class AlphaVantageClient {
     try {
       await this.getQuote('HEALTH_TEST');
       return true;
-    } catch {
-      return false;
+    } catch (error) {
+      // The made-up symbol is expected to be unknown, the key still got an answer
+      return error instanceof ProviderError && error.code === 'NOT_FOUND';
     }
   }
 }
@@ -3,57 +3,52 @@
  * API docs: Unofficial - based on public endpoints
  * 
  * Note: This is a free public API without API keys. Rate limiting is IP-based.
- * Supports: Shanghai (SH), Shenzhen (SZ), Beijing (BJ) exchanges
+ * Supports: Shanghai (SH), Shenzhen (SZ), Beijing (BJ) exchanges, and Shanghai and Shenzhen indices
  */
 
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
 import { logger } from '../logger.js';
+import { ProviderError, httpError } from './errors.js';
+import { parseSymbol, toEastMoneySecid } from '../symbols/index.js';
 
 const EM_QUOTE_URL = 'https://push2.eastmoney.com/api/qt/stock/get';
 const EM_KLINE_URL = 'https://push2his.eastmoney.com/api/qt/stock/kline/get';
 const EM_BATCH_URL = 'https://push2.eastmoney.com/api/qt/ulist.np/get';
+const EM_LIST_URL = 'https://push2.eastmoney.com/api/qt/clist/get';
+
+/** EastMoney keeps index membership as boards; indices by secid */
+const EM_INDEX_BOARDS: Record<string, string> = {
+  '1.000300': 'BK0500', // CSI 300
+  '1.000016': 'BK0611', // SSE 50
+  '1.000905': 'BK0701', // CSI 500
+};
+
+/** Quote prices are integers scaled by 10^f59; older responses without f59 use three decimals */
+const EM_DEFAULT_PRICE_DECIMALS = 3;
 
 export interface EastMoneyClientConfig {
-  requestIntervalMs?: number;
-  proxyUrl?: string;
   userAgent?: string;
 }
 
 export class EastMoneyClient {
-  private lastRequestTime: number = 0;
-  private readonly requestIntervalMs: number;
-  private readonly proxyUrl?: string;
   private readonly userAgent: string;
 
   constructor(config?: EastMoneyClientConfig) {
-    this.requestIntervalMs = config?.requestIntervalMs ?? 200;
-    this.proxyUrl = config?.proxyUrl;
     this.userAgent = config?.userAgent ?? 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
   }
 
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const elapsed = now - this.lastRequestTime;
-    if (elapsed < this.requestIntervalMs) {
-      const waitTime = this.requestIntervalMs - elapsed;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    this.lastRequestTime = Date.now();
-  }
-
   private async request<T>(url: string): Promise<T> {
-    await this.waitForRateLimit();
-
     const headers: Record<string, string> = {
       'User-Agent': this.userAgent,
       'Referer': 'https://quote.eastmoney.com/',
     };
 
     try {
-      const response = await fetch(url, { headers });
+      const response = await fetch(url, fetchOptions({ headers }));
 
       if (!response.ok) {
-        throw new Error(`EastMoney API error: ${response.status} ${response.statusText}`);
+        throw httpError('eastmoney', 'EastMoney', response);
       }
 
       return await response.json();
@@ -64,48 +59,20 @@ export class EastMoneyClient {
   }
 
   /**
-   * Convert symbol to EastMoney format
-   * EastMoney uses: 1.600519 (Shanghai), 0.000001 (Shenzhen), 0.430047 (Beijing)
-   * secid format: {market}.{code}
-   * market: 0=Shenzhen, 1=Shanghai, 0=Beijing(8/4开头)
+   * Convert symbol to an EastMoney secid, {market}.{code}: 1.600519 (Shanghai), 0.000001 (Shenzhen),
+   * 0.430047 (Beijing), from any notation parseSymbol reads
    */
-  private normalizeSymbol(symbol: string): { secid: string; code: string } {
-    const upperSymbol = symbol.toUpperCase();
-    let code: string;
-    let market: number;
-
-    if (/^(SH|SZ|BJ)\d{6}$/i.test(symbol)) {
-      const prefix = symbol.substring(0, 2).toUpperCase();
-      code = symbol.substring(2);
-      market = prefix === 'SH' ? 1 : 0;
-    } else if (upperSymbol.endsWith('.SH') || upperSymbol.endsWith('.SS')) {
-      code = upperSymbol.slice(0, -3);
-      market = 1;
-    } else if (upperSymbol.endsWith('.SZ')) {
-      code = upperSymbol.slice(0, -3);
-      market = 0;
-    } else if (upperSymbol.endsWith('.BJ')) {
-      code = upperSymbol.slice(0, -3);
-      market = 0;
-    } else {
-      code = symbol.replace(/\D/g, '');
-      if (code.length === 6) {
-        const prefix = code.substring(0, 1);
-        market = (prefix === '6' || prefix === '5') ? 1 : 0;
-      } else {
-        market = 1;
-      }
-    }
-
-    return { secid: `${market}.${code}`, code };
+  private toSecid(symbol: string): string {
+    const parsed = parseSymbol(symbol);
+    return parsed ? toEastMoneySecid(parsed) : `1.${symbol.replace(/\D/g, '')}`;
   }
 
   async getStockQuote(symbol: string): Promise<types.StockQuote> {
-    const { secid, code } = this.normalizeSymbol(symbol);
+    const secid = this.toSecid(symbol);
     
     const params = new URLSearchParams({
       secid,
-      fields: 'f43,f44,f45,f46,f47,f48,f50,f51,f52,f57,f58,f60,f116,f117,f168,f169,f170',
+      fields: 'f43,f44,f45,f46,f47,f48,f50,f51,f52,f57,f58,f59,f60,f116,f117,f168,f169,f170',
       invt: '2',
       fltt: '1',
     });
@@ -116,22 +83,23 @@ export class EastMoneyClient {
 
     interface EMQuoteResponse {
       data?: {
-        f43?: number;  // current price * 1000
-        f44?: number;  // high * 1000
-        f45?: number;  // low * 1000
-        f46?: number;  // open * 1000
+        f43?: number;  // current price * 10^f59
+        f44?: number;  // high * 10^f59
+        f45?: number;  // low * 10^f59
+        f46?: number;  // open * 10^f59
         f47?: number;  // volume
         f48?: number;  // amount
         f50?: number;  // volume ratio
-        f51?: number;  // limit up * 1000
-        f52?: number;  // limit down * 1000
+        f51?: number;  // limit up * 10^f59
+        f52?: number;  // limit down * 10^f59
         f57?: string;  // code
         f58?: string;  // name
-        f60?: number;  // previous close * 1000
+        f59?: number;  // price decimal places
+        f60?: number;  // previous close * 10^f59
         f116?: number; // market cap
         f117?: number; // circulating market cap
         f168?: number; // turnover rate
-        f169?: number; // change * 1000
+        f169?: number; // change * 10^f59
         f170?: number; // change percent * 100
       };
     }
@@ -139,11 +107,11 @@ export class EastMoneyClient {
     const response = await this.request<EMQuoteResponse>(url);
     
     if (!response.data) {
-      throw new Error(`EastMoney API error: No data found for symbol ${symbol}`);
+      throw new ProviderError('NOT_FOUND', 'eastmoney', `EastMoney API error: No data found for symbol ${symbol}`);
     }
 
     const d = response.data;
-    const divisor = 1000;
+    const divisor = 10 ** (d.f59 ?? EM_DEFAULT_PRICE_DECIMALS);
 
     return {
       symbol,
@@ -161,13 +129,75 @@ export class EastMoneyClient {
     return this.getStockQuote(symbol);
   }
 
+  /**
+   * Get multiple quotes in one request
+   * Symbols the endpoint does not return, or returns without a price (e.g. suspended), are left out of the map
+   */
+  async getBatchQuotes(symbols: string[]): Promise<Map<string, types.StockQuote>> {
+    const requested = new Map<string, string>();
+    for (const symbol of symbols) {
+      requested.set(this.toSecid(symbol), symbol);
+    }
+
+    const params = new URLSearchParams({
+      secids: [...requested.keys()].join(','),
+      fields: 'f2,f3,f4,f12,f13,f15,f16,f17,f18',
+      fltt: '2',
+      invt: '2',
+    });
+
+    const url = `${EM_BATCH_URL}?${params}`;
+
+    logger.debug('EastMoney getBatchQuotes', { count: symbols.length });
+
+    interface EMBatchItem {
+      f2?: number | string;  // current price
+      f3?: number | string;  // change percent
+      f4?: number | string;  // change
+      f12?: string;          // code
+      f13?: number;          // market
+      f15?: number | string; // high
+      f16?: number | string; // low
+      f17?: number | string; // open
+      f18?: number | string; // previous close
+    }
+
+    interface EMBatchResponse {
+      data?: {
+        diff?: EMBatchItem[] | Record<string, EMBatchItem>;
+      };
+    }
+
+    const response = await this.request<EMBatchResponse>(url);
+    const results = new Map<string, types.StockQuote>();
+    const num = (value: number | string | undefined) => (typeof value === 'number' ? value : 0);
+
+    for (const item of Object.values(response.data?.diff ?? {})) {
+      const symbol = requested.get(`${item.f13}.${item.f12}`);
+      if (!symbol || typeof item.f2 !== 'number') continue;
+
+      results.set(symbol, {
+        symbol,
+        currentPrice: item.f2,
+        change: num(item.f4),
+        percentChange: num(item.f3),
+        highPriceOfDay: num(item.f15),
+        lowPriceOfDay: num(item.f16),
+        openPriceOfDay: num(item.f17),
+        previousClosePrice: num(item.f18),
+      });
+    }
+
+    return results;
+  }
+
   async getStockCandles(
     symbol: string,
     resolution: string = 'D',
     from: number,
     to: number
   ): Promise<types.HistoricalPrice[]> {
-    const { secid } = this.normalizeSymbol(symbol);
+    const secid = this.toSecid(symbol);
     
     const kltMap: Record<string, string> = {
       '1': '1',
@@ -241,6 +271,48 @@ export class EastMoneyClient {
     return result;
   }
 
+  /**
+   * Members of an index EastMoney tracks as a board (CSI 300, SSE 50, CSI 500)
+   */
+  async getIndexConstituents(symbol: string): Promise<types.IndexConstituent[]> {
+    const secid = this.toSecid(symbol);
+    const board = EM_INDEX_BOARDS[secid];
+    if (!board) {
+      throw new ProviderError('UNSUPPORTED_BY_SOURCE', 'eastmoney', `EastMoney API error: no constituent list for index ${symbol}`);
+    }
+
+    const params = new URLSearchParams({
+      fs: `b:${board}`,
+      fields: 'f12,f13,f14',
+      pn: '1',
+      pz: '1000',
+      np: '1',
+    });
+
+    const url = `${EM_LIST_URL}?${params}`;
+
+    logger.debug('EastMoney getIndexConstituents', { symbol, secid, board });
+
+    interface EMListResponse {
+      data?: {
+        diff?: Array<{
+          f12?: string; // code
+          f13?: number; // market
+          f14?: string; // name
+        }>;
+      };
+    }
+
+    const response = await this.request<EMListResponse>(url);
+    if (!response.data?.diff) {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'eastmoney', `EastMoney API error: no constituents in response for index ${symbol}`);
+    }
+
+    return response.data.diff
+      .filter(item => item.f12 && item.f13 !== undefined)
+      .map(item => ({ symbol: `${item.f13}.${item.f12}`, name: item.f14 }));
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.getStockQuote('sh000001');
@@ -249,8 +321,4 @@ export class EastMoneyClient {
       return false;
     }
   }
-
-  setProxyUrl(proxyUrl: string | undefined): void {
-    (this as any).proxyUrl = proxyUrl;
-  }
 }
@@ -0,0 +1,84 @@
+/**
+ * Typed provider errors
+ * API clients throw these so the resilience layer can tell a bad symbol from a provider outage
+ */
+
+import type { ApiSource } from '../types.js';
+
+/**
+ * - NOT_FOUND: the provider does not know the symbol
+ * - INVALID_ARGUMENT: the provider rejected the request parameters
+ * - UNSUPPORTED_BY_SOURCE: the provider or the key's plan does not offer the data
+ * - RATE_LIMITED: the key hit the provider's rate limit or quota
+ * - AUTH_FAILED: the provider rejected the key
+ * - TRANSIENT: server errors, timeouts and network failures worth retrying
+ * - UPSTREAM_SCHEMA_CHANGED: the response no longer has the shape the client parses
+ */
+export type ProviderErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'UNSUPPORTED_BY_SOURCE'
+  | 'RATE_LIMITED'
+  | 'AUTH_FAILED'
+  | 'TRANSIENT'
+  | 'UPSTREAM_SCHEMA_CHANGED';
+
+export class ProviderError extends Error {
+  constructor(
+    public code: ProviderErrorCode,
+    public source: ApiSource,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Maps an HTTP status, or the status code a provider puts in an error body, to the taxonomy
+ */
+export function errorCodeForStatus(status: number): ProviderErrorCode {
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 401) return 'AUTH_FAILED';
+  // Finnhub, Tiingo and Twelve Data answer 402/403 for data outside the key's plan
+  if (status === 402 || status === 403) return 'UNSUPPORTED_BY_SOURCE';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 408 || status >= 500) return 'TRANSIENT';
+  return 'INVALID_ARGUMENT';
+}
+
+/**
+ * Builds the error for a non-2xx response, keeping the "<Provider> API error: <status> <text>" message
+ */
+export function httpError(source: ApiSource, label: string, response: { status: number; statusText: string }): ProviderError {
+  return new ProviderError(
+    errorCodeForStatus(response.status),
+    source,
+    `${label} API error: ${response.status} ${response.statusText}`,
+    response.status
+  );
+}
+
+// Checked in order: throttling notices often also mention premium plans and API keys
+const MESSAGE_PATTERNS: Array<[RegExp, ProviderErrorCode]> = [
+  [/rate limit|call frequency|too many requests|limit reached|quota|request allocation/i, 'RATE_LIMITED'],
+  [/premium|subscription|upgrade|\bplans?\b|access to this resource/i, 'UNSUPPORTED_BY_SOURCE'],
+  [/api ?key|token|unauthori[sz]ed/i, 'AUTH_FAILED'],
+  [/not found|unknown symbol|invalid symbol|no data/i, 'NOT_FOUND'],
+];
+
+/**
+ * Maps the text of an error a provider sent with a 200 status to the taxonomy
+ * @param fallback - Code for messages that match no known wording
+ */
+export function errorCodeForMessage(message: string, fallback: ProviderErrorCode): ProviderErrorCode {
+  return MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? fallback;
+}
+
+/**
+ * Builds the error for a payload that arrived with a 200 status but carries an error message instead of data
+ */
+export function payloadError(source: ApiSource, label: string, message: string, fallback: ProviderErrorCode): ProviderError {
+  return new ProviderError(errorCodeForMessage(message, fallback), source, `${label} API error: ${message}`);
+}
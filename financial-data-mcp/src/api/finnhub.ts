@@ -1,36 +1,79 @@
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
+import { ProviderError, httpError, payloadError } from './errors.js';
+import { reportRateLimitHeaders } from './rate-limit-headers.js';
 
 const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY || '';
 const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
 
+const DAILY_RESOLUTIONS = ['D', 'W', 'M'];
+
+/**
+ * Raw /stock/metric payload: latest values in metric, history per metric in series
+ */
+export interface FinnhubMetricResponse {
+  symbol?: string;
+  metricType?: string;
+  metric?: Record<string, number | string | null>;
+  series?: {
+    annual?: Record<string, Array<{ period: string; v: number }>>;
+    quarterly?: Record<string, Array<{ period: string; v: number }>>;
+  };
+}
+
 export class FinnhubClient {
   private apiKey: string;
+  private keyProvider?: types.ApiKeyProvider;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || FINNHUB_API_KEY;
   }
 
+  /**
+   * Supply the API key per request instead of the key given at construction
+   */
+  setKeyProvider(provider: types.ApiKeyProvider | undefined): void {
+    this.keyProvider = provider;
+  }
+
+  private getApiKey(): string {
+    return this.keyProvider?.() || this.apiKey;
+  }
+
   private async request<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
     const url = new URL(`${FINNHUB_BASE_URL}${endpoint}`);
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value);
     });
 
-    const response = await fetch(url.toString(), {
+    const response = await fetch(url.toString(), fetchOptions({
       headers: {
-        'X-Finnhub-Token': this.apiKey,
+        'X-Finnhub-Token': this.getApiKey(),
       },
-    });
+    }));
+
+    reportRateLimitHeaders(response);
 
     if (!response.ok) {
-      throw new Error(`Finnhub API error: ${response.status} ${response.statusText}`);
+      throw httpError('finnhub', 'Finnhub', response);
+    }
+
+    const data = await response.json();
+
+    // Limits and access problems sometimes arrive as a 200 with only an error field
+    if (typeof data?.error === 'string') {
+      throw payloadError('finnhub', 'Finnhub', data.error, 'INVALID_ARGUMENT');
     }
 
-    return response.json();
+    return data;
   }
 
   async getStockQuote(symbol: string): Promise<types.StockQuote> {
     const data = await this.request<{ c: number; d: number; dp: number; h: number; l: number; o: number; pc: number; t: number }>('/quote', { symbol });
+    // Unknown tickers get a quote of zeros rather than an error
+    if (!data?.c && !data?.pc && !data?.t) {
+      throw new ProviderError('NOT_FOUND', 'finnhub', `Finnhub API error: No data found for symbol ${symbol}`);
+    }
     return {
       symbol,
       currentPrice: data.c,
@@ -40,6 +83,7 @@ export class FinnhubClient {
       lowPriceOfDay: data.l,
       openPriceOfDay: data.o,
       previousClosePrice: data.pc,
+      asOf: data.t ? new Date(data.t * 1000).toISOString() : undefined,
     };
   }
 
@@ -48,23 +92,64 @@ export class FinnhubClient {
   }
 
   async getStockCandles(symbol: string, resolution: string = 'D', from: number, to: number): Promise<types.HistoricalPrice[]> {
-    const data = await this.request<{ s: types.HistoricalPrice[]; t: number; c?: types.HistoricalPrice[] }>('/stock/candle', {
+    const data = await this.request<{ s: string; t?: number[]; o?: number[]; h?: number[]; l?: number[]; c?: number[]; v?: number[] }>('/stock/candle', {
       symbol,
       resolution,
       from: from.toString(),
       to: to.toString(),
     });
-    return data.s;
+
+    if (data.s !== 'ok' || !data.t) {
+      return [];
+    }
+
+    const isDaily = DAILY_RESOLUTIONS.includes(resolution.toUpperCase());
+    return data.t.map((timestamp, i) => {
+      const iso = new Date(timestamp * 1000).toISOString();
+      return {
+        date: isDaily ? iso.split('T')[0] : iso,
+        open: data.o?.[i] ?? 0,
+        high: data.h?.[i] ?? 0,
+        low: data.l?.[i] ?? 0,
+        close: data.c?.[i] ?? 0,
+        volume: data.v?.[i] ?? 0,
+      };
+    });
   }
 
-  async getCompanyBasicFinancials(symbol: string): Promise<types.CompanyFinancials> {
+  async getCompanyBasicFinancials(symbol: string): Promise<FinnhubMetricResponse> {
     return this.request('/stock/metric', { symbol, metric: 'all' });
   }
 
-  async getCompanyMetrics(symbol: string, metricType: string = 'all'): Promise<types.CompanyInfo> {
+  async getCompanyMetrics(symbol: string, metricType: string = 'all'): Promise<FinnhubMetricResponse> {
     return this.request('/stock/metric', { symbol, metric: metricType });
   }
 
+  /**
+   * Finnhub reports market capitalization and shares outstanding in millions
+   */
+  async getCompanyProfile(symbol: string): Promise<types.CompanyInfo> {
+    const data = await this.request<{
+      ticker?: string;
+      name?: string;
+      finnhubIndustry?: string;
+      marketCapitalization?: number;
+      shareOutstanding?: number;
+    }>('/stock/profile2', { symbol });
+
+    if (!data?.name) {
+      throw new ProviderError('NOT_FOUND', 'finnhub', `Finnhub API error: no company profile for ${symbol}`);
+    }
+
+    return {
+      symbol: data.ticker || symbol,
+      companyName: data.name,
+      industry: data.finnhubIndustry || undefined,
+      marketCap: typeof data.marketCapitalization === 'number' ? data.marketCapitalization * 1e6 : undefined,
+      sharesOutstanding: typeof data.shareOutstanding === 'number' ? data.shareOutstanding * 1e6 : undefined,
+    };
+  }
+
   async getNews(symbol: string, category?: string, minId?: number): Promise<types.NewsItem[]> {
     const now = Math.floor(Date.now() / 1000);
     const oneMonthAgo = now - 30 * 24 * 60 * 60;
@@ -80,8 +165,9 @@ export class FinnhubClient {
     try {
       await this.getStockQuote('HEALTH_TEST');
       return true;
-    } catch {
-      return false;
+    } catch (error) {
+      // The made-up symbol is expected to be unknown, the key still got an answer
+      return error instanceof ProviderError && error.code === 'NOT_FOUND';
     }
   }
 }
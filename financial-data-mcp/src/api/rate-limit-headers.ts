@@ -0,0 +1,75 @@
+/**
+ * Rate-limit headers
+ * Reads Retry-After and the X-RateLimit-* family so key cooldowns end when the provider allows
+ */
+
+import type { RateLimitInfo } from '../types.js';
+import { reportRateLimit } from '../resilience/request-context.js';
+
+interface ResponseWithHeaders {
+  headers?: { get(name: string): string | null };
+}
+
+// X-RateLimit-Reset values below this are seconds until the reset rather than an epoch timestamp
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+function readNumber(headers: { get(name: string): string | null }, ...names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name)?.trim();
+    if (value && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finnhub and Tiingo send X-RateLimit-Remaining/Limit/Reset, Twelve Data api-credits-left/used;
+ * Retry-After may be seconds or an HTTP date
+ * @returns Undefined when the response carries none of them
+ */
+export function parseRateLimitHeaders(response: ResponseWithHeaders, now: number = Date.now()): RateLimitInfo | undefined {
+  const headers = response.headers;
+  if (typeof headers?.get !== 'function') {
+    return undefined;
+  }
+
+  const info: RateLimitInfo = {};
+
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const retryAt = Number.isFinite(seconds) ? now + seconds * 1000 : Date.parse(retryAfter);
+    if (!Number.isNaN(retryAt)) {
+      info.retryAt = Math.max(now, retryAt);
+    }
+  }
+
+  const remaining = readNumber(headers, 'x-ratelimit-remaining', 'api-credits-left');
+  if (remaining !== undefined) {
+    info.remaining = remaining;
+  }
+
+  const used = readNumber(headers, 'api-credits-used');
+  const limit = readNumber(headers, 'x-ratelimit-limit') ?? (used !== undefined && remaining !== undefined ? used + remaining : undefined);
+  if (limit !== undefined) {
+    info.limit = limit;
+  }
+
+  const reset = readNumber(headers, 'x-ratelimit-reset');
+  if (reset !== undefined) {
+    info.resetAt = reset >= EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000;
+  }
+
+  return Object.keys(info).length > 0 ? info : undefined;
+}
+
+/**
+ * Reports the response's quota headers, if any, for the key the request used
+ */
+export function reportRateLimitHeaders(response: ResponseWithHeaders): void {
+  const info = parseRateLimitHeaders(response);
+  if (info) {
+    reportRateLimit(info);
+  }
+}
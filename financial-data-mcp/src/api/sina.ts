@@ -3,11 +3,14 @@
  * API docs: Unofficial - based on public endpoints
  * 
  * Note: This is a free public API without API keys. Rate limiting is IP-based.
- * Supports: Shanghai (sh), Shenzhen (sz), Beijing (bj) exchanges
+ * Supports: Shanghai (sh), Shenzhen (sz), Beijing (bj) exchanges, and Hong Kong (hk) quotes
  */
 
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
 import { logger } from '../logger.js';
+import { ProviderError, httpError } from './errors.js';
+import { parseSymbol, toSinaSymbol } from '../symbols/index.js';
 
 const SINA_QUOTE_URL = 'https://hq.sinajs.cn/list=';
 const SINA_KLINE_URL = 'https://quotes.sina.cn/cn/api/jsonp_v2.php/=/CN_MarketDataService.getKLineData';
@@ -16,56 +19,46 @@ const SINA_DAILY_URL = 'https://finance.sina.com.cn/realstock/company';
 // Required header to avoid 403
 const SINA_REFERER = 'https://finance.sina.com.cn/';
 
+/** Positions of the price fields in a quote line; Hong Kong lines lead with the English and Chinese names */
+const A_SHARE_QUOTE_FIELDS = { open: 1, previousClose: 2, current: 3, high: 4, low: 5 };
+const HK_QUOTE_FIELDS = { open: 2, previousClose: 3, high: 4, low: 5, current: 6 };
+
+/** One bar of the K-line API, prices and volume as strings */
+interface SinaKline {
+  day: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
 export interface SinaClientConfig {
-  /** Request interval in ms to avoid IP ban (default: 200ms) */
-  requestIntervalMs?: number;
-  /** Proxy URL for requests (optional) */
-  proxyUrl?: string;
   /** User agent string */
   userAgent?: string;
 }
 
 export class SinaClient {
-  private lastRequestTime: number = 0;
-  private readonly requestIntervalMs: number;
-  private readonly proxyUrl?: string;
   private readonly userAgent: string;
 
   constructor(config?: SinaClientConfig) {
-    this.requestIntervalMs = config?.requestIntervalMs ?? 200;
-    this.proxyUrl = config?.proxyUrl;
     this.userAgent = config?.userAgent ?? 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
   }
 
   /**
-   * Rate limit control - wait if needed before making request
-   */
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const elapsed = now - this.lastRequestTime;
-    if (elapsed < this.requestIntervalMs) {
-      const waitTime = this.requestIntervalMs - elapsed;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    this.lastRequestTime = Date.now();
-  }
-
-  /**
-   * Make HTTP request with rate limiting and required headers
+   * Make HTTP request with required headers
    */
   private async request(url: string): Promise<string> {
-    await this.waitForRateLimit();
-
     const headers: Record<string, string> = {
       'Referer': SINA_REFERER,
       'User-Agent': this.userAgent,
     };
 
     try {
-      const response = await fetch(url, { headers });
+      const response = await fetch(url, fetchOptions({ headers }));
 
       if (!response.ok) {
-        throw new Error(`Sina API error: ${response.status} ${response.statusText}`);
+        throw httpError('sina', 'Sina', response);
       }
 
       return await response.text();
@@ -77,71 +70,38 @@ export class SinaClient {
 
   /**
    * Normalize symbol format to Sina format
-   * Input: 601899.SH, 601899.SS, sh601899, 601899
-   * Output: sh601899
+   * Input: 601899.SH, 601899.SS, sh601899, 601899, 00700.HK
+   * Output: sh601899, hk00700
    */
   private normalizeSymbol(symbol: string): string {
-    const upperSymbol = symbol.toUpperCase();
-    
-    // Already in sina format: sh601899, sz000001
-    if (/^(SH|SZ|BJ)\d{6}$/i.test(symbol)) {
-      return symbol.toLowerCase();
-    }
-    
-    // Format: 601899.SH or 601899.SS (Shanghai)
-    if (upperSymbol.endsWith('.SH') || upperSymbol.endsWith('.SS')) {
-      return 'sh' + upperSymbol.slice(0, -3);
-    }
-    
-    // Format: 000001.SZ (Shenzhen)
-    if (upperSymbol.endsWith('.SZ')) {
-      return 'sz' + upperSymbol.slice(0, -3);
-    }
-    
-    // Format: 430047.BJ (Beijing)
-    if (upperSymbol.endsWith('.BJ')) {
-      return 'bj' + upperSymbol.slice(0, -3);
-    }
-    
-    // Pure number - guess exchange based on code range
-    const code = symbol.replace(/\D/g, '');
-    if (code.length === 6) {
-      const prefix = code.substring(0, 1);
-      // Shanghai: 6xxxxx, 5xxxxx (ETF)
-      if (prefix === '6' || prefix === '5') {
-        return 'sh' + code;
-      }
-      // Shenzhen: 0xxxxx, 3xxxxx (ChiNext), 2xxxxx (B-share)
-      if (prefix === '0' || prefix === '3' || prefix === '2') {
-        return 'sz' + code;
-      }
-      // Beijing: 4xxxxx, 8xxxxx
-      if (prefix === '4' || prefix === '8') {
-        return 'bj' + code;
-      }
-    }
-    
-    // Default: return as-is
-    return symbol.toLowerCase();
+    const parsed = parseSymbol(symbol);
+    return parsed ? toSinaSymbol(parsed) : symbol.toLowerCase();
   }
 
   /**
    * Parse Sina quote response
    * Format: var hq_str_sh601899="紫金矿业,14.58,14.55,14.43,-0.12,-0.82,14.43,14.44,..."
+   * Hong Kong: var hq_str_hk00700="TENCENT,腾讯控股,380.000,378.600,385.000,376.200,383.200,..."
    */
   private parseQuoteResponse(text: string, symbol: string): types.StockQuote {
     // Extract the data string between quotes
-    const match = text.match(/="([^"]*)"/);
-    if (!match || !match[1]) {
-      throw new Error(`Sina API error: No data found for symbol ${symbol}`);
+    const match = text.match(/(?:hq_str_(\w+))?="([^"]*)"/);
+    if (!match) {
+      // Anything without the variable assignment, such as an HTML block page, is not a quote response
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'sina', `Sina API error: Unexpected quote response for symbol ${symbol}`);
     }
 
-    const data = match[1];
-    if (!data || data.trim() === '') {
-      throw new Error(`Sina API error: Empty data for symbol ${symbol}`);
+    // Unknown symbols come back as var hq_str_xxx=""
+    const data = match[2];
+    if (data.trim() === '') {
+      throw new ProviderError('NOT_FOUND', 'sina', `Sina API error: Empty data for symbol ${symbol}`);
     }
 
+    const layout = match[1]?.startsWith('hk') ? HK_QUOTE_FIELDS : A_SHARE_QUOTE_FIELDS;
     const fields = data.split(',');
+    if (fields.length <= Math.max(...Object.values(layout))) {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'sina', `Sina API error: Unexpected quote fields for symbol ${symbol}`);
+    }
     
     // Sina A-share format has 33 fields
     // 0: 股票名称
@@ -155,8 +115,8 @@ export class SinaClient {
     // 8: 成交量（股）
     // 9: 成交额（元）
     
-    const currentPrice = parseFloat(fields[3]) || 0;
-    const previousClose = parseFloat(fields[2]) || 0;
+    const currentPrice = parseFloat(fields[layout.current]) || 0;
+    const previousClose = parseFloat(fields[layout.previousClose]) || 0;
     const change = currentPrice - previousClose;
     const percentChange = previousClose !== 0 ? (change / previousClose) * 100 : 0;
 
@@ -165,9 +125,9 @@ export class SinaClient {
       currentPrice,
       change: parseFloat(change.toFixed(2)),
       percentChange: parseFloat(percentChange.toFixed(2)),
-      highPriceOfDay: parseFloat(fields[4]) || 0,
-      lowPriceOfDay: parseFloat(fields[5]) || 0,
-      openPriceOfDay: parseFloat(fields[1]) || 0,
+      highPriceOfDay: parseFloat(fields[layout.high]) || 0,
+      lowPriceOfDay: parseFloat(fields[layout.low]) || 0,
+      openPriceOfDay: parseFloat(fields[layout.open]) || 0,
       previousClosePrice: previousClose,
     };
   }
@@ -220,41 +180,21 @@ export class SinaClient {
     
     logger.debug('Sina getStockCandles', { symbol, sinaSymbol, resolution, datalen });
     
-    const text = await this.request(url);
+    const data = this.parseKlines(await this.request(url), sinaSymbol);
     
-    try {
-      // Response format: =([{...}, {...}]);
-      const jsonStr = text.match(/\((\[.*\])\)/)?.[1];
-      if (!jsonStr) {
-        return [];
-      }
-      
-      const data = JSON.parse(jsonStr) as Array<{
-        day: string;
-        open: string;
-        high: string;
-        low: string;
-        close: string;
-        volume: string;
-      }>;
-      
-      return data
-        .filter(item => {
-          const timestamp = new Date(item.day).getTime() / 1000;
-          return timestamp >= from && timestamp <= to;
-        })
-        .map(item => ({
-          date: item.day,
-          open: parseFloat(item.open),
-          high: parseFloat(item.high),
-          low: parseFloat(item.low),
-          close: parseFloat(item.close),
-          volume: parseFloat(item.volume),
-        }));
-    } catch (error) {
-      logger.debug('Sina parseStockCandles failed', { error: (error as Error).message });
-      return [];
-    }
+    return data
+      .filter(item => {
+        const timestamp = new Date(item.day).getTime() / 1000;
+        return timestamp >= from && timestamp <= to;
+      })
+      .map(item => ({
+        date: item.day,
+        open: parseFloat(item.open),
+        high: parseFloat(item.high),
+        low: parseFloat(item.low),
+        close: parseFloat(item.close),
+        volume: parseFloat(item.volume),
+      }));
   }
 
   /**
@@ -270,58 +210,55 @@ export class SinaClient {
     const datalen = Math.min(Math.ceil((to - from) / 86400), 1000);
     const url = `${SINA_KLINE_URL}?symbol=${sinaSymbol}&scale=240&ma=no&datalen=${datalen}`;
     
-    const text = await this.request(url);
+    const data = this.parseKlines(await this.request(url), sinaSymbol);
     
-    try {
-      const jsonStr = text.match(/\((\[.*\])\)/)?.[1];
-      if (!jsonStr) {
-        return [];
-      }
-      
-      const data = JSON.parse(jsonStr) as Array<{
-        day: string;
-        open: string;
-        high: string;
-        low: string;
-        close: string;
-        volume: string;
-      }>;
-      
-      // Group by date (for 240min = 1 trading day)
-      const dailyMap = new Map<string, types.HistoricalPrice>();
+    // Group by date (for 240min = 1 trading day)
+    const dailyMap = new Map<string, types.HistoricalPrice>();
+    
+    for (const item of data) {
+      const date = item.day.split(' ')[0];
+      const existing = dailyMap.get(date);
       
-      for (const item of data) {
-        const date = item.day.split(' ')[0];
-        const existing = dailyMap.get(date);
-        
-        if (!existing) {
-          dailyMap.set(date, {
-            date,
-            open: parseFloat(item.open),
-            high: parseFloat(item.high),
-            low: parseFloat(item.low),
-            close: parseFloat(item.close),
-            volume: parseFloat(item.volume),
-          });
-        } else {
-          // Update high/low/close/volume for the same day
-          existing.high = Math.max(existing.high, parseFloat(item.high));
-          existing.low = Math.min(existing.low, parseFloat(item.low));
-          existing.close = parseFloat(item.close);
-          existing.volume += parseFloat(item.volume);
-        }
+      if (!existing) {
+        dailyMap.set(date, {
+          date,
+          open: parseFloat(item.open),
+          high: parseFloat(item.high),
+          low: parseFloat(item.low),
+          close: parseFloat(item.close),
+          volume: parseFloat(item.volume),
+        });
+      } else {
+        // Update high/low/close/volume for the same day
+        existing.high = Math.max(existing.high, parseFloat(item.high));
+        existing.low = Math.min(existing.low, parseFloat(item.low));
+        existing.close = parseFloat(item.close);
+        existing.volume += parseFloat(item.volume);
       }
-      
-      return Array.from(dailyMap.values())
-        .filter(item => {
-          const timestamp = new Date(item.date).getTime() / 1000;
-          return timestamp >= from && timestamp <= to;
-        })
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    } catch (error) {
-      logger.debug('Sina getDailyCandles failed', { error: (error as Error).message });
+    }
+    
+    return Array.from(dailyMap.values())
+      .filter(item => {
+        const timestamp = new Date(item.date).getTime() / 1000;
+        return timestamp >= from && timestamp <= to;
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  /**
+   * Reads the K-line array out of a JSONP response: =([{...}, {...}]); Sina answers =(null); when it has no bars
+   * @throws ProviderError UPSTREAM_SCHEMA_CHANGED when the bars cannot be read
+   */
+  private parseKlines(text: string, sinaSymbol: string): SinaKline[] {
+    const jsonStr = text.match(/\((\[.*\])\)/)?.[1];
+    if (!jsonStr) {
       return [];
     }
+    try {
+      return JSON.parse(jsonStr) as SinaKline[];
+    } catch {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'sina', `Sina API error: Unexpected K-line response for symbol ${sinaSymbol}`);
+    }
   }
 
   /**
@@ -349,23 +286,28 @@ export class SinaClient {
    * Get multiple quotes at once (batch request)
    */
   async getBatchQuotes(symbols: string[]): Promise<Map<string, types.StockQuote>> {
-    const sinaSymbols = symbols.map(s => this.normalizeSymbol(s));
-    const url = `${SINA_QUOTE_URL}${sinaSymbols.join(',')}`;
+    const requested = new Map<string, string>();
+    for (const symbol of symbols) {
+      requested.set(this.normalizeSymbol(symbol), symbol);
+    }
+    const url = `${SINA_QUOTE_URL}${[...requested.keys()].join(',')}`;
     
     logger.debug('Sina getBatchQuotes', { count: symbols.length });
     
     const text = await this.request(url);
     const results = new Map<string, types.StockQuote>();
     
-    // Split by lines and parse each
+    // Match lines by variable name, Sina omits or reorders symbols it does not know
     const lines = text.split('\n').filter(line => line.includes('var hq_str_'));
     
-    for (let i = 0; i < lines.length && i < symbols.length; i++) {
+    for (const line of lines) {
+      const symbol = requested.get(line.match(/hq_str_(\w+)=/)?.[1] ?? '');
+      if (!symbol) continue;
       try {
-        const quote = this.parseQuoteResponse(lines[i], symbols[i]);
-        results.set(symbols[i], quote);
+        const quote = this.parseQuoteResponse(line, symbol);
+        results.set(symbol, quote);
       } catch (error) {
-        logger.debug('Sina parseBatchQuote failed', { symbol: symbols[i], error: (error as Error).message });
+        logger.debug('Sina parseBatchQuote failed', { symbol, error: (error as Error).message });
       }
     }
     
@@ -383,11 +325,4 @@ export class SinaClient {
       return false;
     }
   }
-
-  /**
-   * Update proxy URL at runtime
-   */
-  setProxyUrl(proxyUrl: string | undefined): void {
-    (this as any).proxyUrl = proxyUrl;
-  }
 }
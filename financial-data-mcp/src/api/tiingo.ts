@@ -4,46 +4,71 @@
  */
 
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
+import { ProviderError, httpError, payloadError } from './errors.js';
+import { reportRateLimitHeaders } from './rate-limit-headers.js';
 
 const TIINGO_API_KEY = process.env.TIINGO_API_KEY || '';
 const TIINGO_BASE_URL = 'https://api.tiingo.com';
 
 export class TiingoClient {
   private apiKey: string;
+  private keyProvider?: types.ApiKeyProvider;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || TIINGO_API_KEY;
   }
 
+  /**
+   * Supply the API key per request instead of the key given at construction
+   */
+  setKeyProvider(provider: types.ApiKeyProvider | undefined): void {
+    this.keyProvider = provider;
+  }
+
+  private getApiKey(): string {
+    return this.keyProvider?.() || this.apiKey;
+  }
+
   private async request<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+    const apiKey = this.getApiKey();
     const url = new URL(`${TIINGO_BASE_URL}${endpoint}`);
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value);
     });
 
     // Try with Authorization header first
-    let response = await fetch(url.toString(), {
+    let response = await fetch(url.toString(), fetchOptions({
       headers: {
-        'Authorization': `Token ${this.apiKey}`,
+        'Authorization': `Token ${apiKey}`,
         'Content-Type': 'application/json',
       },
-    });
+    }));
 
     // If 403 Forbidden, fallback to token as query param
     if (response.status === 403) {
-      url.searchParams.append('token', this.apiKey);
-      response = await fetch(url.toString(), {
+      url.searchParams.append('token', apiKey);
+      response = await fetch(url.toString(), fetchOptions({
         headers: {
           'Content-Type': 'application/json',
         },
-      });
+      }));
     }
 
+    reportRateLimitHeaders(response);
+
     if (!response.ok) {
-      throw new Error(`Tiingo API error: ${response.status} ${response.statusText}`);
+      throw httpError('tiingo', 'Tiingo', response);
     }
 
-    return response.json();
+    const data = await response.json();
+
+    // Errors that slip through with a 200 carry only a detail message
+    if (typeof data?.detail === 'string') {
+      throw payloadError('tiingo', 'Tiingo', data.detail, 'INVALID_ARGUMENT');
+    }
+
+    return data;
   }
 
   async getQuote(symbol: string): Promise<types.StockQuote> {
@@ -55,10 +80,11 @@ export class TiingoClient {
       high: number;
       low: number;
       prevClose: number;
+      timestamp?: string;
     }>>(`/iex/${symbol}`);
 
     if (!data || data.length === 0) {
-      throw new Error(`Tiingo API error: No data found for symbol ${symbol}`);
+      throw new ProviderError('NOT_FOUND', 'tiingo', `Tiingo API error: No data found for symbol ${symbol}`);
     }
 
     const quote = data[0];
@@ -76,6 +102,7 @@ export class TiingoClient {
       lowPriceOfDay: quote.low || 0,
       openPriceOfDay: quote.open || 0,
       previousClosePrice: previousClose,
+      asOf: quote.timestamp,
     };
   }
 
@@ -92,32 +119,7 @@ export class TiingoClient {
     const fromDate = new Date(from * 1000).toISOString().split('T')[0];
     const toDate = new Date(to * 1000).toISOString().split('T')[0];
 
-    const data = await this.request<Array<{
-      date: string;
-      open: number;
-      high: number;
-      low: number;
-      close: number;
-      volume: number;
-      adjClose: number;
-    }>>(`/tiingo/daily/${symbol}/prices`, {
-      startDate: fromDate,
-      endDate: toDate,
-    });
-
-    if (!data || !Array.isArray(data)) {
-      return [];
-    }
-
-    return data.map((price) => ({
-      date: price.date.split('T')[0],
-      open: price.open,
-      high: price.high,
-      low: price.low,
-      close: price.close,
-      volume: price.volume,
-      adjustedClose: price.adjClose,
-    }));
+    return this.getPriceHistory(symbol, fromDate, toDate);
   }
 
   async getDailyPrices(
@@ -128,6 +130,15 @@ export class TiingoClient {
     const startDate = new Date(Date.now() - (outputsize === 'compact' ? 100 : 365 * 5) * 24 * 60 * 60 * 1000)
       .toISOString().split('T')[0];
 
+    const prices = await this.getPriceHistory(symbol, startDate, endDate);
+    return Object.fromEntries(prices.map(price => [price.date, price]));
+  }
+
+  /**
+   * Daily end-of-day prices between two YYYY-MM-DD dates
+   * @returns No prices when the range holds no trading days
+   */
+  private async getPriceHistory(symbol: string, startDate: string, endDate: string): Promise<types.HistoricalPrice[]> {
     const data = await this.request<Array<{
       date: string;
       open: number;
@@ -141,23 +152,20 @@ export class TiingoClient {
       endDate,
     });
 
-    const result: Record<string, types.HistoricalPrice> = {};
-    if (data && Array.isArray(data)) {
-      data.forEach((price) => {
-        const date = price.date.split('T')[0];
-        result[date] = {
-          date,
-          open: price.open,
-          high: price.high,
-          low: price.low,
-          close: price.close,
-          volume: price.volume,
-          adjustedClose: price.adjClose,
-        };
-      });
+    // An unknown ticker is a 404; a range without trading days is an empty array
+    if (!Array.isArray(data)) {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'tiingo', `Tiingo API error: Unexpected price response for symbol ${symbol}`);
     }
 
-    return result;
+    return data.map((price) => ({
+      date: price.date.split('T')[0],
+      open: price.open,
+      high: price.high,
+      low: price.low,
+      close: price.close,
+      volume: price.volume,
+      adjustedClose: price.adjClose,
+    }));
   }
 
   async getNews(symbol: string, category?: string, minId?: number): Promise<types.NewsItem[]> {
@@ -176,8 +184,8 @@ export class TiingoClient {
       tags: string[];
     }>>('/tiingo/news', params);
 
-    if (!data || !Array.isArray(data)) {
-      return [];
+    if (!Array.isArray(data)) {
+      throw new ProviderError('UPSTREAM_SCHEMA_CHANGED', 'tiingo', 'Tiingo API error: Unexpected news response');
     }
 
     return data.map((item) => ({
@@ -4,34 +4,53 @@
  */
 
 import type * as types from '../types.js';
+import { fetchOptions } from '../resilience/request-context.js';
+import { ProviderError, errorCodeForStatus, httpError } from './errors.js';
+import { reportRateLimitHeaders } from './rate-limit-headers.js';
 
 const TWELVEDATA_API_KEY = process.env.TWELVEDATA_API_KEY || '';
 const TWELVEDATA_BASE_URL = 'https://api.twelvedata.com';
 
 export class TwelveDataClient {
   private apiKey: string;
+  private keyProvider?: types.ApiKeyProvider;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || TWELVEDATA_API_KEY;
   }
 
+  /**
+   * Supply the API key per request instead of the key given at construction
+   */
+  setKeyProvider(provider: types.ApiKeyProvider | undefined): void {
+    this.keyProvider = provider;
+  }
+
+  private getApiKey(): string {
+    return this.keyProvider?.() || this.apiKey;
+  }
+
   private async request<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
     const url = new URL(`${TWELVEDATA_BASE_URL}${endpoint}`);
-    url.searchParams.append('apikey', this.apiKey);
+    url.searchParams.append('apikey', this.getApiKey());
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value);
     });
 
-    const response = await fetch(url.toString());
+    const response = await fetch(url.toString(), fetchOptions());
+
+    reportRateLimitHeaders(response);
 
     if (!response.ok) {
-      throw new Error(`TwelveData API error: ${response.status} ${response.statusText}`);
+      throw httpError('twelvedata', 'TwelveData', response);
     }
 
     const data = await response.json();
     
+    // Errors can also arrive with a 200 status, carrying the HTTP-style code in the body
     if (data.status === 'error') {
-      throw new Error(`TwelveData API error: ${data.message || 'Unknown error'}`);
+      const status = typeof data.code === 'number' ? data.code : 400;
+      throw new ProviderError(errorCodeForStatus(status), 'twelvedata', `TwelveData API error: ${data.message || 'Unknown error'}`, status);
     }
 
     return data;
@@ -48,6 +67,7 @@ export class TwelveDataClient {
       previous_close: string;
       change: string;
       percent_change: string;
+      timestamp?: number;
     }>('/quote', { symbol });
 
     return {
@@ -59,6 +79,7 @@ export class TwelveDataClient {
       lowPriceOfDay: parseFloat(data.low),
       openPriceOfDay: parseFloat(data.open),
       previousClosePrice: parseFloat(data.previous_close),
+      asOf: data.timestamp ? new Date(data.timestamp * 1000).toISOString() : undefined,
     };
   }
 
@@ -0,0 +1,647 @@
+/**
+ * Unified configuration loader
+ * Merges built-in defaults, an optional config file (JSON or YAML) and environment variables,
+ * validates the result and exposes one typed config for every module
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ApiSource, ProxyMode, ResilienceConfig } from '../types.js';
+import type { CacheConfig } from '../resilience/response-cache.js';
+import type { ProxyPoolConfig } from '../resilience/proxy-pool.js';
+import type { RateLimitConfig, RateLimitOverride } from '../resilience/rate-limiter.js';
+import type { ProviderRateLimit } from '../providers/registry.js';
+import type { Market } from '../resilience/market-router.js';
+import type { AdaptiveRoutingConfig } from '../resilience/source-ranking.js';
+import type { HedgingConfig } from '../resilience/hedging.js';
+import type { ConsensusConfig } from '../resilience/consensus.js';
+import type { SinaClientConfig } from '../api/sina.js';
+import type { EastMoneyClientConfig } from '../api/eastmoney.js';
+import type { TransportConfig } from '../transport/http-server.js';
+import { DEFAULT_CACHE_CONFIG, DEFAULT_CACHE_TTL_SECONDS } from '../resilience/response-cache.js';
+import { proxyProtocol, redactProxyUrl } from '../resilience/proxy-pool.js';
+import { DEFAULT_RATE_LIMIT_CONFIG } from '../resilience/rate-limiter.js';
+import { DEFAULT_ADAPTIVE_ROUTING_CONFIG } from '../resilience/source-ranking.js';
+import { DEFAULT_HEDGING_CONFIG } from '../resilience/hedging.js';
+import { DEFAULT_CONSENSUS_CONFIG } from '../resilience/consensus.js';
+import { sourceRouter } from '../resilience/source-router.js';
+import { providerRegistry } from '../providers/index.js';
+
+/** File names searched in the working directory when FINANCIAL_DATA_MCP_CONFIG is not set */
+export const CONFIG_FILE_NAMES = [
+  'financial-data-mcp.config.json',
+  'financial-data-mcp.config.yaml',
+  'financial-data-mcp.config.yml',
+];
+
+const VALID_MARKETS: Market[] = ['US', 'SH', 'SZ', 'BJ', 'HK', 'UNKNOWN'];
+const VALID_LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'WARNING', 'ERROR'];
+const VALID_ROTATION_STRATEGIES = ['round-robin', 'random', 'weighted'];
+const VALID_PROXY_MODES: ProxyMode[] = ['direct', 'prefer', 'require'];
+const TOP_LEVEL_KEYS = [
+  'logLevel', 'apiKeys', 'resilience', 'cache', 'rateLimits', 'sourcePriority', 'marketSources', 'adaptiveRouting', 'hedging', 'consensus',
+  'proxy', 'providers', 'providerPlugins', 'transport', 'startupSelfTest',
+];
+const RATE_LIMIT_FIELDS: Array<keyof ProviderRateLimit> = ['requestsPerSecond', 'requestsPerMinute', 'requestsPerDay', 'minIntervalMs'];
+
+export interface ProvidersConfig {
+  sina: SinaClientConfig;
+  eastmoney: EastMoneyClientConfig;
+  /** Settings for plugin providers, handed to their createClient */
+  [provider: string]: object;
+}
+
+export interface AppConfig {
+  logLevel: string;
+  /** Raw key strings per provider, comma-separated for key rotation */
+  apiKeys: Partial<Record<ApiSource, string>>;
+  resilience: ResilienceConfig;
+  cache: CacheConfig;
+  /** Proactive per-provider and per-key rate limits and the daily quota ledger */
+  rateLimits: RateLimitConfig;
+  /** Per-tool source priority overrides */
+  sourcePriority: Record<string, ApiSource[]>;
+  /** Per-market source overrides */
+  marketSources: Partial<Record<Market, ApiSource[]>>;
+  /** Reordering of each tool's sources by their recent success rate, latency and rate limits */
+  adaptiveRouting: AdaptiveRoutingConfig;
+  /** Racing a slow first source against the next one for latency-sensitive tools */
+  hedging: HedgingConfig;
+  /** Sources asked and tolerances for calls made with `consensus: true` */
+  consensus: ConsensusConfig;
+  proxy: ProxyPoolConfig;
+  providers: ProvidersConfig;
+  /** Provider plugin packages or module paths, loaded before the config is validated */
+  providerPlugins: string[];
+  transport: TransportConfig;
+  /** Run every configured provider's health check at startup, spending a request of each provider's quota */
+  startupSelfTest: boolean;
+  /** Config file the values were read from, if any */
+  configFile?: string;
+}
+
+type ConfigLayer = { [K in keyof AppConfig]?: AppConfig[K] extends object ? Partial<AppConfig[K]> : AppConfig[K] };
+
+export interface LoadConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Explicit config file path, takes precedence over FINANCIAL_DATA_MCP_CONFIG */
+  configPath?: string;
+  /** Directory searched for a default config file (default: process.cwd()) */
+  cwd?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(public issues: string[], message?: string) {
+    super(message || `Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  apiFailoverEnabled: true,
+  primaryApiSource: 'finnhub',
+  secondaryApiSource: 'alphavantage',
+  retryEnabled: true,
+  retryMaxAttempts: 3,
+  retryInitialDelayMs: 1000,
+  retryMaxDelayMs: 10000,
+  apiTimeoutMs: 30000,
+  circuitBreakerEnabled: true,
+  circuitBreakerFailureThreshold: 5,
+  circuitBreakerTimeoutMs: 60000,
+  circuitBreakerHalfOpenAttempts: 3,
+  keyRotationEnabled: true,
+  keyRotationResetWindowMs: 3600000,
+  batchConcurrency: 4,
+};
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  logLevel: 'INFO',
+  apiKeys: {},
+  resilience: DEFAULT_RESILIENCE_CONFIG,
+  cache: DEFAULT_CACHE_CONFIG,
+  rateLimits: DEFAULT_RATE_LIMIT_CONFIG,
+  sourcePriority: {},
+  marketSources: {},
+  adaptiveRouting: DEFAULT_ADAPTIVE_ROUTING_CONFIG,
+  hedging: DEFAULT_HEDGING_CONFIG,
+  consensus: DEFAULT_CONSENSUS_CONFIG,
+  proxy: {
+    proxies: [],
+    cooldownMs: 60000,
+    maxFailures: 3,
+    rotationStrategy: 'round-robin',
+    mode: 'prefer',
+    providers: {},
+  },
+  providers: {
+    sina: {},
+    eastmoney: {},
+  },
+  providerPlugins: [],
+  transport: {
+    stdio: true,
+    http: false,
+    httpHost: '127.0.0.1',
+    httpPort: 3000,
+    sessionIdleTimeoutMs: 1800000,
+  },
+  startupSelfTest: false,
+};
+
+/**
+ * Loads the effective configuration: defaults, then the config file, then environment variables
+ * @throws ConfigError listing every invalid value
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  const env = options.env ?? process.env;
+  const issues: string[] = [];
+
+  const configFile = resolveConfigFile(env, options);
+  const fileLayer = configFile ? readConfigFile(configFile, issues) : {};
+  const envLayer = readEnvLayer(env, issues);
+
+  const merged = mergeLayers(mergeLayers(DEFAULT_APP_CONFIG, fileLayer), envLayer) as AppConfig;
+  if (configFile) {
+    merged.configFile = configFile;
+  }
+
+  issues.push(...validateConfig(merged));
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return merged;
+}
+
+/**
+ * Lists the provider plugins to load before loadConfig, whose source lists may name the providers they add.
+ * PROVIDER_PLUGINS takes precedence over `providerPlugins` in the config file.
+ */
+export function resolveProviderPlugins(options: LoadConfigOptions = {}): string[] {
+  const env = options.env ?? process.env;
+  const fromEnv = env.PROVIDER_PLUGINS?.split(',').map(s => s.trim()).filter(Boolean);
+  if (fromEnv && fromEnv.length > 0) {
+    return fromEnv;
+  }
+
+  const configFile = resolveConfigFile(env, options);
+  const fromFile = configFile ? readConfigFile(configFile, []).providerPlugins : undefined;
+  return Array.isArray(fromFile) ? fromFile.filter((plugin): plugin is string => typeof plugin === 'string') : [];
+}
+
+function resolveConfigFile(env: NodeJS.ProcessEnv, options: LoadConfigOptions): string | undefined {
+  const cwd = options.cwd ?? process.cwd();
+  const explicit = options.configPath ?? env.FINANCIAL_DATA_MCP_CONFIG;
+  if (explicit) {
+    const resolved = path.resolve(cwd, explicit);
+    if (!fs.existsSync(resolved)) {
+      throw new ConfigError([`Config file not found: ${resolved}`]);
+    }
+    return resolved;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function readConfigFile(filePath: string, issues: string[]): ConfigLayer {
+  let parsed: unknown;
+  try {
+    const raw = fs.readFileSync(filePath, 'utf-8');
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError([`Failed to parse ${filePath}: ${(error as Error).message}`]);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError([`${filePath} must contain an object at the top level`]);
+  }
+
+  for (const key of Object.keys(parsed)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      issues.push(`Unknown config key "${key}" in ${path.basename(filePath)}`);
+    }
+  }
+  return parsed as ConfigLayer;
+}
+
+function readEnvLayer(env: NodeJS.ProcessEnv, issues: string[]): ConfigLayer {
+  const str = (name: string): string | undefined => {
+    const value = env[name]?.trim();
+    return value ? value : undefined;
+  };
+  const bool = (name: string): boolean | undefined => {
+    const value = str(name);
+    return value === undefined ? undefined : value.toLowerCase() === 'true' || value === '1';
+  };
+  const int = (name: string): number | undefined => {
+    const value = str(name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+      issues.push(`${name} must be an integer, got "${value}"`);
+      return undefined;
+    }
+    return parsed;
+  };
+  const num = (name: string): number | undefined => {
+    const value = str(name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      issues.push(`${name} must be a number, got "${value}"`);
+      return undefined;
+    }
+    return parsed;
+  };
+  const list = (name: string): string[] | undefined => {
+    const value = str(name);
+    return value === undefined ? undefined : value.split(',').map(s => s.trim()).filter(Boolean);
+  };
+  const sources = (name: string): ApiSource[] | undefined =>
+    list(name)?.map(s => s.toLowerCase() as ApiSource);
+
+  const apiKeys: Partial<Record<ApiSource, string>> = {};
+  const providerTimeouts: Partial<ResilienceConfig> = {};
+  const providerRateLimits: Record<string, RateLimitOverride> = {};
+  const proxyModes: Record<string, ProxyMode> = {};
+  for (const provider of providerRegistry.list()) {
+    const prefix = provider.id.toUpperCase();
+    const value = provider.apiKeyEnvVar ? str(provider.apiKeyEnvVar) : undefined;
+    if (value !== undefined) apiKeys[provider.id] = value;
+    providerTimeouts[`${provider.id}TimeoutMs`] = int(`${prefix}_TIMEOUT_MS`);
+
+    const rateLimit: RateLimitOverride = {};
+    const limits: Partial<ProviderRateLimit> = {
+      requestsPerSecond: int(`${prefix}_REQUESTS_PER_SECOND`),
+      requestsPerMinute: int(`${prefix}_REQUESTS_PER_MINUTE`),
+      requestsPerDay: int(`${prefix}_REQUESTS_PER_DAY`),
+      minIntervalMs: int(`${prefix}_REQUEST_INTERVAL_MS`),
+    };
+    for (const field of RATE_LIMIT_FIELDS) {
+      if (limits[field] !== undefined) rateLimit[field] = limits[field];
+    }
+    if (Object.keys(rateLimit).length > 0) providerRateLimits[provider.id] = rateLimit;
+
+    const proxyMode = str(`${prefix}_PROXY_MODE`)?.toLowerCase();
+    if (proxyMode !== undefined) proxyModes[provider.id] = proxyMode as ProxyMode;
+  }
+
+  const resilience: Partial<ResilienceConfig> = {
+    apiFailoverEnabled: bool('API_FAILOVER_ENABLED'),
+    primaryApiSource: str('PRIMARY_API_SOURCE')?.toLowerCase() as ApiSource | undefined,
+    secondaryApiSource: str('SECONDARY_API_SOURCE')?.toLowerCase() as ApiSource | undefined,
+    retryEnabled: bool('RETRY_ENABLED'),
+    retryMaxAttempts: int('RETRY_MAX_ATTEMPTS'),
+    retryInitialDelayMs: int('RETRY_INITIAL_DELAY_MS'),
+    retryMaxDelayMs: int('RETRY_MAX_DELAY_MS'),
+    apiTimeoutMs: int('API_TIMEOUT_MS'),
+    ...providerTimeouts,
+    circuitBreakerEnabled: bool('CIRCUIT_BREAKER_ENABLED'),
+    circuitBreakerFailureThreshold: int('CIRCUIT_BREAKER_FAILURE_THRESHOLD'),
+    circuitBreakerTimeoutMs: int('CIRCUIT_BREAKER_TIMEOUT_MS'),
+    circuitBreakerHalfOpenAttempts: int('CIRCUIT_BREAKER_HALF_OPEN_ATTEMPTS'),
+    keyRotationEnabled: bool('KEY_ROTATION_ENABLED'),
+    keyRotationResetWindowMs: int('KEY_ROTATION_RESET_WINDOW_MS'),
+    batchConcurrency: int('BATCH_CONCURRENCY'),
+  };
+
+  const ttlOverrides: Record<string, number> = {};
+  for (const tool of Object.keys(DEFAULT_CACHE_TTL_SECONDS)) {
+    const ttl = int(`CACHE_TTL_${tool.toUpperCase()}`);
+    if (ttl !== undefined) ttlOverrides[tool] = ttl;
+  }
+
+  const cache: Partial<CacheConfig> = {
+    enabled: bool('CACHE_ENABLED'),
+    backend: str('CACHE_BACKEND')?.toLowerCase() as CacheConfig['backend'] | undefined,
+    maxEntries: int('CACHE_MAX_ENTRIES'),
+    filePath: str('CACHE_FILE_PATH'),
+    staleMaxAgeMs: int('CACHE_STALE_MAX_AGE_MS'),
+    ttlOverrides,
+  };
+
+  const rateLimits: Partial<RateLimitConfig> = {
+    enabled: bool('RATE_LIMIT_ENABLED'),
+    maxWaitMs: int('RATE_LIMIT_MAX_WAIT_MS'),
+    ledgerPath: str('QUOTA_LEDGER_PATH'),
+    providers: providerRateLimits,
+  };
+
+  const sourcePriority: Record<string, ApiSource[]> = {};
+  for (const tool of sourceRouter.getAllToolNames()) {
+    const priority = sources(`SOURCE_PRIORITY_${tool.toUpperCase()}`);
+    if (priority) sourcePriority[tool] = priority;
+  }
+
+  const marketSources: Partial<Record<Market, ApiSource[]>> = {};
+  for (const market of VALID_MARKETS) {
+    const marketList = sources(`MARKET_SOURCES_${market}`);
+    if (marketList) marketSources[market] = marketList;
+  }
+
+  const adaptiveRouting: Partial<AdaptiveRoutingConfig> = {
+    enabled: bool('ADAPTIVE_ROUTING_ENABLED'),
+    windowMs: int('ADAPTIVE_ROUTING_WINDOW_MS'),
+    minSamples: int('ADAPTIVE_ROUTING_MIN_SAMPLES'),
+    minScoreGap: int('ADAPTIVE_ROUTING_MIN_SCORE_GAP'),
+  };
+
+  const hedging: Partial<HedgingConfig> = {
+    enabled: bool('HEDGING_ENABLED'),
+    tools: list('HEDGING_TOOLS')?.map(tool => tool.toLowerCase()),
+    percentile: int('HEDGING_PERCENTILE'),
+    minSamples: int('HEDGING_MIN_SAMPLES'),
+    fallbackDelayMs: int('HEDGING_FALLBACK_DELAY_MS'),
+    minDelayMs: int('HEDGING_MIN_DELAY_MS'),
+  };
+
+  const consensus: Partial<ConsensusConfig> = {
+    maxSources: int('CONSENSUS_MAX_SOURCES'),
+    minSources: int('CONSENSUS_MIN_SOURCES'),
+    tolerancePct: num('CONSENSUS_TOLERANCE_PCT'),
+    maxQuoteLagMs: int('CONSENSUS_MAX_QUOTE_LAG_MS'),
+  };
+
+  const proxy: Partial<ProxyPoolConfig> = {
+    proxies: list('PROXY_POOL'),
+    cooldownMs: int('PROXY_FAILURE_COOLDOWN_MS'),
+    maxFailures: int('PROXY_MAX_FAILURES'),
+    rotationStrategy: str('PROXY_ROTATION_STRATEGY')?.toLowerCase() as ProxyPoolConfig['rotationStrategy'],
+    mode: str('PROXY_MODE')?.toLowerCase() as ProxyMode | undefined,
+    providers: proxyModes,
+  };
+
+  return {
+    logLevel: str('LOG_LEVEL'),
+    apiKeys,
+    resilience,
+    cache,
+    rateLimits,
+    sourcePriority,
+    marketSources,
+    adaptiveRouting,
+    hedging,
+    consensus,
+    proxy,
+    providerPlugins: list('PROVIDER_PLUGINS'),
+    transport: {
+      stdio: bool('MCP_STDIO_ENABLED'),
+      http: bool('MCP_HTTP_ENABLED'),
+      httpHost: str('MCP_HTTP_HOST'),
+      httpPort: int('MCP_HTTP_PORT'),
+      sessionIdleTimeoutMs: int('MCP_HTTP_SESSION_IDLE_TIMEOUT_MS'),
+    },
+    startupSelfTest: bool('STARTUP_SELF_TEST'),
+  };
+}
+
+/**
+ * Checks the merged config for values no module can run with
+ * @returns One message per problem, empty when the config is valid
+ */
+export function validateConfig(config: AppConfig): string[] {
+  const issues: string[] = [];
+  const validSources = providerRegistry.getIds();
+
+  const checkNumber = (name: string, value: unknown, min: number, optional = false): void => {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${name} must be a number, got ${JSON.stringify(value)}`);
+    } else if (value < min) {
+      issues.push(`${name} must be >= ${min}, got ${value}`);
+    }
+  };
+  const checkSources = (name: string, value: unknown): void => {
+    if (!Array.isArray(value) || value.length === 0) {
+      issues.push(`${name} must be a non-empty list of sources`);
+      return;
+    }
+    for (const source of value) {
+      if (!validSources.includes(source)) {
+        issues.push(`${name} contains unknown source "${source}" (valid: ${validSources.join(', ')})`);
+      }
+    }
+  };
+
+  if (!VALID_LOG_LEVELS.includes(String(config.logLevel).toUpperCase())) {
+    issues.push(`logLevel must be one of ${VALID_LOG_LEVELS.join(', ')}, got "${config.logLevel}"`);
+  }
+
+  const r = config.resilience;
+  for (const key of ['primaryApiSource', 'secondaryApiSource', 'tertiaryApiSource', 'quaternaryApiSource'] as const) {
+    if (r[key] !== undefined && !validSources.includes(r[key] as ApiSource)) {
+      issues.push(`resilience.${key} is an unknown source "${r[key]}"`);
+    }
+  }
+  checkNumber('resilience.retryMaxAttempts', r.retryMaxAttempts, 1);
+  checkNumber('resilience.retryInitialDelayMs', r.retryInitialDelayMs, 0);
+  checkNumber('resilience.retryMaxDelayMs', r.retryMaxDelayMs, 0);
+  checkNumber('resilience.apiTimeoutMs', r.apiTimeoutMs, 1);
+  for (const source of validSources) {
+    const key = `${source}TimeoutMs` as const;
+    checkNumber(`resilience.${key}`, r[key], 1, true);
+  }
+  checkNumber('resilience.circuitBreakerFailureThreshold', r.circuitBreakerFailureThreshold, 1);
+  checkNumber('resilience.circuitBreakerTimeoutMs', r.circuitBreakerTimeoutMs, 0);
+  checkNumber('resilience.circuitBreakerHalfOpenAttempts', r.circuitBreakerHalfOpenAttempts, 1);
+  checkNumber('resilience.keyRotationResetWindowMs', r.keyRotationResetWindowMs, 0);
+  checkNumber('resilience.batchConcurrency', r.batchConcurrency, 1);
+
+  const c = config.cache;
+  if (c.backend !== 'memory' && c.backend !== 'file') {
+    issues.push(`cache.backend must be "memory" or "file", got "${c.backend}"`);
+  }
+  checkNumber('cache.maxEntries', c.maxEntries, 1);
+  checkNumber('cache.staleMaxAgeMs', c.staleMaxAgeMs, 0);
+  for (const [tool, ttl] of Object.entries(c.ttlOverrides ?? {})) {
+    checkNumber(`cache.ttlOverrides.${tool}`, ttl, 0);
+  }
+
+  const rl = config.rateLimits;
+  if (typeof rl.enabled !== 'boolean') {
+    issues.push(`rateLimits.enabled must be true or false, got ${JSON.stringify(rl.enabled)}`);
+  }
+  checkNumber('rateLimits.maxWaitMs', rl.maxWaitMs, 0);
+  if (rl.ledgerPath !== undefined && (typeof rl.ledgerPath !== 'string' || rl.ledgerPath.trim() === '')) {
+    issues.push('rateLimits.ledgerPath must be a non-empty file path');
+  }
+  const checkRateLimit = (name: string, limits: ProviderRateLimit): void => {
+    for (const field of RATE_LIMIT_FIELDS) {
+      checkNumber(`${name}.${field}`, limits[field], field === 'minIntervalMs' ? 0 : 1, true);
+    }
+  };
+  for (const [source, override] of Object.entries(rl.providers ?? {})) {
+    if (!validSources.includes(source)) {
+      issues.push(`rateLimits.providers has unknown source "${source}" (valid: ${validSources.join(', ')})`);
+    }
+    checkRateLimit(`rateLimits.providers.${source}`, override);
+    for (const [keyIndex, keyLimits] of Object.entries(override.keys ?? {})) {
+      if (!/^\d+$/.test(keyIndex)) {
+        issues.push(`rateLimits.providers.${source}.keys must be keyed by key index, got "${keyIndex}"`);
+      }
+      checkRateLimit(`rateLimits.providers.${source}.keys.${keyIndex}`, keyLimits);
+    }
+  }
+
+  const knownTools = sourceRouter.getAllToolNames();
+  for (const [tool, priority] of Object.entries(config.sourcePriority ?? {})) {
+    if (!knownTools.includes(tool)) {
+      issues.push(`sourcePriority has unknown tool "${tool}"`);
+    }
+    checkSources(`sourcePriority.${tool}`, priority);
+  }
+
+  for (const [market, marketList] of Object.entries(config.marketSources ?? {})) {
+    if (!VALID_MARKETS.includes(market as Market)) {
+      issues.push(`marketSources has invalid market "${market}" (valid: ${VALID_MARKETS.join(', ')})`);
+    }
+    checkSources(`marketSources.${market}`, marketList);
+  }
+
+  const ar = config.adaptiveRouting;
+  if (typeof ar.enabled !== 'boolean') {
+    issues.push(`adaptiveRouting.enabled must be true or false, got ${JSON.stringify(ar.enabled)}`);
+  }
+  checkNumber('adaptiveRouting.windowMs', ar.windowMs, 1000);
+  checkNumber('adaptiveRouting.minSamples', ar.minSamples, 1);
+  checkNumber('adaptiveRouting.minScoreGap', ar.minScoreGap, 0);
+
+  const h = config.hedging;
+  if (typeof h.enabled !== 'boolean') {
+    issues.push(`hedging.enabled must be true or false, got ${JSON.stringify(h.enabled)}`);
+  }
+  if (!Array.isArray(h.tools)) {
+    issues.push('hedging.tools must be a list of tool names');
+  } else {
+    for (const tool of h.tools.filter(tool => !knownTools.includes(tool))) {
+      issues.push(`hedging.tools has unknown tool "${tool}"`);
+    }
+  }
+  checkNumber('hedging.percentile', h.percentile, 1);
+  if (typeof h.percentile === 'number' && h.percentile > 100) {
+    issues.push(`hedging.percentile must be at most 100, got ${h.percentile}`);
+  }
+  checkNumber('hedging.minSamples', h.minSamples, 1);
+  checkNumber('hedging.fallbackDelayMs', h.fallbackDelayMs, 0);
+  checkNumber('hedging.minDelayMs', h.minDelayMs, 0);
+
+  const cs = config.consensus;
+  checkNumber('consensus.minSources', cs.minSources, 1);
+  checkNumber('consensus.maxSources', cs.maxSources, 2);
+  if (cs.minSources > cs.maxSources) {
+    issues.push(`consensus.minSources (${cs.minSources}) must not exceed consensus.maxSources (${cs.maxSources})`);
+  }
+  checkNumber('consensus.tolerancePct', cs.tolerancePct, 0);
+  checkNumber('consensus.maxQuoteLagMs', cs.maxQuoteLagMs, 0);
+
+  const p = config.proxy;
+  checkNumber('proxy.cooldownMs', p.cooldownMs, 0);
+  checkNumber('proxy.maxFailures', p.maxFailures, 1);
+  if (!VALID_ROTATION_STRATEGIES.includes(p.rotationStrategy as string)) {
+    issues.push(`proxy.rotationStrategy must be one of ${VALID_ROTATION_STRATEGIES.join(', ')}, got "${p.rotationStrategy}"`);
+  }
+  for (const proxyUrl of p.proxies ?? []) {
+    if (!URL.canParse(proxyUrl)) {
+      issues.push(`proxy.proxies contains an invalid URL "${redactProxyUrl(proxyUrl)}"`);
+    } else if (!proxyProtocol(proxyUrl)) {
+      issues.push(`proxy.proxies must use http, https or socks5 URLs, got "${redactProxyUrl(proxyUrl)}"`);
+    }
+  }
+  const checkProxyMode = (name: string, mode: ProxyMode | undefined): void => {
+    if (!VALID_PROXY_MODES.includes(mode as ProxyMode)) {
+      issues.push(`${name} must be one of ${VALID_PROXY_MODES.join(', ')}, got "${mode}"`);
+    } else if (mode === 'require' && (p.proxies ?? []).length === 0) {
+      issues.push(`${name} is "require" but proxy.proxies is empty`);
+    }
+  };
+  checkProxyMode('proxy.mode', p.mode);
+  for (const [source, mode] of Object.entries(p.providers ?? {})) {
+    if (!validSources.includes(source)) {
+      issues.push(`proxy.providers has unknown source "${source}" (valid: ${validSources.join(', ')})`);
+    }
+    checkProxyMode(`proxy.providers.${source}`, mode);
+  }
+
+  if (!Array.isArray(config.providerPlugins) || !config.providerPlugins.every(plugin => typeof plugin === 'string')) {
+    issues.push('providerPlugins must be a list of package names or module paths');
+  }
+
+  const t = config.transport;
+  if (!t.stdio && !t.http) {
+    issues.push('transport must enable stdio, http or both');
+  }
+  checkNumber('transport.httpPort', t.httpPort, 0);
+  if (typeof t.httpPort === 'number' && t.httpPort > 65535) {
+    issues.push(`transport.httpPort must be <= 65535, got ${t.httpPort}`);
+  }
+  if (typeof t.httpHost !== 'string' || t.httpHost.trim() === '') {
+    issues.push('transport.httpHost must be a non-empty string');
+  }
+  checkNumber('transport.sessionIdleTimeoutMs', t.sessionIdleTimeoutMs, 0);
+
+  if (typeof config.startupSelfTest !== 'boolean') {
+    issues.push(`startupSelfTest must be true or false, got ${JSON.stringify(config.startupSelfTest)}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Produces a loggable view of the config with API keys and proxy credentials removed
+ */
+export function summarizeConfig(config: AppConfig): Record<string, unknown> {
+  const apiKeys: Record<string, number> = {};
+  for (const provider of providerRegistry.list().filter(provider => provider.apiKeyEnvVar)) {
+    apiKeys[provider.id] = (config.apiKeys[provider.id] ?? '').split(',').filter(k => k.trim()).length;
+  }
+
+  return {
+    configFile: config.configFile ?? null,
+    logLevel: config.logLevel,
+    apiKeys,
+    resilience: config.resilience,
+    cache: config.cache,
+    rateLimits: config.rateLimits,
+    sourcePriority: config.sourcePriority,
+    marketSources: config.marketSources,
+    adaptiveRouting: config.adaptiveRouting,
+    hedging: config.hedging,
+    consensus: config.consensus,
+    proxy: { ...config.proxy, proxies: (config.proxy.proxies ?? []).map(redactProxyUrl) },
+    providers: config.providers,
+    providerPlugins: config.providerPlugins,
+    transport: config.transport,
+    startupSelfTest: config.startupSelfTest,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges an override layer into a base object. Arrays are replaced, undefined values are ignored.
+ */
+function mergeLayers<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    result[key] = mergeLayers(result[key], value);
+  }
+  return result as T;
+}
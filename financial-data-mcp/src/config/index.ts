@@ -0,0 +1,17 @@
+/**
+ * Configuration subsystem
+ * Single entry point for loading, validating and reporting server configuration
+ */
+
+export {
+  loadConfig,
+  resolveProviderPlugins,
+  validateConfig,
+  summarizeConfig,
+  ConfigError,
+  CONFIG_FILE_NAMES,
+  DEFAULT_APP_CONFIG,
+  DEFAULT_RESILIENCE_CONFIG,
+} from './config-loader.js';
+
+export type { AppConfig, ProvidersConfig, LoadConfigOptions } from './config-loader.js';
@@ -29,7 +29,7 @@ const LOG_LEVEL_NAMES: Record<LogLevel, string> = {
   [LogLevel.ERROR]: 'ERROR',
 };
 
-function parseLogLevel(value: string | undefined): LogLevel {
+export function parseLogLevel(value: string | undefined): LogLevel {
   if (!value) return LogLevel.INFO;
   
   const normalized = value.toUpperCase().trim();
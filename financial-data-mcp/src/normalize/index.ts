@@ -0,0 +1,24 @@
+/**
+ * Normalization layer
+ * Converts provider payloads into the shared result types
+ */
+
+export {
+  normalizeToolResult,
+  normalizeQuote,
+  normalizePriceSeries,
+  normalizePriceHistory,
+  resamplePrices,
+  normalizeNews,
+  normalizeCompanyInfo,
+  normalizeFinancialStatement,
+  normalizeFinancials,
+  statementsFor,
+  normalizeMetrics,
+  normalizeTechnicalIndicator,
+  normalizeIndexConstituents,
+  toNumber,
+  toIsoDate,
+} from './normalizers.js';
+
+export type { NormalizeContext } from './normalizers.js';
@@ -0,0 +1,582 @@
+/**
+ * Response normalization
+ * Maps provider payloads onto the shared result types in types.ts so a tool returns
+ * the same shape whichever source won failover
+ */
+
+import type {
+  ApiSource,
+  HistoricalPrice,
+  NewsItem,
+  NormalizedQuote,
+  PriceSeries,
+  NewsFeed,
+  CompanyProfile,
+  StatementType,
+  FinancialReport,
+  FinancialStatement,
+  FinancialStatementSet,
+  FinancialsStatementType,
+  ReportingPeriod,
+  CompanyFinancials,
+  MetricSeriesPoint,
+  CompanyMetrics,
+  IndicatorPoint,
+  IndicatorSeries,
+  IndexConstituent,
+  IndexConstituents,
+} from '../types.js';
+import { toCanonicalSymbol } from '../symbols/index.js';
+
+export interface NormalizeContext {
+  source: ApiSource;
+  /** Tool arguments, used for the requested symbol and tool-specific fields */
+  params?: Record<string, unknown>;
+  /** Used as asOf when the payload carries no timestamp of its own (default: now) */
+  retrievedAt?: Date;
+}
+
+const STATEMENT_TYPES: Record<string, StatementType> = {
+  get_income_statement: 'income',
+  get_balance_sheet: 'balance',
+  get_cash_flow: 'cashflow',
+};
+
+const REQUESTED_STATEMENTS: Record<FinancialsStatementType, StatementType[]> = {
+  income: ['income'],
+  balance: ['balance'],
+  cash: ['cashflow'],
+  all: ['income', 'balance', 'cashflow'],
+};
+
+/**
+ * Parses provider numbers, which arrive as numbers, numeric strings, "1.5%" or "None"
+ * @returns The number, or null when the value is missing or not numeric
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const cleaned = value.trim().replace(/%$/, '').replace(/,/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned.toLowerCase() === 'none') {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Converts provider dates to ISO 8601
+ * Date-only values stay YYYY-MM-DD, exchange-local times without a zone become YYYY-MM-DDTHH:mm:ss,
+ * epoch numbers (seconds or milliseconds) become UTC timestamps
+ */
+export function toIsoDate(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return trimmed;
+  }
+  if (/^\d{8}$/.test(trimmed)) {
+    return `${trimmed.slice(0, 4)}-${trimmed.slice(4, 6)}-${trimmed.slice(6, 8)}`;
+  }
+  const local = trimmed.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(:\d{2})?$/);
+  if (local) {
+    return `${local[1]}T${local[2]}${local[3] ?? ':00'}`;
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requestedSymbol(data: unknown, context: NormalizeContext): string {
+  const fromParams = context.params?.symbol;
+  if (typeof fromParams === 'string' && fromParams) {
+    return fromParams;
+  }
+  return isRecord(data) && typeof data.symbol === 'string' ? data.symbol : '';
+}
+
+/**
+ * The requested symbol and its canonical notation
+ */
+function symbolFields(data: unknown, context: NormalizeContext): { symbol: string; canonicalSymbol?: string } {
+  const symbol = requestedSymbol(data, context);
+  return { symbol, canonicalSymbol: toCanonicalSymbol(symbol) };
+}
+
+function retrievedAt(context: NormalizeContext): string {
+  return (context.retrievedAt ?? new Date()).toISOString();
+}
+
+export function normalizeQuote(data: unknown, context: NormalizeContext): NormalizedQuote {
+  const quote = isRecord(data) ? data : {};
+  return {
+    ...symbolFields(quote, context),
+    currentPrice: toNumber(quote.currentPrice) ?? 0,
+    change: toNumber(quote.change) ?? 0,
+    percentChange: toNumber(quote.percentChange) ?? 0,
+    highPriceOfDay: toNumber(quote.highPriceOfDay) ?? 0,
+    lowPriceOfDay: toNumber(quote.lowPriceOfDay) ?? 0,
+    openPriceOfDay: toNumber(quote.openPriceOfDay) ?? 0,
+    previousClosePrice: toNumber(quote.previousClosePrice) ?? 0,
+    source: context.source,
+    asOf: toIsoDate(quote.asOf) ?? retrievedAt(context),
+  };
+}
+
+/**
+ * Accepts either an array of bars or a date-keyed record of bars
+ */
+export function normalizePriceSeries(data: unknown, context: NormalizeContext): PriceSeries {
+  const rows: unknown[] = Array.isArray(data) ? data : isRecord(data) ? Object.values(data) : [];
+  const prices: HistoricalPrice[] = [];
+
+  for (const row of rows) {
+    if (!isRecord(row)) continue;
+    const date = toIsoDate(row.date);
+    if (!date) continue;
+
+    const price: HistoricalPrice = {
+      date,
+      open: toNumber(row.open) ?? 0,
+      high: toNumber(row.high) ?? 0,
+      low: toNumber(row.low) ?? 0,
+      close: toNumber(row.close) ?? 0,
+      volume: toNumber(row.volume) ?? 0,
+    };
+    const adjustedClose = toNumber(row.adjustedClose);
+    if (adjustedClose !== null) {
+      price.adjustedClose = adjustedClose;
+    }
+    prices.push(price);
+  }
+
+  prices.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    ...symbolFields(data, context),
+    prices,
+    source: context.source,
+    asOf: prices.length > 0 ? prices[prices.length - 1].date : retrievedAt(context),
+  };
+}
+
+/**
+ * Rolls daily bars up into weekly (weeks starting Monday) or monthly bars, each dated by its last trading day.
+ * Bars that are already weekly or monthly pass through unchanged.
+ */
+export function resamplePrices(prices: HistoricalPrice[], resolution: 'W' | 'M'): HistoricalPrice[] {
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  const bars: HistoricalPrice[] = [];
+  let currentPeriod: string | undefined;
+
+  for (const price of sorted) {
+    const period = resolution === 'M' ? price.date.slice(0, 7) : weekStart(price.date);
+    const bar = bars[bars.length - 1];
+    if (!bar || period !== currentPeriod) {
+      bars.push({ ...price });
+      currentPeriod = period;
+      continue;
+    }
+    bar.date = price.date;
+    bar.high = Math.max(bar.high, price.high);
+    bar.low = Math.min(bar.low, price.low);
+    bar.close = price.close;
+    bar.volume += price.volume;
+    if (price.adjustedClose !== undefined) {
+      bar.adjustedClose = price.adjustedClose;
+    }
+  }
+
+  return bars;
+}
+
+function weekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+function toDay(epochSeconds: unknown): string | undefined {
+  return typeof epochSeconds === 'number' ? toIsoDate(epochSeconds)?.slice(0, 10) : undefined;
+}
+
+/**
+ * get_stock_price_history: keeps bars between params.from and params.to (epoch seconds, compared by day)
+ * for sources that return a fixed window, then rolls them up when params.resolution is W or M
+ */
+export function normalizePriceHistory(data: unknown, context: NormalizeContext): PriceSeries {
+  const series = normalizePriceSeries(data, context);
+  const from = toDay(context.params?.from);
+  const to = toDay(context.params?.to);
+  const resolution = context.params?.resolution;
+
+  let prices = series.prices.filter(price => {
+    const day = price.date.slice(0, 10);
+    return (!from || day >= from) && (!to || day <= to);
+  });
+  if (resolution === 'W' || resolution === 'M') {
+    prices = resamplePrices(prices, resolution);
+  }
+
+  return {
+    ...series,
+    prices,
+    asOf: prices.length > 0 ? prices[prices.length - 1].date : series.asOf,
+  };
+}
+
+export function normalizeNews(data: unknown, context: NormalizeContext): NewsFeed {
+  const rows: unknown[] = Array.isArray(data) ? data : [];
+  const articles: NewsItem[] = rows.filter(isRecord).map(item => {
+    const datetime = toNumber(item.datetime) ?? undefined;
+    return {
+      ...item,
+      datetime,
+      publishedAt: datetime !== undefined ? toIsoDate(datetime) ?? undefined : undefined,
+    };
+  });
+
+  articles.sort((a, b) => (b.datetime ?? 0) - (a.datetime ?? 0));
+
+  return {
+    ...symbolFields(data, context),
+    articles,
+    source: context.source,
+    asOf: retrievedAt(context),
+  };
+}
+
+export function normalizeCompanyInfo(data: unknown, context: NormalizeContext): CompanyProfile {
+  const info = isRecord(data) ? data : {};
+  const { symbol, canonicalSymbol } = symbolFields(info, context);
+  return {
+    symbol,
+    canonicalSymbol,
+    companyName: typeof info.companyName === 'string' && info.companyName ? info.companyName : symbol,
+    industry: info.industry || undefined,
+    sector: info.sector || undefined,
+    marketCap: toNumber(info.marketCap) ?? undefined,
+    sharesOutstanding: toNumber(info.sharesOutstanding) ?? undefined,
+    description: info.description || undefined,
+    source: context.source,
+    asOf: retrievedAt(context),
+  };
+}
+
+function toFinancialReport(raw: unknown): FinancialReport | null {
+  if (!isRecord(raw)) return null;
+  const fiscalDateEnding = toIsoDate(raw.fiscalDateEnding);
+  if (!fiscalDateEnding) return null;
+
+  const values: Record<string, number | null> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'fiscalDateEnding' || key === 'reportedCurrency') continue;
+    values[key] = toNumber(value);
+  }
+
+  return {
+    fiscalDateEnding,
+    reportedCurrency: typeof raw.reportedCurrency === 'string' ? raw.reportedCurrency : undefined,
+    values,
+  };
+}
+
+function toFinancialReports(raw: unknown): FinancialReport[] {
+  const reports = (Array.isArray(raw) ? raw : [])
+    .map(toFinancialReport)
+    .filter((report): report is FinancialReport => report !== null);
+  return reports.sort((a, b) => a.fiscalDateEnding.localeCompare(b.fiscalDateEnding));
+}
+
+export function normalizeFinancialStatement(
+  data: unknown,
+  statementType: StatementType,
+  context: NormalizeContext
+): FinancialStatement {
+  const statement = isRecord(data) ? data : {};
+  const annualReports = toFinancialReports(statement.annualReports);
+  const quarterlyReports = toFinancialReports(statement.quarterlyReports);
+  const latest = [...annualReports, ...quarterlyReports]
+    .map(report => report.fiscalDateEnding)
+    .sort()
+    .pop();
+
+  return {
+    ...symbolFields(statement, context),
+    statementType,
+    annualReports,
+    quarterlyReports,
+    source: context.source,
+    asOf: latest ?? retrievedAt(context),
+  };
+}
+
+function toMetricSeries(raw: unknown): Record<string, MetricSeriesPoint[]> {
+  const series: Record<string, MetricSeriesPoint[]> = {};
+  if (!isRecord(raw)) return series;
+
+  for (const [metric, points] of Object.entries(raw)) {
+    if (!Array.isArray(points)) continue;
+    series[metric] = points
+      .filter(isRecord)
+      .map(point => ({ period: toIsoDate(point.period), value: toNumber(point.v ?? point.value) }))
+      .filter((point): point is MetricSeriesPoint => point.period !== null && point.value !== null)
+      .sort((a, b) => a.period.localeCompare(b.period));
+  }
+  return series;
+}
+
+export function normalizeMetrics(data: unknown, context: NormalizeContext): CompanyMetrics {
+  const payload = isRecord(data) ? data : {};
+  const metrics: Record<string, number> = {};
+  for (const [key, value] of Object.entries(isRecord(payload.metric) ? payload.metric : {})) {
+    const parsed = toNumber(value);
+    if (parsed !== null) {
+      metrics[key] = parsed;
+    }
+  }
+
+  const series = isRecord(payload.series) ? payload.series : {};
+  const metricType = payload.metricType ?? context.params?.metricType ?? 'all';
+
+  return {
+    ...symbolFields(payload, context),
+    metricType: String(metricType),
+    metrics,
+    series: {
+      annual: toMetricSeries(series.annual),
+      quarterly: toMetricSeries(series.quarterly),
+    },
+    source: context.source,
+    asOf: retrievedAt(context),
+  };
+}
+
+export function statementsFor(statementType: FinancialsStatementType): StatementType[] {
+  return REQUESTED_STATEMENTS[statementType] ?? REQUESTED_STATEMENTS.all;
+}
+
+/**
+ * Assigns a Finnhub series metric to the statement it derives from
+ */
+function metricStatement(metric: string): StatementType {
+  if (/^fcf|cashflow|payout/i.test(metric)) return 'cashflow';
+  if (/debt|ratio|bookvalue|asset|equity|capital|turnover/i.test(metric)) return 'balance';
+  return 'income';
+}
+
+/**
+ * Turns per-metric series into one report per period, keeping the metrics of one statement
+ */
+function toMetricReports(series: unknown, statementType: StatementType): FinancialReport[] {
+  const reports = new Map<string, FinancialReport>();
+  for (const [metric, points] of Object.entries(toMetricSeries(series))) {
+    if (metricStatement(metric) !== statementType) continue;
+    for (const point of points) {
+      let report = reports.get(point.period);
+      if (!report) {
+        report = { fiscalDateEnding: point.period, values: {} };
+        reports.set(point.period, report);
+      }
+      report.values[metric] = point.value;
+    }
+  }
+  return [...reports.values()].sort((a, b) => a.fiscalDateEnding.localeCompare(b.fiscalDateEnding));
+}
+
+function definedValues<T extends Record<string, number | null | undefined>>(values: T): { [K in keyof T]?: number } | undefined {
+  const entries = Object.entries(values).filter(([, value]) => typeof value === 'number');
+  return entries.length > 0 ? Object.fromEntries(entries) as { [K in keyof T]?: number } : undefined;
+}
+
+/**
+ * Key line items of the latest report per statement, using Alpha Vantage field names
+ */
+function summarizeStatements(
+  statements: Partial<Record<StatementType, FinancialReport[]>>
+): Pick<CompanyFinancials, 'incomeStatement' | 'balanceSheet' | 'cashFlowStatement'> {
+  const latest = (type: StatementType) => {
+    const reports = statements[type] ?? [];
+    return reports[reports.length - 1]?.values ?? {};
+  };
+  const income = latest('income');
+  const balance = latest('balance');
+  const cashflow = latest('cashflow');
+  const operatingCashFlow = cashflow.operatingCashflow;
+  const capitalExpenditures = cashflow.capitalExpenditures;
+
+  return {
+    incomeStatement: definedValues({
+      revenue: income.totalRevenue,
+      netIncome: income.netIncome,
+      grossProfit: income.grossProfit,
+    }),
+    balanceSheet: definedValues({
+      totalAssets: balance.totalAssets,
+      totalLiabilities: balance.totalLiabilities,
+      totalEquity: balance.totalShareholderEquity,
+    }),
+    cashFlowStatement: definedValues({
+      operatingCashFlow,
+      investingCashFlow: cashflow.cashflowFromInvestment,
+      financingCashFlow: cashflow.cashflowFromFinancing,
+      freeCashFlow: typeof operatingCashFlow === 'number' && typeof capitalExpenditures === 'number'
+        ? operatingCashFlow - capitalExpenditures
+        : undefined,
+    }),
+  };
+}
+
+/**
+ * get_financials: accepts { statements: { income, balance, cashflow } } holding Alpha Vantage style statements,
+ * or { metrics } holding a Finnhub /stock/metric payload whose per-period series are grouped by statement.
+ * Only the statements and period named by params.statementType and params.period are kept.
+ */
+export function normalizeFinancials(data: unknown, context: NormalizeContext): FinancialStatementSet {
+  const payload = isRecord(data) ? data : {};
+  const period: ReportingPeriod = context.params?.period === 'quarterly' ? 'quarterly' : 'annual';
+  const requested = context.params?.statementType;
+  const statementType: FinancialsStatementType = typeof requested === 'string' && requested in REQUESTED_STATEMENTS
+    ? requested as FinancialsStatementType
+    : 'all';
+  const rawStatements = isRecord(payload.statements) ? payload.statements : undefined;
+  const metricSeries = isRecord(payload.metrics) && isRecord(payload.metrics.series)
+    ? payload.metrics.series[period]
+    : undefined;
+
+  const statements: Partial<Record<StatementType, FinancialReport[]>> = {};
+  for (const type of statementsFor(statementType)) {
+    if (rawStatements) {
+      const statement = isRecord(rawStatements[type]) ? rawStatements[type] : {};
+      statements[type] = toFinancialReports(period === 'annual' ? statement.annualReports : statement.quarterlyReports);
+    } else {
+      statements[type] = toMetricReports(metricSeries, type);
+    }
+  }
+
+  const latest = Object.values(statements)
+    .flatMap(reports => reports.map(report => report.fiscalDateEnding))
+    .sort()
+    .pop();
+
+  return {
+    ...symbolFields(payload, context),
+    period,
+    statementType,
+    ...summarizeStatements(statements),
+    statements,
+    source: context.source,
+    asOf: latest ?? retrievedAt(context),
+  };
+}
+
+/**
+ * Accepts { data: { [date]: number } } or Alpha Vantage style { data: { [date]: { SMA: "1.23" } } }
+ */
+export function normalizeTechnicalIndicator(data: unknown, context: NormalizeContext): IndicatorSeries {
+  const payload = isRecord(data) ? data : {};
+  const indicator = String(payload.indicator ?? context.params?.indicator ?? '');
+  const values: IndicatorPoint[] = [];
+
+  for (const [rawDate, rawValue] of Object.entries(isRecord(payload.data) ? payload.data : {})) {
+    const date = toIsoDate(rawDate);
+    if (!date) continue;
+
+    if (isRecord(rawValue)) {
+      const components: Record<string, number> = {};
+      for (const [key, value] of Object.entries(rawValue)) {
+        const parsed = toNumber(value);
+        if (parsed !== null) components[key] = parsed;
+      }
+      const keys = Object.keys(components);
+      if (keys.length === 0) continue;
+      const primary = keys.find(key => key.toLowerCase() === indicator.toLowerCase()) ?? keys[0];
+      values.push(keys.length > 1
+        ? { date, value: components[primary], components }
+        : { date, value: components[primary] });
+    } else {
+      const value = toNumber(rawValue);
+      if (value !== null) values.push({ date, value });
+    }
+  }
+
+  values.sort((a, b) => a.date.localeCompare(b.date));
+  const interval = context.params?.interval;
+
+  return {
+    ...symbolFields(payload, context),
+    indicator,
+    interval: typeof interval === 'string' ? interval : undefined,
+    values,
+    source: context.source,
+    asOf: values.length > 0 ? values[values.length - 1].date : retrievedAt(context),
+  };
+}
+
+export function normalizeIndexConstituents(data: unknown, context: NormalizeContext): IndexConstituents {
+  const rows: unknown[] = Array.isArray(data) ? data : [];
+  const constituents: IndexConstituent[] = rows
+    .filter(isRecord)
+    .filter(item => typeof item.symbol === 'string' && item.symbol)
+    .map(item => {
+      const symbol = toCanonicalSymbol(item.symbol) ?? item.symbol;
+      return typeof item.name === 'string' && item.name ? { symbol, name: item.name } : { symbol };
+    });
+
+  return {
+    ...symbolFields(data, context),
+    constituents,
+    source: context.source,
+    asOf: retrievedAt(context),
+  };
+}
+
+/**
+ * Normalizes a tool result by tool name; tools without a normalizer are returned unchanged
+ */
+export function normalizeToolResult(toolName: string, data: unknown, context: NormalizeContext): unknown {
+  switch (toolName) {
+    case 'get_stock_quote':
+    case 'get_quote':
+      return normalizeQuote(data, context);
+    case 'get_stock_candles':
+    case 'get_daily_prices':
+      return normalizePriceSeries(data, context);
+    case 'get_stock_price_history':
+      return normalizePriceHistory(data, context);
+    case 'get_news':
+      return normalizeNews(data, context);
+    case 'get_company_overview':
+    case 'get_company_info':
+      return normalizeCompanyInfo(data, context);
+    case 'get_company_basic_financials':
+    case 'get_company_metrics':
+      return normalizeMetrics(data, context);
+    case 'get_income_statement':
+    case 'get_balance_sheet':
+    case 'get_cash_flow':
+      return normalizeFinancialStatement(data, STATEMENT_TYPES[toolName], context);
+    case 'get_financials':
+      return normalizeFinancials(data, context);
+    case 'get_technical_indicator':
+      return normalizeTechnicalIndicator(data, context);
+    case 'get_index_constituents':
+      return normalizeIndexConstituents(data, context);
+    default:
+      return data;
+  }
+}
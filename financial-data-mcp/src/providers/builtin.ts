@@ -0,0 +1,133 @@
+import { defineProvider, type ProviderDefinition } from './registry.js';
+import { FinnhubClient } from '../api/finnhub.js';
+import { TwelveDataClient } from '../api/twelvedata.js';
+import { TiingoClient } from '../api/tiingo.js';
+import { AlphaVantageClient } from '../api/alphavantage.js';
+import { SinaClient, type SinaClientConfig } from '../api/sina.js';
+import { EastMoneyClient, type EastMoneyClientConfig } from '../api/eastmoney.js';
+import { toTickerSymbol, toTwelveDataSymbol, toSinaSymbol, toEastMoneySecid } from '../symbols/index.js';
+
+/** Sina and EastMoney ban IPs that burst, so requests are spaced out */
+const PUBLIC_ENDPOINT_INTERVAL_MS = 200;
+
+/**
+ * Providers shipped with the server, in the order they appear in market source lists
+ */
+export const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+  defineProvider({
+    id: 'finnhub',
+    name: 'Finnhub',
+    tools: [
+      'get_stock_quote',
+      'get_stock_candles',
+      'get_stock_price_history',
+      'get_news',
+      'get_company_info',
+      'get_financials',
+      'get_company_basic_financials',
+      'get_company_metrics',
+    ],
+    markets: ['US', 'HK', 'UNKNOWN'],
+    apiKeyEnvVar: 'FINNHUB_API_KEY',
+    rateLimit: { requestsPerSecond: 30, requestsPerMinute: 60 },
+    periodBars: true,
+    formatSymbol: toTickerSymbol,
+    createClient: ({ apiKey }) => apiKey ? new FinnhubClient(apiKey) : undefined,
+  }),
+  defineProvider({
+    id: 'twelvedata',
+    name: 'Twelve Data',
+    tools: [
+      'get_stock_quote',
+      'get_quote',
+      'get_stock_candles',
+      'get_stock_price_history',
+      'get_daily_prices',
+      'get_technical_indicator',
+    ],
+    markets: ['US', 'HK'],
+    indexMarkets: ['US'],
+    apiKeyEnvVar: 'TWELVEDATA_API_KEY',
+    rateLimit: { requestsPerMinute: 8, requestsPerDay: 800 },
+    periodBars: true,
+    formatSymbol: toTwelveDataSymbol,
+    createClient: ({ apiKey }) => apiKey ? new TwelveDataClient(apiKey) : undefined,
+  }),
+  defineProvider({
+    id: 'tiingo',
+    name: 'Tiingo',
+    tools: [
+      'get_stock_quote',
+      'get_quote',
+      'get_stock_candles',
+      'get_stock_price_history',
+      'get_daily_prices',
+      'get_news',
+      'get_company_info',
+      'get_company_overview',
+    ],
+    markets: ['US'],
+    apiKeyEnvVar: 'TIINGO_API_KEY',
+    rateLimit: { requestsPerDay: 1000 },
+    formatSymbol: toTickerSymbol,
+    createClient: ({ apiKey }) => apiKey ? new TiingoClient(apiKey) : undefined,
+  }),
+  defineProvider({
+    id: 'alphavantage',
+    name: 'Alpha Vantage',
+    tools: [
+      'get_stock_quote',
+      'get_quote',
+      'get_stock_price_history',
+      'get_daily_prices',
+      'get_technical_indicator',
+      'get_company_info',
+      'get_company_overview',
+      'get_financials',
+      'get_income_statement',
+      'get_balance_sheet',
+      'get_cash_flow',
+    ],
+    markets: ['US', 'UNKNOWN'],
+    apiKeyEnvVar: 'ALPHAVANTAGE_API_KEY',
+    rateLimit: { requestsPerMinute: 5, requestsPerDay: 25 },
+    formatSymbol: toTickerSymbol,
+    createClient: ({ apiKey }) => apiKey ? new AlphaVantageClient(apiKey) : undefined,
+  }),
+  defineProvider({
+    id: 'sina',
+    name: 'Sina Finance',
+    tools: [
+      'get_stock_quote',
+      'get_quote',
+      'get_batch_quotes',
+      'get_stock_candles',
+      'get_stock_price_history',
+      'get_daily_prices',
+    ],
+    markets: ['SH', 'SZ', 'BJ', 'HK', 'UNKNOWN'],
+    indexMarkets: ['SH', 'SZ', 'HK'],
+    rateLimit: { minIntervalMs: PUBLIC_ENDPOINT_INTERVAL_MS },
+    formatSymbol: toSinaSymbol,
+    createClient: ({ settings }) => new SinaClient(settings as SinaClientConfig),
+  }),
+  defineProvider({
+    id: 'eastmoney',
+    name: 'East Money',
+    tools: [
+      'get_stock_quote',
+      'get_quote',
+      'get_batch_quotes',
+      'get_stock_candles',
+      'get_stock_price_history',
+      'get_daily_prices',
+      'get_index_constituents',
+    ],
+    markets: ['SH', 'SZ', 'BJ', 'UNKNOWN'],
+    indexMarkets: ['SH', 'SZ'],
+    rateLimit: { minIntervalMs: PUBLIC_ENDPOINT_INTERVAL_MS },
+    periodBars: true,
+    formatSymbol: toEastMoneySecid,
+    createClient: ({ settings }) => new EastMoneyClient(settings as EastMoneyClientConfig),
+  }),
+];
@@ -0,0 +1,15 @@
+/**
+ * Provider catalog
+ * Built-in providers are registered here; plugins add theirs through loadProviderPlugins
+ */
+
+import { ProviderRegistry } from './registry.js';
+import { BUILTIN_PROVIDERS } from './builtin.js';
+
+export { ProviderRegistry, defineProvider } from './registry.js';
+export { BUILTIN_PROVIDERS } from './builtin.js';
+export { loadProviderPlugins, ProviderPluginError } from './plugins.js';
+
+export type { ProviderDefinition, ProviderContext, ProviderRateLimit } from './registry.js';
+
+export const providerRegistry = new ProviderRegistry(BUILTIN_PROVIDERS);
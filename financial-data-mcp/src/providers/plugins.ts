@@ -0,0 +1,73 @@
+/**
+ * Loads provider plugins: modules, usually separate packages, whose default export
+ * (or `provider`/`providers` export) is a ProviderDefinition or a list of them
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ProviderDefinition, ProviderRegistry } from './registry.js';
+import { logger } from '../logger.js';
+
+export class ProviderPluginError extends Error {
+  constructor(public plugin: string, message: string) {
+    super(`Provider plugin ${plugin}: ${message}`);
+    this.name = 'ProviderPluginError';
+  }
+}
+
+function isProviderDefinition(value: unknown): value is ProviderDefinition {
+  const candidate = value as Partial<ProviderDefinition> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && typeof candidate.id === 'string'
+    && Array.isArray(candidate.tools)
+    && Array.isArray(candidate.markets)
+    && typeof candidate.createClient === 'function';
+}
+
+/**
+ * Package names are imported as they are; paths are resolved against cwd
+ */
+function toImportSpecifier(plugin: string, cwd: string): string {
+  const isPath = plugin.startsWith('.') || path.isAbsolute(plugin);
+  return isPath ? pathToFileURL(path.resolve(cwd, plugin)).href : plugin;
+}
+
+/**
+ * Imports each plugin and registers the providers it exports, in the order listed
+ * @returns The providers registered
+ * @throws ProviderPluginError when a plugin cannot be imported or exports no valid provider
+ */
+export async function loadProviderPlugins(
+  registry: ProviderRegistry,
+  plugins: string[],
+  cwd: string = process.cwd()
+): Promise<ProviderDefinition[]> {
+  const registered: ProviderDefinition[] = [];
+
+  for (const plugin of plugins) {
+    let module: Record<string, unknown>;
+    try {
+      module = await import(toImportSpecifier(plugin, cwd));
+    } catch (error) {
+      throw new ProviderPluginError(plugin, `failed to import (${(error as Error).message})`);
+    }
+
+    const exported = module.default ?? module.providers ?? module.provider;
+    const definitions = Array.isArray(exported) ? exported : [exported];
+    if (definitions.length === 0 || !definitions.every(isProviderDefinition)) {
+      throw new ProviderPluginError(plugin, 'must export a provider definition with id, tools, markets and createClient');
+    }
+
+    for (const definition of definitions) {
+      try {
+        registry.register(definition);
+      } catch (error) {
+        throw new ProviderPluginError(plugin, (error as Error).message);
+      }
+      registered.push(definition);
+      logger.info('Provider plugin registered', { plugin, provider: definition.id, tools: definition.tools });
+    }
+  }
+
+  return registered;
+}
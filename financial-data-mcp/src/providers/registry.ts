@@ -0,0 +1,138 @@
+/**
+ * Provider registry
+ * Each data vendor is declared once with the tools and markets it serves, its API key env var,
+ * published rate limits and health check; routing, key rotation and failover discover providers from here
+ */
+
+import type { ApiSource, ToolCompatibility } from '../types.js';
+import type { Market } from '../resilience/market-router.js';
+import { parseSymbol, type SymbolId } from '../symbols/index.js';
+import { toolRegistry } from '../tools/index.js';
+
+/** Published request limits of a provider's plan, per API key */
+export interface ProviderRateLimit {
+  requestsPerSecond?: number;
+  requestsPerMinute?: number;
+  requestsPerDay?: number;
+  /** Minimum gap between requests, for endpoints that ban bursts by IP */
+  minIntervalMs?: number;
+}
+
+export interface ProviderContext {
+  /** Comma-separated keys from the loaded config, unset when none are configured */
+  apiKey?: string;
+  /** The provider's section of the `providers` config */
+  settings: Record<string, unknown>;
+}
+
+export interface ProviderDefinition<C = any> {
+  /** Lower-case id used in config, source priorities and provenance */
+  id: ApiSource;
+  name: string;
+  /** Tools the client can serve through the ApiClient methods of the same name */
+  tools: string[];
+  /** Markets whose symbols the provider covers */
+  markets: Market[];
+  /** Markets whose indices the provider quotes; index symbols are routed only to providers listing their market */
+  indexMarkets?: Market[];
+  /** Env var holding comma-separated API keys; omitted for providers that need none */
+  apiKeyEnvVar?: string;
+  rateLimit?: ProviderRateLimit;
+  /** Candle endpoint returns weekly and monthly bars; other providers have them rolled up from daily bars */
+  periodBars?: boolean;
+  /** Writes a parsed symbol in the provider's notation; unset sends symbols as the caller wrote them */
+  formatSymbol?(symbol: SymbolId): string;
+  /**
+   * Builds the provider's client
+   * @returns The client, or undefined to leave the provider out (e.g. no API key configured)
+   */
+  createClient(context: ProviderContext): C | undefined;
+  /** Resolves true when the provider answers; defaults to the client's own healthCheck() */
+  healthCheck?(client: C): Promise<boolean>;
+}
+
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9]*$/;
+
+/**
+ * Keeps createClient and healthCheck tied to the same client type
+ */
+export function defineProvider<C>(definition: ProviderDefinition<C>): ProviderDefinition<C> {
+  return definition;
+}
+
+export class ProviderRegistry {
+  private readonly providers: Map<ApiSource, ProviderDefinition> = new Map();
+
+  constructor(definitions: ProviderDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Adds a provider after the ones already registered, which decides its place in market source lists
+   * @throws Error when the id is taken or malformed, or a declared tool does not exist
+   */
+  register(definition: ProviderDefinition): void {
+    if (!PROVIDER_ID_PATTERN.test(definition.id)) {
+      throw new Error(`Provider id "${definition.id}" must be lower-case letters and digits, starting with a letter`);
+    }
+    if (this.providers.has(definition.id)) {
+      throw new Error(`Provider ${definition.id} is registered twice`);
+    }
+    const knownTools = toolRegistry.getToolNames();
+    const unknownTools = definition.tools.filter(tool => !knownTools.includes(tool));
+    if (unknownTools.length > 0) {
+      throw new Error(`Provider ${definition.id} declares unknown tools: ${unknownTools.join(', ')}`);
+    }
+    this.providers.set(definition.id, definition);
+  }
+
+  get(id: ApiSource): ProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): ProviderDefinition[] {
+    return [...this.providers.values()];
+  }
+
+  getIds(): ApiSource[] {
+    return [...this.providers.keys()];
+  }
+
+  /** Providers that can serve a tool, in registration order */
+  getIdsForTool(toolName: string): ApiSource[] {
+    return this.list().filter(provider => provider.tools.includes(toolName)).map(provider => provider.id);
+  }
+
+  /** Providers covering a market, in registration order */
+  getIdsForMarket(market: Market): ApiSource[] {
+    return this.list().filter(provider => provider.markets.includes(market)).map(provider => provider.id);
+  }
+
+  /** Providers quoting the market's indices, in registration order */
+  getIdsForIndexMarket(market: Market): ApiSource[] {
+    return this.list().filter(provider => provider.indexMarkets?.includes(market)).map(provider => provider.id);
+  }
+
+  /**
+   * The symbol in the provider's notation, or as given when the provider has no formatter or the symbol cannot be parsed
+   */
+  formatSymbol(id: ApiSource, symbol: string): string {
+    const format = this.providers.get(id)?.formatSymbol;
+    const parsed = parseSymbol(symbol);
+    return format && parsed ? format(parsed) : symbol;
+  }
+
+  supportsTool(id: ApiSource, toolName: string): boolean {
+    return this.providers.get(id)?.tools.includes(toolName) ?? false;
+  }
+
+  getCompatibility(): ToolCompatibility[] {
+    return toolRegistry.getToolNames().map(tool => ({ tool, supportedApis: this.getIdsForTool(tool) }));
+  }
+}
@@ -3,26 +3,9 @@
  * Switches to secondary API when primary fails or is rate-limited
  */
 
-import type { ResilienceConfig, ToolCompatibility, FailoverEvent, ApiSource } from '../types.js';
+import type { ResilienceConfig, FailoverEvent, ApiSource } from '../types.js';
 import { logger } from '../logger.js';
-
-const TOOL_COMPATIBILITY: ToolCompatibility[] = [
-  { tool: 'get_stock_quote', supportedApis: ['finnhub', 'alphavantage', 'twelvedata', 'tiingo'] },
-  { tool: 'get_stock_candles', supportedApis: ['finnhub', 'twelvedata', 'tiingo'] },
-  { tool: 'get_stock_price_history', supportedApis: ['finnhub', 'alphavantage', 'twelvedata', 'tiingo'] },
-  { tool: 'get_financials', supportedApis: ['finnhub', 'alphavantage'] },
-  { tool: 'get_company_info', supportedApis: ['finnhub', 'alphavantage', 'tiingo'] },
-  { tool: 'get_company_overview', supportedApis: ['alphavantage', 'tiingo'] },
-  { tool: 'get_news', supportedApis: ['finnhub', 'tiingo'] },
-  { tool: 'get_technical_indicator', supportedApis: ['alphavantage', 'twelvedata'] },
-  { tool: 'get_daily_prices', supportedApis: ['alphavantage', 'twelvedata', 'tiingo'] },
-  { tool: 'get_quote', supportedApis: ['alphavantage', 'twelvedata', 'tiingo'] },
-  { tool: 'get_income_statement', supportedApis: ['alphavantage'] },
-  { tool: 'get_balance_sheet', supportedApis: ['alphavantage'] },
-  { tool: 'get_cash_flow', supportedApis: ['alphavantage'] },
-  { tool: 'get_company_basic_financials', supportedApis: ['finnhub'] },
-  { tool: 'get_company_metrics', supportedApis: ['finnhub'] },
-];
+import { providerRegistry } from '../providers/index.js';
 
 export class FailoverManager {
   private currentApi: ApiSource;
@@ -110,7 +93,7 @@ export class FailoverManager {
   }
 
   private isToolSupported(toolName: string, api: ApiSource): boolean {
-    const compatibility = TOOL_COMPATIBILITY.find(c => c.tool === toolName);
+    const compatibility = providerRegistry.getCompatibility().find(c => c.tool === toolName);
     return compatibility ? compatibility.supportedApis.includes(api) : false;
   }
 
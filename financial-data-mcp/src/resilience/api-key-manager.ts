@@ -1,18 +1,15 @@
 /**
  * API key rotation with round-robin selection
- * Manages multiple API keys per provider with cooldown tracking
+ * Manages multiple API keys per provider with cooldown tracking, using the quota providers report
+ * in their rate-limit headers to time cooldowns and to pass over nearly spent keys
  */
 
-import type { ResilienceConfig, ApiKeyInfo, KeyRotationEvent, ApiSource } from '../types.js';
+import type { ResilienceConfig, ApiKeyInfo, KeyRotationEvent, KeyStatus, RateLimitInfo } from '../types.js';
 import { logger } from '../logger.js';
+import { providerRegistry } from '../providers/index.js';
 
-const ENV_VAR_MAP: Partial<Record<ApiSource, string>> = {
-  'finnhub': 'FINNHUB_API_KEY',
-  'alphavantage': 'ALPHAVANTAGE_API_KEY',
-  'twelvedata': 'TWELVEDATA_API_KEY',
-  'tiingo': 'TIINGO_API_KEY',
-  // sina and eastmoney don't use API keys - they are free public APIs
-};
+// A key with this share of its window's calls left, or a single call, is used only when no other key has more
+const LOW_QUOTA_FRACTION = 0.1;
 
 export class KeyManager {
   private keys: Map<string, ApiKeyInfo[]> = new Map();
@@ -20,20 +17,28 @@ export class KeyManager {
   private readonly config: ResilienceConfig;
   private readonly apiName: string;
 
-  constructor(apiName: string, config: ResilienceConfig) {
+  /**
+   * @param rawKeys - Comma-separated keys from the loaded config; falls back to the provider's env var
+   */
+  constructor(apiName: string, config: ResilienceConfig, rawKeys?: string) {
     this.apiName = apiName;
     this.config = config;
-    this.initializeKeys(apiName);
+    this.initializeKeys(apiName, rawKeys);
   }
 
-  private initializeKeys(apiName: string): void {
-    const envVar = ENV_VAR_MAP[apiName as ApiSource];
-    if (!envVar) {
+  private initializeKeys(apiName: string, rawKeys?: string): void {
+    const provider = providerRegistry.get(apiName);
+    if (!provider) {
       logger.warn(`Unknown API source: ${apiName}`);
       return;
     }
+    // Keyless providers such as sina and eastmoney have no env var
+    const envVar = provider.apiKeyEnvVar;
+    if (!envVar) {
+      return;
+    }
     
-    const keyEnv = process.env[envVar];
+    const keyEnv = rawKeys ?? process.env[envVar];
 
     if (!keyEnv || !keyEnv.trim()) {
       logger.warn(`No API keys configured for ${apiName}`);
@@ -73,44 +78,112 @@ export class KeyManager {
       return null;
     }
 
-    let currentIndex = this.currentIndexes.get(apiName) || 0;
-    const maxAttempts = keys.length * 2;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const key = keys[currentIndex];
-
-      if (!key.inCooldown) {
-        this.currentIndexes.set(apiName, currentIndex);
-        return { ...key };
-      }
-
-      currentIndex = (currentIndex + 1) % keys.length;
+    const now = Date.now();
+    const currentIndex = this.currentIndexes.get(apiName) || 0;
+    const inRotationOrder = keys.map((_, offset) => keys[(currentIndex + offset) % keys.length]);
+    const key = inRotationOrder.find(candidate => !candidate.inCooldown && !this.isKeyLowOnQuota(candidate, now))
+      ?? inRotationOrder.find(candidate => !candidate.inCooldown);
+
+    if (key) {
+      this.currentIndexes.set(apiName, key.index);
+      return { ...key };
     }
 
     logger.warn(`All keys for ${apiName} are in cooldown`);
     return null;
   }
 
-  markRateLimit(keyIndex: number): void {
+  /**
+   * Records the quota the provider reported on a response made with the key.
+   * A key reported as spent goes into cooldown until its window resets, before it hits a 429.
+   */
+  recordRateLimit(keyIndex: number, info: RateLimitInfo): void {
+    const keys = this.keys.get(this.apiName);
+    if (!keys || keyIndex >= keys.length) {
+      return;
+    }
+
+    const now = Date.now();
+    const key = keys[keyIndex];
+    key.rateLimit = info;
+    key.rateLimitReportedAt = now;
+
+    if (info.remaining === 0 && info.resetAt !== undefined && info.resetAt > now && !key.inCooldown) {
+      key.inCooldown = true;
+      key.cooldownUntil = info.resetAt;
+      this.logEvent('KEY_RATE_LIMITED', `Quota spent for key index ${keyIndex} until ${new Date(info.resetAt).toISOString()}`, keyIndex);
+    }
+  }
+
+  /**
+   * Puts a throttled key into cooldown until `retryAt`, the time the provider's headers gave, or the reset window
+   */
+  markRateLimit(keyIndex: number, retryAt?: number): void {
     const keys = this.keys.get(this.apiName);
     if (!keys || keyIndex >= keys.length) {
       return;
     }
 
+    const now = Date.now();
     const key = keys[keyIndex];
     key.inCooldown = true;
-    key.cooldownUntil = Date.now() + this.config.keyRotationResetWindowMs;
-    key.lastRateLimitError = Date.now();
+    key.cooldownUntil = retryAt ?? this.providerRetryAt(key, now) ?? now + this.config.keyRotationResetWindowMs;
+    key.lastRateLimitError = now;
     
     logger.debug(`Rate limit hit, key entering cooldown`, {
       apiName: this.apiName,
       keyIndex,
-      cooldownMs: this.config.keyRotationResetWindowMs,
+      cooldownMs: key.cooldownUntil - now,
     });
     
     this.logEvent('KEY_RATE_LIMITED', `Rate limit hit for key index ${keyIndex}`, keyIndex);
   }
 
+  /**
+   * Takes a key the provider rejected out of rotation for the reset window, like a rate-limited one
+   */
+  markAuthFailure(keyIndex: number): void {
+    const keys = this.keys.get(this.apiName);
+    if (!keys || keyIndex >= keys.length) {
+      return;
+    }
+
+    const key = keys[keyIndex];
+    key.inCooldown = true;
+    key.cooldownUntil = Date.now() + this.config.keyRotationResetWindowMs;
+
+    this.logEvent('KEY_AUTH_FAILED', `Provider rejected key index ${keyIndex}`, keyIndex);
+  }
+
+  /**
+   * The key's reported quota while it still describes the current window. Without a reset time
+   * the report is trusted for the rotation reset window.
+   */
+  private currentRateLimit(key: ApiKeyInfo, now: number): RateLimitInfo | undefined {
+    const rateLimit = key.rateLimit;
+    if (!rateLimit) {
+      return undefined;
+    }
+    const windowEnd = rateLimit.resetAt ?? (key.rateLimitReportedAt ?? 0) + this.config.keyRotationResetWindowMs;
+    return Math.max(windowEnd, rateLimit.retryAt ?? 0) > now ? rateLimit : undefined;
+  }
+
+  /**
+   * When the provider said the key may be used again: its Retry-After, else the window reset
+   */
+  private providerRetryAt(key: ApiKeyInfo, now: number): number | undefined {
+    const rateLimit = this.currentRateLimit(key, now);
+    return [rateLimit?.retryAt, rateLimit?.resetAt].find(time => time !== undefined && time > now);
+  }
+
+  private isKeyLowOnQuota(key: ApiKeyInfo, now: number): boolean {
+    const remaining = this.currentRateLimit(key, now)?.remaining;
+    if (remaining === undefined) {
+      return false;
+    }
+    return remaining <= Math.max(1, Math.floor((key.rateLimit?.limit ?? 0) * LOW_QUOTA_FRACTION));
+  }
+
   recordUsage(keyIndex: number): void {
     const keys = this.keys.get(this.apiName);
     if (!keys || keyIndex >= keys.length) {
@@ -161,6 +234,32 @@ export class KeyManager {
     return this.keys.get(apiName) || [];
   }
 
+  /**
+   * Reports each key's usage and cooldown without exposing the key itself
+   */
+  getKeyStatus(): KeyStatus[] {
+    this.checkAndResetCooldowns();
+    const now = Date.now();
+    return this.getKeyInfo(this.apiName).map(key => {
+      const rateLimit = this.currentRateLimit(key, now);
+      return {
+        index: key.index,
+        usageCount: key.usageCount,
+        lastUsedAt: key.lastUsed ? new Date(key.lastUsed).toISOString() : undefined,
+        inCooldown: key.inCooldown,
+        cooldownUntil: key.inCooldown && key.cooldownUntil ? new Date(key.cooldownUntil).toISOString() : undefined,
+        quota: rateLimit?.remaining !== undefined
+          ? {
+            remaining: rateLimit.remaining,
+            limit: rateLimit.limit,
+            resetAt: rateLimit.resetAt ? new Date(rateLimit.resetAt).toISOString() : undefined,
+            low: this.isKeyLowOnQuota(key, now),
+          }
+          : undefined,
+      };
+    });
+  }
+
   getCurrentKeyIndex(apiName: string): number {
     return this.currentIndexes.get(apiName) || 0;
   }
@@ -181,6 +280,16 @@ export class KeyManager {
     return this.getAvailableKeyCount() > 0;
   }
 
+  /**
+   * Whether every key out of cooldown is nearly spent, so the next calls are likely to hit a 429
+   */
+  isLowOnQuota(): boolean {
+    this.checkAndResetCooldowns();
+    const now = Date.now();
+    const usable = this.getKeyInfo(this.apiName).filter(key => !key.inCooldown);
+    return usable.length > 0 && usable.every(key => this.isKeyLowOnQuota(key, now));
+  }
+
   rotateKey(): boolean {
     const keys = this.keys.get(this.apiName);
     if (!keys || keys.length <= 1) return false;
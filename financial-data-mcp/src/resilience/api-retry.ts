@@ -3,7 +3,8 @@
  * Retries transient errors with increasing delays between attempts
  */
 
-import type { ResilienceConfig } from '../types.js';
+import type { ResilienceConfig, RetryEvent } from '../types.js';
+import { logger } from '../logger.js';
 
 export class RetryError extends Error {
   constructor(
@@ -99,12 +100,14 @@ function extractStatusCode(error: Error): number | undefined {
  * @param fn - Function to retry
  * @param config - Resilience configuration
  * @param context - Context for error messages (e.g., API name, endpoint)
+ * @param shouldRetry - Classifies retryable errors (default: isRetryableError)
  * @returns Result from function or throws if all retries exhausted
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   config: ResilienceConfig,
-  context?: { apiName?: string; endpoint?: string; method?: string }
+  context?: { apiName?: string; endpoint?: string; method?: string; tool?: string },
+  shouldRetry: (error: unknown) => boolean = isRetryableError
 ): Promise<T> {
   if (!config.retryEnabled) {
     return fn();
@@ -117,14 +120,19 @@ export async function withRetry<T>(
       const result = await fn();
       return result;
     } catch (error) {
-      const isRetryable = isRetryableError(error);
+      const isRetryable = shouldRetry(error);
 
       if (!isRetryable) {
         throw error;
       }
 
       if (attempt === maxAttempts - 1) {
-        const maxRetriesError = new RetryError(attempt + 1, maxAttempts, 0);
+        const maxRetriesError = new RetryError(
+          attempt + 1,
+          maxAttempts,
+          0,
+          `Retries exhausted after ${maxAttempts} attempts: ${(error as Error).message}`
+        );
         maxRetriesError.cause = error;
         throw maxRetriesError;
       }
@@ -140,10 +148,22 @@ export async function withRetry<T>(
 
       // Check for idempotency warning (POST requests)
       if (context?.method?.toLowerCase() === 'post') {
-        console.warn(`[RETRY WARNING] Retrying non-idempotent POST request. Duplicate mutations may occur.`);
+        logger.warn('Retrying non-idempotent POST request. Duplicate mutations may occur.', { api: context.apiName });
       }
 
-      console.log(`[RETRY ATTEMPT] ${new Date().toISOString()} - API: ${context?.apiName || 'unknown'}, Attempt: ${attempt + 1}/${maxAttempts}, Delay: ${delayMs}ms, Reason: ${(error as Error).message}`);
+      // Logged to stderr: stdout carries the MCP protocol
+      const retryEvent: RetryEvent = {
+        event: 'RETRY_ATTEMPT',
+        api: context?.apiName || 'unknown',
+        attempt: attempt + 1,
+        delayMs,
+        tool: context?.tool || context?.endpoint || 'unknown',
+        timestamp: new Date().toISOString(),
+      };
+      logger.warn(`Retry attempt ${attempt + 1}/${maxAttempts}`, {
+        ...retryEvent,
+        reason: (error as Error).message,
+      });
 
       await new Promise(resolve => setTimeout(resolve, delayMs));
     }
@@ -3,7 +3,7 @@
  * Prevents indefinite hangs by aborting requests after configurable duration
  */
 
-import type { ResilienceConfig } from '../types.js';
+import type { ResilienceConfig, ApiSource } from '../types.js';
 
 export class TimeoutError extends Error {
   constructor(
@@ -52,19 +52,65 @@ export async function withTimeout<T>(
   return Promise.race([promise, timeoutPromise]);
 }
 
+/**
+ * Runs a request with timeout control and cancels it when the timeout fires
+ * @param fn - Request to run, receiving a signal to pass on to fetch
+ * @param timeoutMs - Timeout duration in milliseconds
+ * @param apiName - API name for error messages (optional)
+ * @param endpoint - Endpoint being called (optional)
+ * @param parentSignal - Cancels the request too when aborted, rejecting with its reason (optional)
+ * @returns Promise that rejects with TimeoutError, after aborting the signal, if timeout exceeded
+ */
+export async function withAbortableTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  apiName?: string,
+  endpoint?: string,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  parentSignal?.throwIfAborted();
+  const controller = new AbortController();
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onParentAbort: (() => void) | undefined;
+  const abortPromise = new Promise<never>((_, reject) => {
+    if (timeoutMs > 0) {
+      timeoutId = setTimeout(() => {
+        const error = new TimeoutError(apiName || 'API', endpoint || 'unknown', timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    }
+    onParentAbort = () => {
+      controller.abort(parentSignal?.reason);
+      reject(parentSignal?.reason);
+    };
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+  });
+
+  if (timeoutMs <= 0 && !parentSignal) {
+    return fn(controller.signal);
+  }
+
+  try {
+    return await Promise.race([fn(controller.signal), abortPromise]);
+  } finally {
+    clearTimeout(timeoutId);
+    parentSignal?.removeEventListener('abort', onParentAbort!);
+  }
+}
+
 /**
  * Get timeout duration for a specific API
  * @param config - Resilience configuration
- * @param apiName - API name ('finnhub' or 'alphavantage')
+ * @param apiName - API source name
  * @returns Timeout duration in milliseconds
  */
-export function getApiTimeout(config: ResilienceConfig, apiName: 'finnhub' | 'alphavantage'): number {
+export function getApiTimeout(config: ResilienceConfig, apiName: ApiSource): number {
   // Check for API-specific timeout first
-  if (apiName === 'finnhub' && config.finnhubTimeoutMs !== undefined) {
-    return config.finnhubTimeoutMs;
-  }
-  if (apiName === 'alphavantage' && config.alphavantageTimeoutMs !== undefined) {
-    return config.alphavantageTimeoutMs;
+  const override = config[`${apiName}TimeoutMs`];
+  if (override !== undefined) {
+    return override;
   }
 
   // Fall back to global timeout
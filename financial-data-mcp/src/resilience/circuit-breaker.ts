@@ -3,15 +3,14 @@
  * Prevents cascading failures by blocking calls to failing APIs
  */
 
-import type { ResilienceConfig } from '../types.js';
-
-type CircuitState = 'closed' | 'open' | 'half-open';
+import type { ResilienceConfig, CircuitState, CircuitBreakerState, CircuitBreakerEvent, CircuitStatus } from '../types.js';
 
 export class CircuitBreaker {
   private circuitState: CircuitState = 'closed';
   private failureCount = 0;
   private lastFailureTime = 0;
   private lastStateChange = 0;
+  private halfOpenAttempts = 0;
   private readonly config: ResilienceConfig;
   private readonly apiName: string;
 
@@ -21,14 +20,20 @@ export class CircuitBreaker {
     this.logEvent('CIRCUIT_CLOSED', 'Circuit initialized in CLOSED state');
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * Executes a call through the breaker
+   * @param fn - Call to protect
+   * @param isFailure - Decides whether an error counts towards opening the circuit (default: every error)
+   * @returns Result from fn, or throws a CIRCUIT_OPEN error without calling fn while the circuit is open
+   */
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
     if (!this.config.circuitBreakerEnabled) {
       return fn();
     }
 
-    if (this.circuitState === 'open') {
+    if (!this.isCallPermitted()) {
       const now = Date.now();
-      const timeUntilHalfOpen = this.config.circuitBreakerTimeoutMs - (now - this.lastFailureTime);
+      const timeUntilHalfOpen = Math.max(0, this.config.circuitBreakerTimeoutMs - (now - this.lastFailureTime));
       const error = new Error(
         `Circuit breaker is OPEN for ${this.apiName}. ` +
         `Retry after ${Math.ceil(timeUntilHalfOpen / 1000)}s`
@@ -42,11 +47,58 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (isFailure(error)) {
+        this.onFailure();
+      } else if (this.circuitState === 'half-open') {
+        // Inconclusive probe, let another call test recovery
+        this.halfOpenAttempts = Math.max(0, this.halfOpenAttempts - 1);
+      }
       throw error;
     }
   }
 
+  /**
+   * Checks whether a call may go through, moving an expired OPEN circuit to HALF-OPEN.
+   * In HALF-OPEN only circuitBreakerHalfOpenAttempts probe calls are let through.
+   */
+  private isCallPermitted(): boolean {
+    if (this.circuitState === 'closed') {
+      return true;
+    }
+
+    if (this.circuitState === 'open') {
+      if (Date.now() - this.lastFailureTime < this.config.circuitBreakerTimeoutMs) {
+        return false;
+      }
+      this.circuitState = 'half-open';
+      this.lastStateChange = Date.now();
+      this.halfOpenAttempts = 0;
+      this.logEvent('CIRCUIT_HALF_OPEN', 'Timeout elapsed, probing recovery');
+    }
+
+    if (this.halfOpenAttempts >= this.config.circuitBreakerHalfOpenAttempts) {
+      return false;
+    }
+    this.halfOpenAttempts++;
+    return true;
+  }
+
+  /**
+   * Reports whether calls would currently be rejected, without consuming a half-open probe
+   */
+  isOpen(): boolean {
+    if (!this.config.circuitBreakerEnabled) {
+      return false;
+    }
+    if (this.circuitState === 'open') {
+      return Date.now() - this.lastFailureTime < this.config.circuitBreakerTimeoutMs;
+    }
+    if (this.circuitState === 'half-open') {
+      return this.halfOpenAttempts >= this.config.circuitBreakerHalfOpenAttempts;
+    }
+    return false;
+  }
+
   private onSuccess(): void {
     this.failureCount = 0;
     if (this.circuitState !== 'closed') {
@@ -62,6 +114,13 @@ export class CircuitBreaker {
 
     const threshold = this.config.circuitBreakerFailureThreshold;
 
+    if (this.circuitState === 'half-open') {
+      this.circuitState = 'open';
+      this.lastStateChange = Date.now();
+      this.logEvent('CIRCUIT_OPENED', 'Recovery probe failed, circuit re-opened');
+      return;
+    }
+
     if (this.failureCount >= threshold && this.circuitState !== 'open') {
       this.circuitState = 'open';
       this.lastStateChange = Date.now();
@@ -100,7 +159,7 @@ export class CircuitBreaker {
     }
   }
 
-  getState() {
+  getState(): CircuitBreakerState {
     return {
       state: this.circuitState,
       failureCount: this.failureCount,
@@ -109,14 +168,26 @@ export class CircuitBreaker {
     };
   }
 
+  /**
+   * Reports the circuit for status tools, with timestamps as ISO strings
+   */
+  getStatus(): CircuitStatus {
+    const isOpen = this.circuitState === 'open';
+    return {
+      state: this.circuitState,
+      failureCount: this.failureCount,
+      lastFailureAt: this.lastFailureTime ? new Date(this.lastFailureTime).toISOString() : undefined,
+      lastStateChangeAt: this.lastStateChange ? new Date(this.lastStateChange).toISOString() : undefined,
+      rejectingCalls: this.isOpen(),
+      retryAt: isOpen ? new Date(this.lastFailureTime + this.config.circuitBreakerTimeoutMs).toISOString() : undefined,
+    };
+  }
+
   getHalfOpenAttemptsRemaining(): number {
     if (this.circuitState !== 'half-open') {
       return 0;
     }
-    const now = Date.now();
-    const timeSinceHalfOpen = now - this.lastStateChange;
-    const timeUntilReopen = this.config.circuitBreakerTimeoutMs - timeSinceHalfOpen;
-    return timeUntilReopen > 0 ? this.config.circuitBreakerHalfOpenAttempts : 0;
+    return Math.max(0, this.config.circuitBreakerHalfOpenAttempts - this.halfOpenAttempts);
   }
 
   forceOpen(): void {
@@ -141,8 +212,8 @@ export class CircuitBreaker {
     this.logEvent('CIRCUIT_CLOSED', 'Circuit reset on startup');
   }
 
-  private logEvent(event: 'CIRCUIT_OPENED' | 'CIRCUIT_HALF_OPEN' | 'CIRCUIT_CLOSED', reason: string): void {
-    const logEntry = {
+  private logEvent(event: CircuitBreakerEvent['event'], reason: string): void {
+    const logEntry: CircuitBreakerEvent = {
       event,
       api: this.apiName,
       state: this.circuitState,
@@ -0,0 +1,159 @@
+/**
+ * Cross-source consensus
+ * Compares the answers several sources gave for the same quote or daily bars against their median,
+ * so a provider returning a stale or wrongly scaled price is flagged instead of silently trusted
+ */
+
+import type { ApiSource, ConsensusDiscrepancy, ConsensusReport, NormalizedQuote, PriceSeries } from '../types.js';
+
+export interface ConsensusConfig {
+  /** Sources asked at once for a consensus call */
+  maxSources: number;
+  /** Answers needed before the sources can agree; with fewer the result is returned but not agreed */
+  minSources: number;
+  /** Largest deviation from the median, in percent, that is not flagged */
+  tolerancePct: number;
+  /** A quote this much older than the freshest one is flagged as stale and left out of the median */
+  maxQuoteLagMs: number;
+}
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  maxSources: 3,
+  minSources: 2,
+  tolerancePct: 1,
+  maxQuoteLagMs: 15 * 60 * 1000,
+};
+
+export interface Reconciled<T> {
+  /** The answer returned to the caller: the first source, in routing order, that was not flagged */
+  chosen: T;
+  report: ConsensusReport;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function deviationPct(value: number, reference: number): number {
+  if (reference === 0) {
+    return value === 0 ? 0 : 100;
+  }
+  return Math.round(Math.abs(value - reference) / Math.abs(reference) * 10000) / 100;
+}
+
+function buildReport(
+  answers: Array<{ source: ApiSource }>,
+  failedSources: ApiSource[],
+  field: string,
+  medianValue: number | null,
+  discrepancies: ConsensusDiscrepancy[],
+  config: ConsensusConfig
+): ConsensusReport {
+  return {
+    sources: answers.map(answer => answer.source),
+    failedSources,
+    field,
+    median: medianValue,
+    tolerancePct: config.tolerancePct,
+    agreed: answers.length >= config.minSources && discrepancies.length === 0,
+    discrepancies,
+  };
+}
+
+function pickUnflagged<T extends { source: ApiSource }>(answers: T[], discrepancies: ConsensusDiscrepancy[]): T {
+  const flagged = new Set(discrepancies.map(discrepancy => discrepancy.source));
+  return answers.find(answer => !flagged.has(answer.source)) ?? answers[0];
+}
+
+/**
+ * Reconciles quotes by current price. Quotes lagging the freshest by more than maxQuoteLagMs are flagged
+ * stale and left out of the median; the rest are flagged when they deviate from it by more than the tolerance.
+ * @param quotes - At least one quote, in routing order
+ */
+export function reconcileQuotes(
+  quotes: NormalizedQuote[],
+  failedSources: ApiSource[],
+  config: ConsensusConfig
+): Reconciled<NormalizedQuote> {
+  const discrepancies: ConsensusDiscrepancy[] = [];
+  const times = quotes.map(quote => new Date(quote.asOf).getTime());
+  const freshest = Math.max(...times.filter(time => !isNaN(time)));
+
+  const fresh = quotes.filter((quote, i) => {
+    const lagMs = freshest - times[i];
+    if (lagMs > config.maxQuoteLagMs) {
+      discrepancies.push({ source: quote.source, kind: 'stale', field: 'asOf', lagMs });
+      return false;
+    }
+    return true;
+  });
+
+  const medianPrice = fresh.length > 0 ? median(fresh.map(quote => quote.currentPrice)) : null;
+  if (medianPrice !== null && fresh.length >= 2) {
+    for (const quote of fresh) {
+      const deviation = deviationPct(quote.currentPrice, medianPrice);
+      if (deviation > config.tolerancePct) {
+        discrepancies.push({ source: quote.source, kind: 'deviation', field: 'currentPrice', value: quote.currentPrice, median: medianPrice, deviationPct: deviation });
+      }
+    }
+  }
+
+  return {
+    chosen: pickUnflagged(quotes, discrepancies),
+    report: buildReport(quotes, failedSources, 'currentPrice', medianPrice, discrepancies, config),
+  };
+}
+
+/**
+ * Reconciles daily bars by close, date by date over the dates every source reports, so each median
+ * is taken over the same sources. Each source is flagged once, on the date it deviates most,
+ * and as stale when its last bar is older than another source's.
+ * @param series - At least one series, in routing order
+ */
+export function reconcilePriceSeries(
+  series: PriceSeries[],
+  failedSources: ApiSource[],
+  config: ConsensusConfig
+): Reconciled<PriceSeries> {
+  const discrepancies: ConsensusDiscrepancy[] = [];
+  const closesByDate = new Map<string, Array<{ source: ApiSource; close: number }>>();
+  for (const entry of series) {
+    for (const bar of entry.prices) {
+      const closes = closesByDate.get(bar.date) ?? [];
+      closes.push({ source: entry.source, close: bar.close });
+      closesByDate.set(bar.date, closes);
+    }
+  }
+
+  const commonDates = [...closesByDate.keys()].filter(date => closesByDate.get(date)!.length === series.length).sort();
+  const worst = new Map<ApiSource, ConsensusDiscrepancy>();
+  for (const date of series.length >= 2 ? commonDates : []) {
+    const closes = closesByDate.get(date)!;
+    const medianClose = median(closes.map(entry => entry.close));
+    for (const { source, close } of closes) {
+      const deviation = deviationPct(close, medianClose);
+      if (deviation > config.tolerancePct && deviation > (worst.get(source)?.deviationPct ?? 0)) {
+        worst.set(source, { source, kind: 'deviation', field: 'close', date, value: close, median: medianClose, deviationPct: deviation });
+      }
+    }
+  }
+  discrepancies.push(...worst.values());
+
+  const lastDates = series.map(entry => entry.prices[entry.prices.length - 1]?.date ?? '');
+  const latestDate = lastDates.reduce((latest, date) => (date > latest ? date : latest), '');
+  series.forEach((entry, i) => {
+    if (lastDates[i] && lastDates[i] < latestDate) {
+      const lagMs = new Date(latestDate).getTime() - new Date(lastDates[i]).getTime();
+      discrepancies.push({ source: entry.source, kind: 'stale', field: 'date', date: lastDates[i], lagMs });
+    }
+  });
+
+  const latestCommon = commonDates[commonDates.length - 1];
+  const latestCloses = latestCommon ? closesByDate.get(latestCommon)!.map(entry => entry.close) : [];
+  return {
+    chosen: pickUnflagged(series, discrepancies),
+    report: buildReport(series, failedSources, 'close', latestCloses.length > 0 ? median(latestCloses) : null, discrepancies, config),
+  };
+}
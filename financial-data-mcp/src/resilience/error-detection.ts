@@ -1,45 +1,228 @@
-export function isRateLimitError(error: unknown): boolean {
-  if (!(error instanceof Error)) {
-    return false;
+/**
+ * Error classification
+ * Sorts errors into the provider error taxonomy and decides how the resilience layer reacts to each:
+ * fail fast, retry the same source, rotate to another key or fail over to the next source
+ */
+
+import type { ApiSource, FailoverAttempt, ToolResultMeta } from '../types.js';
+import { ProviderError, type ProviderErrorCode } from '../api/errors.js';
+import { TimeoutError } from './api-timeout.js';
+import { RetryError, isRetryableError } from './api-retry.js';
+
+export type ErrorAction = 'fail-fast' | 'retry' | 'rotate-key' | 'failover';
+
+/**
+ * Codes reported to MCP callers: the provider taxonomy plus outcomes of the server itself
+ */
+export type ToolErrorCode =
+  | ProviderErrorCode
+  | 'ALL_SOURCES_FAILED'
+  | 'NO_SOURCES_AVAILABLE'
+  | 'CIRCUIT_OPEN'
+  | 'UNKNOWN_TOOL'
+  | 'CANCELLED'
+  | 'INTERNAL';
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  /** Provider that raised the error */
+  source?: ApiSource;
+  /** Whether the same call may succeed if repeated later */
+  retryable: boolean;
+  /** What each source answered, when every source failed */
+  causes?: Array<{ source: ApiSource; code: ToolErrorCode; message: string }>;
+}
+
+const RATE_LIMIT_PATTERNS = [
+  '429', 'rate limit', 'rate-limit', 'ratelimit', 'too many requests', 'quota exceeded', 'api limit', 'throttl',
+];
+
+const TRANSIENT_PATTERNS = [
+  '500', '502', '503', '504', 'timeout', 'econnreset', 'econnrefused', 'network', 'fetch failed',
+];
+
+const TOOL_ERROR_CODES: ToolErrorCode[] = [
+  'NOT_FOUND', 'INVALID_ARGUMENT', 'UNSUPPORTED_BY_SOURCE', 'RATE_LIMITED', 'AUTH_FAILED', 'TRANSIENT',
+  'UPSTREAM_SCHEMA_CHANGED', 'ALL_SOURCES_FAILED', 'NO_SOURCES_AVAILABLE', 'CIRCUIT_OPEN', 'UNKNOWN_TOOL', 'CANCELLED',
+  'INTERNAL',
+];
+
+const RETRYABLE_CODES: ToolErrorCode[] = ['RATE_LIMITED', 'TRANSIENT', 'CIRCUIT_OPEN', 'NO_SOURCES_AVAILABLE'];
+
+/**
+ * Thrown when failover ran out of sources without an answer
+ */
+export class SourcesExhaustedError extends Error {
+  readonly code: 'ALL_SOURCES_FAILED' | 'NO_SOURCES_AVAILABLE';
+
+  constructor(public tool: string, public attempts: FailoverAttempt[], public skippedSources: ApiSource[]) {
+    super(attempts.length === 0
+      ? `No available sources for ${tool} (skipped: ${skippedSources.join(', ') || 'none configured'})`
+      : `All sources failed for ${tool}: ${attempts.map(attempt => attempt.error?.message).filter(Boolean).join(', ')}`);
+    this.name = 'SourcesExhaustedError';
+    this.code = attempts.length === 0 ? 'NO_SOURCES_AVAILABLE' : 'ALL_SOURCES_FAILED';
   }
-  
+}
+
+/**
+ * An error thrown out of a tool call, carrying the provenance of the failed call
+ */
+export interface ErrorWithMeta extends Error {
+  meta: ToolResultMeta;
+}
+
+export function hasToolMeta(error: unknown): error is ErrorWithMeta {
+  const meta = (error as Partial<ErrorWithMeta> | null)?.meta;
+  return error instanceof Error && typeof meta === 'object' && meta !== null;
+}
+
+/**
+ * Thrown into a request the server gave up on, such as the slower half of a hedged call
+ */
+export class RequestCancelledError extends Error {
+  readonly code = 'CANCELLED';
+
+  constructor(public source: ApiSource, message: string) {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+function messageMatches(error: Error, patterns: string[]): boolean {
   const message = error.message.toLowerCase();
-  
-  if (message.includes('429')) return true;
-  if (message.includes('rate limit')) return true;
-  if (message.includes('rate-limit')) return true;
-  if (message.includes('ratelimit')) return true;
-  if (message.includes('too many requests')) return true;
-  if (message.includes('quota exceeded')) return true;
-  if (message.includes('api limit')) return true;
-  if (message.includes('throttl')) return true;
-  
-  return false;
+  return patterns.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Places an error in the provider taxonomy. Errors the API clients did not type, such as those
+ * from plugins, are classified by their message; retried calls by the error that exhausted them.
+ * @returns Undefined when the error fits no category
+ */
+export function classifyError(error: unknown): ProviderErrorCode | undefined {
+  if (error instanceof RetryError && error.cause !== undefined) {
+    return classifyError(error.cause);
+  }
+  if (error instanceof ProviderError) {
+    return error.code;
+  }
+  if (error instanceof TimeoutError) {
+    return 'TRANSIENT';
+  }
+  if (!(error instanceof Error) || error instanceof SourcesExhaustedError || error instanceof RequestCancelledError) {
+    return undefined;
+  }
+  if (messageMatches(error, RATE_LIMIT_PATTERNS)) {
+    return 'RATE_LIMITED';
+  }
+  if (messageMatches(error, TRANSIENT_PATTERNS) || isRetryableError(error)) {
+    return 'TRANSIENT';
+  }
+  return undefined;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return classifyError(error) === 'RATE_LIMITED';
 }
 
 export function isTransientError(error: unknown): boolean {
-  if (!(error instanceof Error)) {
-    return false;
+  return classifyError(error) === 'TRANSIENT';
+}
+
+/**
+ * Unknown symbols and rejected arguments fail fast, since every other source would say the same;
+ * key problems rotate keys, transient errors are retried, and everything else fails over.
+ * A cancelled request is not retried in any way.
+ */
+export function getErrorAction(error: unknown): ErrorAction {
+  if (error instanceof RequestCancelledError) {
+    return 'fail-fast';
   }
-  
-  const message = error.message.toLowerCase();
-  
-  if (message.includes('500')) return true;
-  if (message.includes('502')) return true;
-  if (message.includes('503')) return true;
-  if (message.includes('504')) return true;
-  if (message.includes('timeout')) return true;
-  if (message.includes('econnreset')) return true;
-  if (message.includes('econnrefused')) return true;
-  if (message.includes('network')) return true;
-  
-  return false;
+  switch (classifyError(error)) {
+    case 'NOT_FOUND':
+    case 'INVALID_ARGUMENT':
+      return 'fail-fast';
+    case 'RATE_LIMITED':
+    case 'AUTH_FAILED':
+      return 'rotate-key';
+    case 'TRANSIENT':
+      return 'retry';
+    default:
+      return 'failover';
+  }
+}
+
+export function shouldRetrySameSource(error: unknown): boolean {
+  return getErrorAction(error) === 'retry';
 }
 
 export function shouldRetryWithDifferentKey(error: unknown): boolean {
-  return isRateLimitError(error);
+  return getErrorAction(error) === 'rotate-key';
 }
 
 export function shouldFailoverToNextSource(error: unknown): boolean {
-  return isRateLimitError(error) || isTransientError(error) || error instanceof Error;
+  return getErrorAction(error) !== 'fail-fast';
+}
+
+/**
+ * Whether the error points at the source itself being unhealthy, counting towards opening its circuit.
+ * Key problems and answers about the request (unknown symbol, unsupported data) do not.
+ */
+export function isSourceFailure(error: unknown): boolean {
+  if (error instanceof RequestCancelledError) {
+    return false;
+  }
+  const code = classifyError(error);
+  return code === undefined || code === 'TRANSIENT' || code === 'UPSTREAM_SCHEMA_CHANGED';
+}
+
+/**
+ * Whether the error may be the proxy's fault, counting towards its cooldown: the request could not get
+ * through or timed out, or a provider that limits by IP address rather than by key throttled or blocked it
+ */
+export function isProxyFailure(error: unknown, limitsByAddress: boolean): boolean {
+  if (error instanceof RequestCancelledError) {
+    return false;
+  }
+  const code = classifyError(error);
+  if (code === undefined || code === 'TRANSIENT') {
+    return true;
+  }
+  return limitsByAddress && (code === 'RATE_LIMITED' || code === 'UNSUPPORTED_BY_SOURCE' || code === 'AUTH_FAILED');
+}
+
+function toolErrorCode(error: unknown): ToolErrorCode {
+  const ownCode = (error as { code?: unknown } | null)?.code;
+  if (!(error instanceof ProviderError) && TOOL_ERROR_CODES.includes(ownCode as ToolErrorCode)) {
+    return ownCode as ToolErrorCode;
+  }
+  return classifyError(error) ?? 'INTERNAL';
+}
+
+/**
+ * Describes an error for MCP callers with a stable code in place of the bare message
+ */
+export function toToolError(error: unknown): ToolError {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = toolErrorCode(error);
+
+  if (error instanceof SourcesExhaustedError) {
+    const causes = error.attempts
+      .filter(attempt => attempt.error)
+      .map(attempt => ({ source: attempt.source, code: toolErrorCode(attempt.error), message: (attempt.error as Error).message }));
+    return {
+      code,
+      message,
+      retryable: code === 'NO_SOURCES_AVAILABLE' || causes.some(cause => RETRYABLE_CODES.includes(cause.code)),
+      causes,
+    };
+  }
+
+  const providerError = error instanceof RetryError ? error.cause : error;
+  return {
+    code,
+    message,
+    source: providerError instanceof ProviderError ? providerError.source : undefined,
+    retryable: RETRYABLE_CODES.includes(code),
+  };
 }
@@ -0,0 +1,36 @@
+/**
+ * Hedged requests
+ * When a tool's first source is slower than usual to answer, the next source is asked as well
+ * and whichever answers first wins
+ */
+
+export interface HedgingConfig {
+  enabled: boolean;
+  /** Tools whose calls are hedged */
+  tools: string[];
+  /** Percentile (1-100) of the first source's recent successful latencies to wait before hedging */
+  percentile: number;
+  /** Successful calls the first source needs before its latency is used instead of fallbackDelayMs */
+  minSamples: number;
+  /** Wait before hedging while the first source has too few successful calls */
+  fallbackDelayMs: number;
+  /** Shortest wait before hedging, so a source that is usually very fast is not hedged on every call */
+  minDelayMs: number;
+}
+
+export const DEFAULT_HEDGING_CONFIG: HedgingConfig = {
+  enabled: false,
+  tools: ['get_stock_quote', 'get_quote'],
+  percentile: 90,
+  minSamples: 5,
+  fallbackDelayMs: 1000,
+  minDelayMs: 100,
+};
+
+/**
+ * How long to wait for the first source before asking the next one
+ * @param observedMs - The first source's latency at the configured percentile, null without enough calls
+ */
+export function hedgeDelayMs(config: HedgingConfig, observedMs: number | null): number {
+  return Math.max(config.minDelayMs, observedMs ?? config.fallbackDelayMs);
+}
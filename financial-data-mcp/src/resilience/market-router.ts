@@ -1,47 +1,20 @@
 import type { ApiSource } from '../types.js';
 import { logger } from '../logger.js';
+import { providerRegistry } from '../providers/index.js';
+import { parseSymbol, type Exchange } from '../symbols/index.js';
 
-export type Market = 'US' | 'SH' | 'SZ' | 'BJ' | 'HK' | 'UNKNOWN';
-
-const MARKET_SOURCE_MAP: Record<Market, ApiSource[]> = {
-  'US': ['finnhub', 'twelvedata', 'tiingo', 'alphavantage'],
-  'SH': ['sina', 'eastmoney'],
-  'SZ': ['sina', 'eastmoney'],
-  'BJ': ['sina', 'eastmoney'],
-  'HK': ['finnhub', 'twelvedata', 'sina'],
-  'UNKNOWN': ['finnhub', 'alphavantage'],
-};
+export type Market = Exchange | 'UNKNOWN';
 
 export function getMarketFromSymbol(symbol: string): Market {
-  const upper = symbol.toUpperCase();
-
-  if (upper.endsWith('.SH') || upper.endsWith('.SS')) return 'SH';
-  if (upper.endsWith('.SZ')) return 'SZ';
-  if (upper.endsWith('.BJ')) return 'BJ';
-  if (upper.endsWith('.HK')) return 'HK';
-  if (upper.endsWith('.US') || upper.endsWith('.N') || upper.endsWith('.O')) return 'US';
-
-  if (/^SH\d{6}$/i.test(symbol)) return 'SH';
-  if (/^SZ\d{6}$/i.test(symbol)) return 'SZ';
-  if (/^BJ\d{6}$/i.test(symbol)) return 'BJ';
-
-  const code = symbol.replace(/\D/g, '');
-  if (code.length === 6) {
-    const prefix = code.substring(0, 1);
-    if (prefix === '6' || prefix === '5') return 'SH';
-    if (prefix === '0' || prefix === '3' || prefix === '2') return 'SZ';
-    if (prefix === '4' || prefix === '8') return 'BJ';
-  }
-
-  if (code.length === 5 && /^\d{5}$/.test(code)) return 'HK';
-
-  if (/^[A-Z]{1,5}$/.test(symbol)) return 'US';
-
-  return 'UNKNOWN';
+  return parseSymbol(symbol)?.exchange ?? 'UNKNOWN';
 }
 
+/**
+ * Registered providers covering a market, falling back to those taking symbols of unknown market
+ */
 export function getSourcesForMarket(market: Market): ApiSource[] {
-  return MARKET_SOURCE_MAP[market] || MARKET_SOURCE_MAP['UNKNOWN'];
+  const covering = providerRegistry.getIdsForMarket(market);
+  return covering.length > 0 ? covering : providerRegistry.getIdsForMarket('UNKNOWN');
 }
 
 export function getSourcesForSymbol(symbol: string): ApiSource[] {
@@ -67,24 +40,19 @@ export function isHKStock(symbol: string): boolean {
 export class MarketRouter {
   private customMarketSources: Map<Market, ApiSource[]> = new Map();
 
-  constructor() {
-    this.loadFromEnv();
+  constructor(marketSources?: Partial<Record<Market, ApiSource[]>>) {
+    if (marketSources) {
+      this.configure(marketSources);
+    }
   }
 
-  private loadFromEnv(): void {
-    const markets: Market[] = ['US', 'SH', 'SZ', 'BJ', 'HK'];
-    for (const market of markets) {
-      const envKey = `MARKET_SOURCES_${market}`;
-      const envValue = process.env[envKey];
-      if (envValue) {
-        const sources = envValue.split(',')
-          .map(s => s.trim().toLowerCase() as ApiSource)
-          .filter(Boolean);
-        if (sources.length > 0) {
-          this.customMarketSources.set(market, sources);
-          logger.debug('Custom market sources loaded', { market, sources });
-        }
-      }
+  /**
+   * Replaces all custom market sources, typically from the loaded AppConfig
+   */
+  configure(marketSources: Partial<Record<Market, ApiSource[]>>): void {
+    this.customMarketSources = new Map(Object.entries(marketSources) as [Market, ApiSource[]][]);
+    if (this.customMarketSources.size > 0) {
+      logger.debug('Custom market sources loaded', { marketSources });
     }
   }
 
@@ -94,7 +62,7 @@ export class MarketRouter {
     if (custom) {
       return custom;
     }
-    return MARKET_SOURCE_MAP[market] || MARKET_SOURCE_MAP['UNKNOWN'];
+    return getSourcesForMarket(market);
   }
 
   setMarketSources(market: Market, sources: ApiSource[]): void {
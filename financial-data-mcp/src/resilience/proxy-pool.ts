@@ -1,3 +1,12 @@
+/**
+ * Proxy pool
+ * Rotates provider traffic over HTTP/HTTPS and SOCKS5 proxies, taking proxies that keep failing out
+ * for a cooldown, and decides per provider whether its requests are proxied at all
+ */
+
+import { ProxyAgent, Socks5ProxyAgent, type Dispatcher } from 'undici';
+import type { ProxyMode, ProxyPoolStatus } from '../types.js';
+import { ProviderError } from '../api/errors.js';
 import { logger } from '../logger.js';
 
 export interface ProxyConfig {
@@ -17,43 +26,89 @@ export interface ProxyPoolConfig {
   cooldownMs?: number;
   maxFailures?: number;
   rotationStrategy?: 'round-robin' | 'random' | 'weighted';
+  /** Mode of providers without their own, 'prefer' by default */
+  mode?: ProxyMode;
+  /** Per-provider modes, e.g. { sina: 'require', finnhub: 'direct' } */
+  providers?: Record<string, ProxyMode>;
 }
 
 const DEFAULT_COOLDOWN_MS = 60000;
 const DEFAULT_MAX_FAILURES = 3;
 
+/**
+ * Strips credentials from a proxy URL so it can be logged or reported
+ */
+export function redactProxyUrl(url: string): string {
+  return url.replace(/\/\/[^/@]*@/, '//***@');
+}
+
+/**
+ * @returns Undefined for URLs that are not an HTTP, HTTPS or SOCKS5 proxy
+ */
+export function proxyProtocol(url: string): ProxyConfig['protocol'] {
+  const protocol = URL.canParse(url) ? new URL(url).protocol : '';
+  switch (protocol) {
+    case 'http:':
+      return 'http';
+    case 'https:':
+      return 'https';
+    case 'socks:':
+    case 'socks5:':
+      return 'socks5';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Builds the fetch dispatcher that tunnels requests through the proxy, with the credentials in its URL
+ */
+function createDispatcher(proxy: ProxyConfig): Dispatcher {
+  return proxy.protocol === 'socks5' ? new Socks5ProxyAgent(proxy.url) : new ProxyAgent(proxy.url);
+}
+
 export class ProxyPool {
   private proxies: ProxyConfig[] = [];
   private currentIndex: number = 0;
-  private readonly cooldownMs: number;
-  private readonly maxFailures: number;
-  private readonly rotationStrategy: 'round-robin' | 'random' | 'weighted';
+  private cooldownMs: number = DEFAULT_COOLDOWN_MS;
+  private maxFailures: number = DEFAULT_MAX_FAILURES;
+  private rotationStrategy: 'round-robin' | 'random' | 'weighted' = 'round-robin';
+  private mode: ProxyMode = 'prefer';
+  private providerModes: Record<string, ProxyMode> = {};
+  private readonly dispatchers: Map<string, Dispatcher> = new Map();
 
   constructor(config?: ProxyPoolConfig) {
-    this.cooldownMs = config?.cooldownMs ?? DEFAULT_COOLDOWN_MS;
-    this.maxFailures = config?.maxFailures ?? DEFAULT_MAX_FAILURES;
-    this.rotationStrategy = config?.rotationStrategy ?? 'round-robin';
-
-    if (config?.proxies) {
-      this.addProxies(config.proxies);
+    if (config) {
+      this.configure(config);
     }
-
-    this.loadFromEnv();
   }
 
-  private loadFromEnv(): void {
-    const envProxies = process.env.PROXY_POOL;
-    if (envProxies) {
-      const proxyList = envProxies.split(',').map(p => p.trim()).filter(Boolean);
-      this.addProxies(proxyList);
+  /**
+   * Applies pool settings and replaces the proxy list, typically from the loaded AppConfig
+   */
+  configure(config: ProxyPoolConfig): void {
+    this.cooldownMs = config.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.maxFailures = config.maxFailures ?? DEFAULT_MAX_FAILURES;
+    this.rotationStrategy = config.rotationStrategy ?? 'round-robin';
+    this.mode = config.mode ?? 'prefer';
+    this.providerModes = { ...config.providers };
+    this.clear();
+    if (config.proxies) {
+      this.addProxies(config.proxies);
     }
   }
 
   addProxies(proxyUrls: string[]): void {
     for (const url of proxyUrls) {
+      const protocol = proxyProtocol(url);
+      if (!protocol) {
+        logger.warn('Ignoring proxy with unsupported protocol', { url: redactProxyUrl(url) });
+        continue;
+      }
       if (!this.proxies.find(p => p.url === url)) {
         this.proxies.push({
           url,
+          protocol,
           weight: 1,
           failureCount: 0,
           inCooldown: false,
@@ -74,7 +129,7 @@ export class ProxyPool {
       if (proxy.inCooldown && proxy.cooldownUntil && proxy.cooldownUntil <= now) {
         proxy.inCooldown = false;
         proxy.failureCount = 0;
-        logger.debug('Proxy cooldown expired', { url: proxy.url });
+        logger.debug('Proxy cooldown expired', { url: redactProxyUrl(proxy.url) });
       }
     }
 
@@ -115,6 +170,48 @@ export class ProxyPool {
     return selected;
   }
 
+  getMode(source: string): ProxyMode {
+    return this.providerModes[source] ?? this.mode;
+  }
+
+  /**
+   * Picks the proxy for a provider's next request
+   * @returns null when the request goes direct, by the provider's mode or because no proxy is available under 'prefer'
+   * @throws ProviderError TRANSIENT when the provider requires a proxy and none is available
+   */
+  getProxyFor(source: string): ProxyConfig | null {
+    const mode = this.getMode(source);
+    if (mode === 'direct') {
+      return null;
+    }
+    const proxy = this.getNextProxy();
+    if (!proxy && mode === 'require') {
+      throw new ProviderError('TRANSIENT', source, this.proxies.length === 0
+        ? `${source} requires a proxy but the proxy pool is empty`
+        : `No proxy available for ${source}: all ${this.proxies.length} are in cooldown`);
+    }
+    return proxy;
+  }
+
+  /**
+   * Whether the provider's requests can be sent under its mode
+   */
+  canRoute(source: string): boolean {
+    return this.getMode(source) !== 'require' || this.hasAvailableProxy();
+  }
+
+  /**
+   * The fetch dispatcher for the proxy, created on first use and reused so connections are pooled
+   */
+  getDispatcher(proxy: ProxyConfig): Dispatcher {
+    let dispatcher = this.dispatchers.get(proxy.url);
+    if (!dispatcher) {
+      dispatcher = createDispatcher(proxy);
+      this.dispatchers.set(proxy.url, dispatcher);
+    }
+    return dispatcher;
+  }
+
   markSuccess(proxyUrl: string): void {
     const proxy = this.proxies.find(p => p.url === proxyUrl);
     if (proxy) {
@@ -132,7 +229,7 @@ export class ProxyPool {
       if (proxy.failureCount >= this.maxFailures) {
         proxy.inCooldown = true;
         proxy.cooldownUntil = Date.now() + this.cooldownMs;
-        logger.warn('Proxy put in cooldown', { url: proxyUrl, failures: proxy.failureCount });
+        logger.warn('Proxy put in cooldown', { url: redactProxyUrl(proxyUrl), failures: proxy.failureCount });
       }
     }
   }
@@ -151,9 +248,38 @@ export class ProxyPool {
     return this.proxies.filter(p => !p.inCooldown || (p.cooldownUntil && p.cooldownUntil <= now)).length;
   }
 
+  /**
+   * Reports every proxy with its failures and cooldown, credentials redacted
+   */
+  getStatus(): ProxyPoolStatus {
+    const now = Date.now();
+    return {
+      total: this.proxies.length,
+      available: this.getAvailableCount(),
+      rotationStrategy: this.rotationStrategy,
+      mode: this.mode,
+      providerModes: { ...this.providerModes },
+      proxies: this.proxies.map(proxy => {
+        const inCooldown = Boolean(proxy.inCooldown && proxy.cooldownUntil && proxy.cooldownUntil > now);
+        return {
+          url: redactProxyUrl(proxy.url),
+          protocol: proxy.protocol ?? 'http',
+          weight: proxy.weight ?? 1,
+          failureCount: proxy.failureCount ?? 0,
+          inCooldown,
+          cooldownUntil: inCooldown ? new Date(proxy.cooldownUntil as number).toISOString() : undefined,
+        };
+      }),
+    };
+  }
+
   clear(): void {
     this.proxies = [];
     this.currentIndex = 0;
+    for (const dispatcher of this.dispatchers.values()) {
+      dispatcher.close().catch(() => undefined);
+    }
+    this.dispatchers.clear();
   }
 }
 
@@ -0,0 +1,122 @@
+/**
+ * Daily quota ledger
+ * Counts requests per provider key and UTC day, optionally persisted to a JSON file
+ * so a restart does not hand a spent daily budget back
+ */
+
+import * as fs from 'fs';
+import { logger } from '../logger.js';
+import { writeStateFile } from './state-file.js';
+
+interface LedgerEntry {
+  /** UTC day the count belongs to, YYYY-MM-DD */
+  day: string;
+  count: number;
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** How long the ledger gathers counts before writing them out */
+const PERSIST_DELAY_MS = 1000;
+
+export function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * When the daily budgets counted on `now`'s day reset
+ */
+export function nextUtcMidnight(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+}
+
+/**
+ * Counts are written in the background at most once per persistDelayMs, so a crash loses at most
+ * the last few requests' counts
+ */
+export class QuotaLedger {
+  private readonly entries: Map<string, LedgerEntry> = new Map();
+  private persistTimer?: ReturnType<typeof setTimeout>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - JSON file the counts are loaded from and written to; kept in memory only when omitted
+   */
+  constructor(private readonly filePath?: string, private readonly persistDelayMs = PERSIST_DELAY_MS) {
+    this.load();
+  }
+
+  /**
+   * Requests counted today for the ledger id
+   */
+  getCount(id: string, now: number = Date.now()): number {
+    const entry = this.entries.get(id);
+    return entry?.day === utcDay(now) ? entry.count : 0;
+  }
+
+  increment(id: string, now: number = Date.now()): number {
+    const day = utcDay(now);
+    const entry = this.entries.get(id);
+    const count = entry?.day === day ? entry.count + 1 : 1;
+    this.entries.set(id, { day, count });
+    this.schedulePersist();
+    return count;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.schedulePersist();
+  }
+
+  /**
+   * Writes pending counts now rather than when the delay runs out
+   */
+  flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+      // Writes run one after another so an older snapshot never replaces a newer one
+      this.writing = this.writing.then(() => this.write());
+    }
+    return this.writing;
+  }
+
+  private load(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, LedgerEntry>;
+      for (const [id, entry] of Object.entries(stored)) {
+        if (typeof entry?.day === 'string' && typeof entry.count === 'number') {
+          this.entries.set(id, entry);
+        }
+      }
+      logger.debug('Quota ledger loaded from disk', { filePath: this.filePath, entries: this.entries.size });
+    } catch (error) {
+      logger.warn('Failed to load quota ledger, starting from zero', {
+        filePath: this.filePath,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => void this.flush(), this.persistDelayMs);
+    this.persistTimer.unref?.();
+  }
+
+  private async write(): Promise<void> {
+    try {
+      await writeStateFile(this.filePath!, JSON.stringify(Object.fromEntries(this.entries)));
+    } catch (error) {
+      logger.warn('Failed to persist quota ledger', { filePath: this.filePath, error: (error as Error).message });
+    }
+  }
+}
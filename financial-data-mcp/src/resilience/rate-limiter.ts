@@ -0,0 +1,224 @@
+/**
+ * Proactive rate limiting
+ * Token buckets per provider and key hold calls to the published per-second and per-minute limits
+ * and to the minimum interval of endpoints that ban bursting IPs; daily budgets are counted in the quota ledger.
+ * A call the limits would reject waits briefly for a token, or fails with RATE_LIMITED before reaching the provider.
+ */
+
+import { createHash } from 'crypto';
+import type { ApiKeyInfo, ApiSource, DailyUsage } from '../types.js';
+import type { ProviderRateLimit } from '../providers/registry.js';
+import { ProviderError } from '../api/errors.js';
+import { QuotaLedger, nextUtcMidnight } from './quota-ledger.js';
+import { defaultStateFile } from './state-file.js';
+import { logger } from '../logger.js';
+import { providerRegistry } from '../providers/index.js';
+
+/** A provider's limits overriding its declared ones, with further overrides per key index */
+export interface RateLimitOverride extends ProviderRateLimit {
+  keys?: Record<string, ProviderRateLimit>;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  /** Longest a call waits for a token before failing over instead */
+  maxWaitMs: number;
+  /** File the daily quota ledger is kept in; counts are kept in memory only when unset */
+  ledgerPath?: string;
+  /** Per-provider overrides of the limits declared in the provider registry */
+  providers: Record<string, RateLimitOverride>;
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: true,
+  maxWaitMs: 1000,
+  ledgerPath: defaultStateFile('quota'),
+  providers: {},
+};
+
+type RateLimitedKey = Pick<ApiKeyInfo, 'index' | 'key'>;
+
+/**
+ * Raised instead of making a call the limits do not allow
+ */
+export class RateLimitExceededError extends ProviderError {
+  constructor(source: ApiSource, message: string, public readonly retryAt: number) {
+    super('RATE_LIMITED', source, message);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * @param capacity - Calls that may be made back to back
+   * @param msPerToken - Time to earn back one call
+   */
+  constructor(private readonly capacity: number, private readonly msPerToken: number, now: number) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / this.msPerToken);
+    this.updatedAt = now;
+  }
+
+  /**
+   * How long until a call may be made, zero when one may be made now
+   */
+  waitMs(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.msPerToken);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+}
+
+function createBuckets(limits: ProviderRateLimit, now: number): TokenBucket[] {
+  const buckets: TokenBucket[] = [];
+  if (limits.requestsPerSecond) {
+    buckets.push(new TokenBucket(limits.requestsPerSecond, 1000 / limits.requestsPerSecond, now));
+  }
+  if (limits.requestsPerMinute) {
+    buckets.push(new TokenBucket(limits.requestsPerMinute, 60_000 / limits.requestsPerMinute, now));
+  }
+  if (limits.minIntervalMs) {
+    buckets.push(new TokenBucket(1, limits.minIntervalMs, now));
+  }
+  return buckets;
+}
+
+export class RateLimiter {
+  private readonly config: RateLimitConfig;
+  private readonly ledger: QuotaLedger;
+  private readonly buckets: Map<string, TokenBucket[]> = new Map();
+
+  /**
+   * Without a ledgerPath the daily counts live in memory, as in tests
+   */
+  constructor(config: Partial<RateLimitConfig> = {}) {
+    this.config = {
+      enabled: config.enabled ?? DEFAULT_RATE_LIMIT_CONFIG.enabled,
+      maxWaitMs: config.maxWaitMs ?? DEFAULT_RATE_LIMIT_CONFIG.maxWaitMs,
+      ledgerPath: config.ledgerPath,
+      providers: config.providers ?? {},
+    };
+    this.ledger = new QuotaLedger(config.ledgerPath);
+  }
+
+  /**
+   * The provider's declared limits with the configured overrides for it and for the key applied
+   */
+  getLimits(source: ApiSource, keyIndex?: number): ProviderRateLimit {
+    const { keys, ...override } = this.config.providers[source] ?? {};
+    return {
+      ...providerRegistry.get(source)?.rateLimit,
+      ...override,
+      ...(keyIndex === undefined ? undefined : keys?.[String(keyIndex)]),
+    };
+  }
+
+  /**
+   * Waits until the limits allow a call with the key, then counts it
+   * @throws RateLimitExceededError when the daily budget is spent or the wait would exceed maxWaitMs
+   */
+  async acquire(source: ApiSource, apiKey?: RateLimitedKey): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+    const limits = this.getLimits(source, apiKey?.index);
+    const id = this.ledgerId(source, apiKey);
+
+    for (;;) {
+      const now = Date.now();
+      if (limits.requestsPerDay !== undefined && this.ledger.getCount(id, now) >= limits.requestsPerDay) {
+        const retryAt = nextUtcMidnight(now);
+        throw new RateLimitExceededError(
+          source,
+          `${this.providerName(source)} daily budget of ${limits.requestsPerDay} requests is spent until ${new Date(retryAt).toISOString()}`,
+          retryAt
+        );
+      }
+
+      const buckets = this.getBuckets(id, limits, now);
+      const waitMs = Math.max(0, ...buckets.map(bucket => bucket.waitMs(now)));
+      if (waitMs === 0) {
+        buckets.forEach(bucket => bucket.take(now));
+        if (limits.requestsPerDay !== undefined) {
+          this.ledger.increment(id, now);
+        }
+        return;
+      }
+      if (waitMs > this.config.maxWaitMs) {
+        throw new RateLimitExceededError(
+          source,
+          `${this.providerName(source)} rate limit allows the next request in ${waitMs} ms`,
+          now + waitMs
+        );
+      }
+
+      logger.debug('Waiting for rate limit', { source, keyIndex: apiKey?.index, waitMs });
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Whether the key, or a keyless provider, has requests left in today's budget
+   */
+  hasDailyBudget(source: ApiSource, apiKey?: RateLimitedKey): boolean {
+    const usage = this.getDailyUsage(source, apiKey);
+    return !this.config.enabled || !usage || usage.used < usage.limit;
+  }
+
+  /**
+   * Today's count against the daily budget, undefined when the key has none
+   */
+  getDailyUsage(source: ApiSource, apiKey?: RateLimitedKey): DailyUsage | undefined {
+    const limit = this.getLimits(source, apiKey?.index).requestsPerDay;
+    if (limit === undefined) {
+      return undefined;
+    }
+    const now = Date.now();
+    return {
+      used: this.ledger.getCount(this.ledgerId(source, apiKey), now),
+      limit,
+      resetsAt: new Date(nextUtcMidnight(now)).toISOString(),
+    };
+  }
+
+  /**
+   * Writes the daily counts the ledger has not saved yet
+   */
+  flush(): Promise<void> {
+    return this.ledger.flush();
+  }
+
+  /**
+   * Keys are identified by a hash so the ledger never holds them and survives reordering
+   */
+  private ledgerId(source: ApiSource, apiKey?: RateLimitedKey): string {
+    if (!apiKey) {
+      return source;
+    }
+    return `${source}:${createHash('sha256').update(apiKey.key).digest('hex').slice(0, 12)}`;
+  }
+
+  private getBuckets(id: string, limits: ProviderRateLimit, now: number): TokenBucket[] {
+    let buckets = this.buckets.get(id);
+    if (!buckets) {
+      buckets = createBuckets(limits, now);
+      this.buckets.set(id, buckets);
+    }
+    return buckets;
+  }
+
+  private providerName(source: ApiSource): string {
+    return providerRegistry.get(source)?.name ?? source;
+  }
+}
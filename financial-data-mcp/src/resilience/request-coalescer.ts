@@ -0,0 +1,72 @@
+/**
+ * In-flight request coalescing
+ * Identical tool calls made while one is already running wait for that call instead of
+ * going upstream themselves, and share its result or error
+ */
+
+import type { CoalescingStats } from '../types.js';
+import { logger } from '../logger.js';
+
+export type { CoalescingStats };
+
+export class RequestCoalescer {
+  private readonly inFlight: Map<string, Promise<unknown>> = new Map();
+  private requests = 0;
+  private coalesced = 0;
+  private readonly coalescedByTool: Map<string, number> = new Map();
+
+  /**
+   * @param enabled - When false every call runs on its own and is only counted
+   */
+  constructor(private readonly enabled: boolean = true) {}
+
+  /**
+   * Runs load unless a call with the same key is in flight, in which case that call's outcome is shared
+   * @param key - Tool name plus normalized arguments, as built by buildCacheKey
+   */
+  async run<T>(tool: string, key: string, load: () => Promise<T>): Promise<T> {
+    this.requests++;
+    const pending = this.enabled ? this.inFlight.get(key) as Promise<T> | undefined : undefined;
+
+    if (pending) {
+      this.coalesced++;
+      this.coalescedByTool.set(tool, (this.coalescedByTool.get(tool) ?? 0) + 1);
+      logger.debug('Coalesced with in-flight request', { tool, key });
+      try {
+        return await pending;
+      } catch (error) {
+        throw ownView(error);
+      }
+    }
+
+    const promise = load();
+    if (this.enabled) {
+      this.inFlight.set(key, promise);
+      promise.then(
+        () => this.inFlight.delete(key),
+        () => this.inFlight.delete(key)
+      );
+    }
+    return promise;
+  }
+
+  getStats(): CoalescingStats {
+    return {
+      enabled: this.enabled,
+      requests: this.requests,
+      coalesced: this.coalesced,
+      inFlight: this.inFlight.size,
+      coalescedByTool: Object.fromEntries(this.coalescedByTool),
+    };
+  }
+}
+
+/**
+ * Gives a waiter its own view of the shared error. Code, message and type are inherited, but the
+ * view has its own `meta`, so the leading call's provenance never shows up on another call's error.
+ */
+function ownView(error: unknown): unknown {
+  return error instanceof Error
+    ? Object.create(error, { meta: { value: undefined, writable: true, enumerable: true, configurable: true } })
+    : error;
+}
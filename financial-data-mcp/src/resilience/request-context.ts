@@ -0,0 +1,66 @@
+/**
+ * Per-request context carried across async calls into the API clients
+ * Lets the resilience layer hand an AbortSignal and a proxy to fetch without threading them through every client method
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Dispatcher } from 'undici';
+import type { ApiKeyInfo, ApiSource, RateLimitInfo, ToolResultMeta } from '../types.js';
+
+export interface RequestContext {
+  /** Aborts the underlying fetch when the request times out or is cancelled */
+  signal?: AbortSignal;
+  /** Sends the underlying fetch through the proxy picked for the request */
+  dispatcher?: Dispatcher;
+  /** Collects failover provenance when the caller asked for it */
+  meta?: ToolResultMeta;
+  /** Receives the quota headers of responses made with the current API key */
+  onRateLimit?: (info: RateLimitInfo) => void;
+  /** Key rotation's pick for the request, so the key sent is the one charged and marked on failure */
+  apiKey?: { source: ApiSource; key: ApiKeyInfo };
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs fn with the given context merged over the current one
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function getRequestSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+/**
+ * Adds the request's AbortSignal and proxy dispatcher to fetch options.
+ * Node's fetch takes the dispatcher although the DOM RequestInit type does not declare it.
+ */
+export function fetchOptions(init: RequestInit = {}): RequestInit {
+  const context = storage.getStore();
+  return { ...init, signal: context?.signal, dispatcher: context?.dispatcher } as RequestInit;
+}
+
+/**
+ * The key picked for the request to the source, undefined outside key rotation
+ */
+export function getRequestApiKey(source: ApiSource): ApiKeyInfo | undefined {
+  const apiKey = storage.getStore()?.apiKey;
+  return apiKey?.source === source ? apiKey.key : undefined;
+}
+
+export function getRequestMeta(): ToolResultMeta | undefined {
+  return storage.getStore()?.meta;
+}
+
+/**
+ * Passes a provider's quota headers to whoever is tracking the key the request used
+ */
+export function reportRateLimit(info: RateLimitInfo): void {
+  storage.getStore()?.onRateLimit?.(info);
+}
@@ -1,10 +1,71 @@
-import type { ApiSource, FailoverAttempt, CascadingFailoverResult, SourceExecutor, ResilienceConfig } from '../types.js';
+import type {
+  ApiSource,
+  ApiKeyInfo,
+  FailoverAttempt,
+  CascadingFailoverResult,
+  SourceExecutor,
+  ResilienceConfig,
+  NormalizedQuote,
+  PriceSeries,
+  NewsFeed,
+  CompanyProfile,
+  CompanyMetrics,
+  FinancialStatement,
+  FinancialStatementSet,
+  FinancialsStatementType,
+  ReportingPeriod,
+  StatementType,
+  IndicatorSeries,
+  IndexConstituents,
+  BatchQuoteEntry,
+  BatchQuotes,
+  ToolResultMeta,
+  ToolResponse,
+  HealthCheckResult,
+  ProviderStatus,
+  ProviderStatusReport,
+  ConsensusReport,
+} from '../types.js';
 import { logger } from '../logger.js';
 import { KeyManager } from './api-key-manager.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { withRetry } from './api-retry.js';
+import { withAbortableTimeout, getApiTimeout } from './api-timeout.js';
+import { runWithRequestContext, getRequestApiKey, getRequestMeta, getRequestSignal } from './request-context.js';
 import { sourceRouter } from './source-router.js';
-import { isRateLimitError, shouldFailoverToNextSource } from './error-detection.js';
-import { SinaClient } from '../api/sina.js';
-import { EastMoneyClient } from '../api/eastmoney.js';
+import { SourceRanker } from './source-ranking.js';
+import { DEFAULT_HEDGING_CONFIG, hedgeDelayMs, type HedgingConfig } from './hedging.js';
+import {
+  DEFAULT_CONSENSUS_CONFIG,
+  reconcileQuotes,
+  reconcilePriceSeries,
+  type ConsensusConfig,
+  type Reconciled,
+} from './consensus.js';
+import {
+  classifyError,
+  isProxyFailure,
+  isSourceFailure,
+  shouldFailoverToNextSource,
+  shouldRetrySameSource,
+  shouldRetryWithDifferentKey,
+  toToolError,
+  RequestCancelledError,
+  SourcesExhaustedError,
+  type ErrorWithMeta,
+} from './error-detection.js';
+import { ProviderError } from '../api/errors.js';
+import { ResponseCache, buildCacheKey } from './response-cache.js';
+import { RequestCoalescer } from './request-coalescer.js';
+import { SourceStats } from './source-stats.js';
+import { RateLimiter, RateLimitExceededError } from './rate-limiter.js';
+import { proxyPool, redactProxyUrl } from './proxy-pool.js';
+import { DEFAULT_RESILIENCE_CONFIG } from '../config/index.js';
+import { normalizeToolResult, statementsFor } from '../normalize/index.js';
+import type { SinaClient } from '../api/sina.js';
+import type { EastMoneyClient } from '../api/eastmoney.js';
+import { MAX_BATCH_SYMBOLS } from '../tools/index.js';
+import { providerRegistry } from '../providers/index.js';
 
 export interface ApiClient {
   getStockQuote(symbol: string): Promise<any>;
@@ -19,61 +80,271 @@ export interface ApiClient {
   getCashFlow(symbol: string): Promise<any>;
   getTechnicalIndicator(symbol: string, indicator: string, interval: string, time_period: string): Promise<any>;
   getQuote?(symbol: string): Promise<any>;
+  getIndexConstituents?(symbol: string): Promise<any>;
 }
 
-const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
-  apiFailoverEnabled: true,
-  primaryApiSource: 'finnhub',
-  secondaryApiSource: 'alphavantage',
-  retryEnabled: true,
-  retryMaxAttempts: 3,
-  retryInitialDelayMs: 1000,
-  retryMaxDelayMs: 10000,
-  apiTimeoutMs: 30000,
-  circuitBreakerEnabled: true,
-  circuitBreakerFailureThreshold: 5,
-  circuitBreakerTimeoutMs: 60000,
-  circuitBreakerHalfOpenAttempts: 3,
-  keyRotationEnabled: true,
-  keyRotationResetWindowMs: 3600000,
+export interface ResilientApiClientOptions {
+  cache?: ResponseCache;
+  /** Reorders each tool's sources by their recent calls; defaults to one with the default settings */
+  sourceRanker?: SourceRanker;
+  /** Asks the next source as well when the first is slow to answer; off by default */
+  hedging?: Partial<HedgingConfig>;
+  /** How many sources consensus calls ask and how far their answers may differ */
+  consensus?: Partial<ConsensusConfig>;
+  /** Shares identical calls in flight; defaults to an enabled one */
+  coalescer?: RequestCoalescer;
+  /** Limiter holding calls to each provider's rate limits; defaults to one with an in-memory quota ledger */
+  rateLimiter?: RateLimiter;
+  /** Comma-separated keys per provider; providers without an entry read their env var */
+  apiKeys?: Partial<Record<ApiSource, string>>;
+  /** Per-provider settings handed to each provider's createClient */
+  providers?: Record<ApiSource, object>;
+  /** Ready-made clients by provider id, used instead of creating them from the provider registry */
+  clients?: Record<ApiSource, unknown>;
+}
+
+const PERIOD_RESOLUTIONS: Record<string, string> = {
+  daily: 'D',
+  weekly: 'W',
+  monthly: 'M',
+};
+
+/** Alpha Vantage's compact daily series covers the latest 100 trading days */
+const COMPACT_DAILY_SERIES_DAYS = 100;
+
+const STATEMENT_METHODS: Record<StatementType, string> = {
+  income: 'getIncomeStatement',
+  balance: 'getBalanceSheet',
+  cashflow: 'getCashFlow',
 };
 
+export interface ProviderStatusOptions {
+  /** Report only this provider */
+  source?: ApiSource;
+  /** Run each configured provider's health check instead of reporting the last result */
+  checkHealth?: boolean;
+  /** Explain how this tool's sources are scored and ordered */
+  tool?: string;
+  /** Symbol whose market filters the ranked sources */
+  symbol?: string;
+}
+
+function unsupported(source: ApiSource, what: string): ProviderError {
+  return new ProviderError('UNSUPPORTED_BY_SOURCE', source, `${source} does not support ${what}`);
+}
+
+/**
+ * Rejects with the signal's reason once it is aborted
+ */
+function rejectWhenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    }
+  });
+}
+
+/** Symbols waiting on one native batch request, resolved once every symbol has been queued */
+interface PendingQuoteBatch {
+  sources: ApiSource[];
+  symbols: string[];
+  ready: Promise<Map<string, NormalizedQuote>>;
+  resolve: (quotes: Promise<Map<string, NormalizedQuote>>) => void;
+}
+
+/**
+ * Returns a runner that allows at most `limit` of its tasks in flight at once
+ */
+function createLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    const run = () => {
+      active++;
+      task().then(resolve, reject).finally(next);
+    };
+    if (active < limit) {
+      run();
+    } else {
+      queue.push(run);
+    }
+  });
+}
+
 export class ResilientApiClient implements ApiClient {
-  private circuitBreakers: Map<string, any> = new Map();
+  private clients: Map<ApiSource, any> = new Map();
+  private circuitBreakers: Map<ApiSource, CircuitBreaker> = new Map();
   private keyManagers: Map<ApiSource, KeyManager> = new Map();
   private failoverManager: any;
   private readonly config: ResilienceConfig;
-  public readonly finnhubClient: any;
-  public readonly alphavantageClient: any;
-  public readonly twelvedataClient: any;
-  public readonly tiingoClient: any;
-  public readonly sinaClient: SinaClient;
-  public readonly eastmoneyClient: EastMoneyClient;
+  private readonly cache: ResponseCache;
+  private readonly rateLimiter: RateLimiter;
+  private readonly coalescer: RequestCoalescer;
+  private readonly sourceRanker: SourceRanker;
+  private readonly hedging: HedgingConfig;
+  private readonly consensus: ConsensusConfig;
+  private readonly sourceStats: SourceStats = new SourceStats();
+  private readonly healthResults: Map<ApiSource, HealthCheckResult> = new Map();
 
+  /**
+   * Clients passed here, or in options.clients, take the place of those the provider registry would create;
+   * every other registered provider gets a client from its createClient
+   */
   constructor(
-    finnhubClient: any,
-    alphavantageClient: any,
+    finnhubClient?: any,
+    alphavantageClient?: any,
     twelvedataClient?: any,
     tiingoClient?: any,
-    config?: Partial<ResilienceConfig>
+    config?: Partial<ResilienceConfig>,
+    options?: ResilientApiClientOptions
   ) {
-    this.finnhubClient = finnhubClient;
-    this.alphavantageClient = alphavantageClient;
-    this.twelvedataClient = twelvedataClient;
-    this.tiingoClient = tiingoClient;
-    this.sinaClient = new SinaClient();
-    this.eastmoneyClient = new EastMoneyClient();
     this.config = { ...DEFAULT_RESILIENCE_CONFIG, ...config };
-    this.initializeKeyManagers();
+    this.cache = options?.cache ?? new ResponseCache();
+    this.rateLimiter = options?.rateLimiter ?? new RateLimiter();
+    this.coalescer = options?.coalescer ?? new RequestCoalescer();
+    this.sourceRanker = options?.sourceRanker ?? new SourceRanker();
+    this.hedging = { ...DEFAULT_HEDGING_CONFIG, ...options?.hedging };
+    this.consensus = { ...DEFAULT_CONSENSUS_CONFIG, ...options?.consensus };
+    this.initializeClients({
+      finnhub: finnhubClient,
+      alphavantage: alphavantageClient,
+      twelvedata: twelvedataClient,
+      tiingo: tiingoClient,
+      ...options?.clients,
+    }, options);
+    this.initializeKeyManagers(options?.apiKeys);
+    this.initializeCircuitBreakers();
   }
 
-  private initializeKeyManagers(): void {
-    const sources: ApiSource[] = ['finnhub', 'alphavantage', 'twelvedata', 'tiingo'];
-    for (const source of sources) {
-      if (this.getClientForSource(source)) {
-        this.keyManagers.set(source, new KeyManager(source, this.config));
-        logger.debug(`Initialized KeyManager for ${source}`);
+  /**
+   * Creates a client for every registered provider, built-in or plugin
+   */
+  static create(config?: Partial<ResilienceConfig>, options?: ResilientApiClientOptions): ResilientApiClient {
+    return new ResilientApiClient(undefined, undefined, undefined, undefined, config, options);
+  }
+
+  get finnhubClient(): any {
+    return this.clients.get('finnhub');
+  }
+
+  get alphavantageClient(): any {
+    return this.clients.get('alphavantage');
+  }
+
+  get twelvedataClient(): any {
+    return this.clients.get('twelvedata');
+  }
+
+  get tiingoClient(): any {
+    return this.clients.get('tiingo');
+  }
+
+  get sinaClient(): SinaClient {
+    return this.clients.get('sina');
+  }
+
+  get eastmoneyClient(): EastMoneyClient {
+    return this.clients.get('eastmoney');
+  }
+
+  private initializeClients(supplied: Record<ApiSource, unknown>, options?: ResilientApiClientOptions): void {
+    for (const provider of providerRegistry.list()) {
+      const client = supplied[provider.id] ?? provider.createClient({
+        apiKey: options?.apiKeys?.[provider.id],
+        settings: (options?.providers?.[provider.id] ?? {}) as Record<string, unknown>,
+      });
+      if (client) {
+        this.clients.set(provider.id, client);
+      }
+    }
+    logger.debug('Provider clients initialized', { sources: [...this.clients.keys()] });
+  }
+
+  private initializeKeyManagers(apiKeys?: Partial<Record<ApiSource, string>>): void {
+    for (const [source, client] of this.clients) {
+      if (!providerRegistry.get(source)?.apiKeyEnvVar) {
+        continue;
+      }
+      const keyManager = new KeyManager(source, this.config, apiKeys?.[source]);
+      this.keyManagers.set(source, keyManager);
+      if (keyManager.getTotalKeyCount() > 0) {
+        client.setKeyProvider?.(() => getRequestApiKey(source)?.key ?? keyManager.getCurrentKey());
+      }
+      logger.debug(`Initialized KeyManager for ${source}`);
+    }
+  }
+
+  private initializeCircuitBreakers(): void {
+    for (const source of this.clients.keys()) {
+      this.circuitBreakers.set(source, new CircuitBreaker(source, this.config));
+    }
+  }
+
+  getCircuitBreaker(source: ApiSource): CircuitBreaker | undefined {
+    return this.circuitBreakers.get(source);
+  }
+
+  /**
+   * Runs a call against a source through its circuit breaker.
+   * Only errors showing the source is unhealthy count as failures; key problems are handled by key rotation.
+   */
+  private executeWithCircuitBreaker<T>(source: ApiSource, fn: () => Promise<T>): Promise<T> {
+    const breaker = this.circuitBreakers.get(source);
+    if (!breaker) {
+      return fn();
+    }
+    return breaker.execute(fn, isSourceFailure);
+  }
+
+  /**
+   * Runs a single provider call with the provider's timeout, aborting the underlying fetch,
+   * and jittered retry of transient errors. Every attempt first waits for the rate limiter and
+   * goes through its own pick from the proxy pool. Rate limits and rejected keys are left to key rotation.
+   * A signal already in the request context, such as a hedged call's, cancels the fetch as well.
+   */
+  private executeWithRetryAndTimeout<T>(source: ApiSource, operation: string, fn: () => Promise<T>): Promise<T> {
+    const timeoutMs = getApiTimeout(this.config, source);
+    const cancelSignal = getRequestSignal();
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire(source, getRequestApiKey(source) ?? this.getCurrentKey(source));
+        return this.withProxy(source, () =>
+          withAbortableTimeout(signal => runWithRequestContext({ signal }, fn), timeoutMs, source, operation, cancelSignal)
+        );
+      },
+      this.config,
+      { apiName: source, endpoint: operation, tool: operation },
+      shouldRetrySameSource
+    );
+  }
+
+  /**
+   * Runs fn with fetch sent through the proxy the provider's mode picks
+   * @param reportOutcome - Whether the outcome counts towards the proxy's weight and cooldown
+   */
+  private async withProxy<T>(source: ApiSource, fn: () => Promise<T>, reportOutcome = true): Promise<T> {
+    const proxy = proxyPool.getProxyFor(source);
+    if (!proxy) {
+      return fn();
+    }
+    try {
+      const result = await runWithRequestContext({ dispatcher: proxyPool.getDispatcher(proxy) }, fn);
+      if (reportOutcome) proxyPool.markSuccess(proxy.url);
+      return result;
+    } catch (error) {
+      if (reportOutcome && isProxyFailure(error, !providerRegistry.get(source)?.apiKeyEnvVar)) {
+        logger.debug('Request failed through proxy', { source, proxy: redactProxyUrl(proxy.url), error: (error as Error).message });
+        proxyPool.markFailure(proxy.url);
       }
+      throw error;
     }
   }
 
@@ -81,95 +352,533 @@ export class ResilientApiClient implements ApiClient {
     return this.keyManagers.get(source);
   }
 
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  /**
+   * The key the source's client sends next, undefined for keyless providers
+   */
+  private getCurrentKey(source: ApiSource): ApiKeyInfo | undefined {
+    const keyManager = this.keyManagers.get(source);
+    return keyManager?.getKeyInfo(source)[keyManager.getCurrentKeyIndex(source)];
+  }
+
+  getCache(): ResponseCache {
+    return this.cache;
+  }
+
+  getCoalescer(): RequestCoalescer {
+    return this.coalescer;
+  }
+
+  /**
+   * Serves the call from the cache or, on a miss, from an identical call already in flight before loading it
+   */
+  private async withCache<T>(toolName: string, params: Record<string, unknown>, load: () => Promise<T>): Promise<T> {
+    const meta = getRequestMeta();
+    let leader = false;
+    try {
+      const result = await this.coalescer.run(toolName, buildCacheKey(toolName, params), () => {
+        leader = true;
+        return this.cache.getOrLoad(toolName, params, load);
+      });
+      if (meta && !meta.cacheStatus) {
+        meta.cacheStatus = result.status;
+      }
+      return result.value;
+    } finally {
+      if (meta && !leader) meta.coalesced = true;
+    }
+  }
+
+  /**
+   * Runs a tool call and returns its provenance alongside the data: the winning source,
+   * every failover attempt and the cache status. On failure the provenance is attached to the error as `meta`.
+   */
+  async withMeta<T>(toolName: string, fn: () => Promise<T>): Promise<ToolResponse<T>> {
+    const meta: ToolResultMeta = { tool: toolName, attempts: [], skippedSources: [], totalDurationMs: 0 };
+    const startTime = Date.now();
+
+    try {
+      const data = await runWithRequestContext({ meta }, fn);
+      meta.totalDurationMs = Date.now() - startTime;
+      const dataSource = (data as { source?: ApiSource } | null)?.source;
+      if (!meta.source && dataSource) {
+        // Cache hits never reach a provider, the normalized data still names its source
+        meta.source = dataSource;
+      }
+      return { data, meta };
+    } catch (error) {
+      meta.totalDurationMs = Date.now() - startTime;
+      if (error instanceof Error) {
+        (error as ErrorWithMeta).meta = meta;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds the attempt to the provenance of the current call and, unless it was cancelled
+   * rather than answered, to the source's stats and ranking
+   */
+  private recordAttempt(tool: string, attempt: FailoverAttempt): void {
+    if (!(attempt.error instanceof RequestCancelledError)) {
+      this.sourceStats.record(attempt);
+      this.sourceRanker.record(tool, attempt);
+    }
+    const meta = getRequestMeta();
+    if (!meta) return;
+    meta.attempts.push({
+      source: attempt.source,
+      keyIndex: attempt.keyIndex,
+      durationMs: attempt.durationMs,
+      success: attempt.success,
+      error: attempt.error?.message,
+      code: attempt.error ? toToolError(attempt.error).code : undefined,
+    });
+    if (attempt.success) {
+      meta.source = attempt.source;
+    }
+  }
+
+  /**
+   * Whether the source has a client, a route under its proxy mode and a key out of cooldown
+   * with requests left in today's budget
+   */
   isSourceAvailable(source: ApiSource): boolean {
     const client = this.getClientForSource(source);
     if (!client) return false;
+    if (!proxyPool.canRoute(source)) return false;
     
     const keyManager = this.keyManagers.get(source);
-    if (!keyManager) return true;
+    if (!keyManager) return this.rateLimiter.hasDailyBudget(source);
     
-    return keyManager.hasAvailableKey();
+    return keyManager.hasAvailableKey() && this.hasDailyBudget(source);
+  }
+
+  /**
+   * Whether a keyless source, or any of its keys out of cooldown, has requests left in today's budget
+   */
+  private hasDailyBudget(source: ApiSource): boolean {
+    const keyManager = this.keyManagers.get(source);
+    if (!keyManager) return this.rateLimiter.hasDailyBudget(source);
+
+    return keyManager
+      .getKeyInfo(source)
+      .some(key => !key.inCooldown && this.rateLimiter.hasDailyBudget(source, key));
+  }
+
+  /**
+   * Moves sources whose every usable key is nearly spent behind the others, keeping the router's order otherwise
+   */
+  private preferSourcesWithQuota(sources: ApiSource[]): ApiSource[] {
+    const lowOnQuota = (source: ApiSource) => this.keyManagers.get(source)?.isLowOnQuota() ?? false;
+    return [...sources.filter(source => !lowOnQuota(source)), ...sources.filter(lowOnQuota)];
   }
 
   private getClientForSource(source: ApiSource): any {
-    switch (source) {
-      case 'finnhub':
-        return this.finnhubClient;
-      case 'alphavantage':
-        return this.alphavantageClient;
-      case 'twelvedata':
-        return this.twelvedataClient;
-      case 'tiingo':
-        return this.tiingoClient;
-      case 'sina':
-        return this.sinaClient;
-      case 'eastmoney':
-        return this.eastmoneyClient;
-      default:
-        return this.finnhubClient;
+    return this.clients.get(source);
+  }
+
+  /**
+   * Runs the provider's health check, or its client's own healthCheck()
+   * @returns False when the source has no client or the check fails
+   */
+  async checkHealth(source: ApiSource): Promise<boolean> {
+    return (await this.runHealthCheck(source)).healthy;
+  }
+
+  /**
+   * Runs a health check under the provider's timeout and keeps the result for status reports.
+   * Checks wait for the rate limiter and count against the daily budget like any other request,
+   * but bypass the circuit breaker, so a failed check does not take the source out of failover.
+   */
+  private async runHealthCheck(source: ApiSource): Promise<HealthCheckResult> {
+    const client = this.clients.get(source);
+    const startTime = Date.now();
+    const finish = (healthy: boolean, error?: string): HealthCheckResult => {
+      const result = { healthy, checkedAt: new Date().toISOString(), durationMs: Date.now() - startTime, error };
+      this.healthResults.set(source, result);
+      return result;
+    };
+
+    if (!client) {
+      return finish(false, `${source} is not configured`);
+    }
+    const provider = providerRegistry.get(source);
+    try {
+      const key = this.getCurrentKey(source);
+      await this.rateLimiter.acquire(source, key);
+      // Checks go through the proxy like real traffic, but most report failure as false rather than throwing
+      const healthy = await this.withProxy(source, () => withAbortableTimeout(
+        signal => runWithRequestContext({ signal, apiKey: key && { source, key } }, async () => {
+          if (provider?.healthCheck) {
+            return provider.healthCheck(client);
+          }
+          return typeof client.healthCheck === 'function' ? client.healthCheck() : true;
+        }),
+        getApiTimeout(this.config, source),
+        source,
+        'health_check'
+      ), false);
+      return finish(healthy === true);
+    } catch (error) {
+      logger.debug(`Health check failed for ${source}`, { error: (error as Error).message });
+      return finish(false, (error as Error).message);
+    }
+  }
+
+  /**
+   * Reports each provider's keys, circuit, recent calls and last health check, plus the proxy pool
+   * and, when asked for a tool, its source ranking
+   * @throws Error when options.source is not a registered provider or options.tool not a known tool
+   */
+  async getProviderStatus(options: ProviderStatusOptions = {}): Promise<ProviderStatusReport> {
+    if (options.source !== undefined && !providerRegistry.has(options.source)) {
+      throw new Error(`Unknown provider: ${options.source} (known: ${providerRegistry.getIds().join(', ')})`);
+    }
+    if (options.tool !== undefined && !sourceRouter.getAllToolNames().includes(options.tool)) {
+      throw new Error(`Unknown tool: ${options.tool}`);
+    }
+    const providers = providerRegistry.list().filter(provider => options.source === undefined || provider.id === options.source);
+
+    if (options.checkHealth) {
+      // A source whose daily budget is spent keeps its last result rather than failing a check it cannot afford
+      const checked = providers.filter(provider => this.clients.has(provider.id) && this.hasDailyBudget(provider.id));
+      await Promise.all(checked.map(provider => this.runHealthCheck(provider.id)));
     }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      providers: providers.map(provider => this.describeProvider(provider.id, provider.name)),
+      proxyPool: proxyPool.getStatus(),
+      coalescing: this.coalescer.getStats(),
+      ranking: options.tool === undefined ? undefined : sourceRouter.explainRanking(options.tool, this.sourceRanker, options.symbol),
+    };
   }
 
-  async getStockQuote(symbol: string): Promise<any> {
-    const executors = this.createExecutor({ symbol });
-    const result = await this.executeWithCascadingFailover('get_stock_quote', executors.get_stock_quote, symbol);
-    return result.data;
+  private describeProvider(source: ApiSource, name: string): ProviderStatus {
+    const keyManager = this.keyManagers.get(source);
+    const keyed = Boolean(providerRegistry.get(source)?.apiKeyEnvVar);
+    const keys = keyManager?.getKeyInfo(source) ?? [];
+    const keyEntries = (keyManager?.getKeyStatus() ?? []).map((entry, index) => ({
+      ...entry,
+      dailyBudget: this.rateLimiter.getDailyUsage(source, keys[index]),
+    }));
+    const breaker = this.circuitBreakers.get(source);
+    const limits = this.rateLimiter.getLimits(source);
+
+    return {
+      source,
+      name,
+      configured: this.clients.has(source),
+      available: this.isSourceAvailable(source) && !breaker?.isOpen(),
+      keys: keyed
+        ? {
+          configured: keyEntries.length,
+          available: keyEntries.filter(key => !key.inCooldown).length,
+          entries: keyEntries,
+        }
+        : null,
+      circuit: breaker?.getStatus() ?? null,
+      rateLimit: Object.keys(limits).length > 0
+        ? { ...limits, dailyBudget: keyed ? undefined : this.rateLimiter.getDailyUsage(source) }
+        : null,
+      activity: this.sourceStats.summarize(source),
+      health: this.healthResults.get(source),
+    };
   }
 
-  async getStockCandles(symbol: string, resolution: string, from: number, to: number): Promise<any> {
-    const executors = this.createExecutor({ symbol, resolution, from, to });
-    const result = await this.executeWithCascadingFailover('get_stock_candles', executors.get_stock_candles, symbol);
-    return result.data;
+  async getStockQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.runCascadingTool('get_stock_quote', { symbol });
   }
 
-  async getCompanyBasicFinancials(symbol: string): Promise<any> {
-    return this.executeWithResilience('finnhub', () => this.finnhubClient.getCompanyBasicFinancials(symbol));
+  /**
+   * Asks several of get_stock_quote's sources and returns the quote that agrees with the others,
+   * with the comparison under `consensus`
+   */
+  async getConsensusQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.runConsensusTool('get_stock_quote', { symbol }, reconcileQuotes);
   }
 
-  async getCompanyMetrics(symbol: string, metricType?: string): Promise<any> {
-    return this.executeWithResilience('finnhub', () => this.finnhubClient.getCompanyMetrics(symbol, metricType));
+  async getStockCandles(symbol: string, resolution: string, from: number, to: number): Promise<PriceSeries> {
+    return this.runCascadingTool('get_stock_candles', { symbol, resolution, from, to });
   }
 
-  async getNews(symbol: string, category?: string, minId?: number): Promise<any> {
-    const executors = this.createExecutor({ symbol, category, minId });
-    const result = await this.executeWithCascadingFailover('get_news', executors.get_news, symbol);
-    return result.data;
+  async getCompanyBasicFinancials(symbol: string): Promise<CompanyMetrics> {
+    return this.runSingleSourceTool('get_company_basic_financials', 'finnhub', { symbol }, () =>
+      this.finnhubClient.getCompanyBasicFinancials(providerRegistry.formatSymbol('finnhub', symbol))
+    );
   }
 
-  async getDailyPrices(symbol: string, outputsize: 'compact' | 'full'): Promise<any> {
-    const executors = this.createExecutor({ symbol, outputsize });
-    const result = await this.executeWithCascadingFailover('get_daily_prices', executors.get_daily_prices, symbol);
-    return result.data;
+  async getCompanyMetrics(symbol: string, metricType?: string): Promise<CompanyMetrics> {
+    return this.runSingleSourceTool('get_company_metrics', 'finnhub', { symbol, metricType }, () =>
+      this.finnhubClient.getCompanyMetrics(providerRegistry.formatSymbol('finnhub', symbol), metricType)
+    );
   }
 
-  async getQuote(symbol: string): Promise<any> {
-    const executors = this.createExecutor({ symbol });
-    const result = await this.executeWithCascadingFailover('get_quote', executors.get_quote, symbol);
-    return result.data;
+  async getNews(symbol: string, category?: string, minId?: number): Promise<NewsFeed> {
+    return this.runCascadingTool('get_news', { symbol, category, minId });
   }
 
-  async getCompanyOverview(symbol: string): Promise<any> {
-    const executors = this.createExecutor({ symbol });
-    const result = await this.executeWithCascadingFailover('get_company_overview', executors.get_company_overview, symbol);
-    return result.data;
+  async getDailyPrices(symbol: string, outputsize: 'compact' | 'full'): Promise<PriceSeries> {
+    return this.runCascadingTool('get_daily_prices', { symbol, outputsize });
   }
 
-  async getIncomeStatement(symbol: string): Promise<any> {
-    return this.executeWithResilience('alphavantage', () => this.alphavantageClient.getIncomeStatement(symbol));
+  /**
+   * Asks several of get_daily_prices' sources and returns the bars that agree with the others,
+   * with the comparison under `consensus`
+   */
+  async getConsensusDailyPrices(symbol: string, outputsize: 'compact' | 'full'): Promise<PriceSeries> {
+    return this.runConsensusTool('get_daily_prices', { symbol, outputsize }, reconcilePriceSeries);
   }
 
-  async getBalanceSheet(symbol: string): Promise<any> {
-    return this.executeWithResilience('alphavantage', () => this.alphavantageClient.getBalanceSheet(symbol));
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.runCascadingTool('get_quote', { symbol });
   }
 
-  async getCashFlow(symbol: string): Promise<any> {
-    return this.executeWithResilience('alphavantage', () => this.alphavantageClient.getCashFlow(symbol));
+  async getCompanyOverview(symbol: string): Promise<CompanyProfile> {
+    return this.runCascadingTool('get_company_overview', { symbol });
   }
 
-  async getTechnicalIndicator(symbol: string, indicator: string, interval: string, time_period: string): Promise<any> {
-    const executors = this.createExecutor({ symbol, indicator, interval, time_period });
-    const result = await this.executeWithCascadingFailover('get_technical_indicator', executors.get_technical_indicator, symbol);
-    return result.data;
+  async getIncomeStatement(symbol: string): Promise<FinancialStatement> {
+    return this.runSingleSourceTool('get_income_statement', 'alphavantage', { symbol }, () =>
+      this.alphavantageClient.getIncomeStatement(providerRegistry.formatSymbol('alphavantage', symbol))
+    );
+  }
+
+  async getBalanceSheet(symbol: string): Promise<FinancialStatement> {
+    return this.runSingleSourceTool('get_balance_sheet', 'alphavantage', { symbol }, () =>
+      this.alphavantageClient.getBalanceSheet(providerRegistry.formatSymbol('alphavantage', symbol))
+    );
+  }
+
+  async getCashFlow(symbol: string): Promise<FinancialStatement> {
+    return this.runSingleSourceTool('get_cash_flow', 'alphavantage', { symbol }, () =>
+      this.alphavantageClient.getCashFlow(providerRegistry.formatSymbol('alphavantage', symbol))
+    );
+  }
+
+  async getTechnicalIndicator(symbol: string, indicator: string, interval: string, time_period: string): Promise<IndicatorSeries> {
+    return this.runCascadingTool('get_technical_indicator', { symbol, indicator, interval, time_period });
+  }
+
+  /**
+   * Price bars from any source with candles or daily prices
+   * @param resolution 1, 5, 15, 30, 60, D, W or M; daily, weekly and monthly are accepted as aliases
+   * @param from Start timestamp (seconds)
+   * @param to End timestamp (seconds)
+   */
+  async getStockPriceHistory(symbol: string, resolution: string, from: number, to: number): Promise<PriceSeries> {
+    const normalizedResolution = PERIOD_RESOLUTIONS[resolution.toLowerCase()] ?? resolution.toUpperCase();
+    return this.runCascadingTool('get_stock_price_history', { symbol, resolution: normalizedResolution, from, to });
+  }
+
+  /**
+   * Statements from Alpha Vantage, or Finnhub's per-period ratios when Alpha Vantage is unavailable
+   */
+  async getFinancials(
+    symbol: string,
+    period: ReportingPeriod,
+    statementType: FinancialsStatementType
+  ): Promise<FinancialStatementSet> {
+    return this.runCascadingTool('get_financials', { symbol, period, statementType });
+  }
+
+  async getCompanyInfo(symbol: string): Promise<CompanyProfile> {
+    return this.runCascadingTool('get_company_info', { symbol });
+  }
+
+  async getIndexConstituents(symbol: string): Promise<IndexConstituents> {
+    return this.runCascadingTool('get_index_constituents', { symbol });
+  }
+
+  /**
+   * Fetches quotes for many symbols, sharing cache entries with get_stock_quote.
+   * Symbols whose market has a batch-capable source (Sina, EastMoney) are fetched in one request per source;
+   * the rest, and any symbol a batch response leaves out, go through the usual failover with bounded concurrency.
+   * A symbol that cannot be fetched is reported with its error instead of failing the whole batch.
+   */
+  async getBatchQuotes(symbols: string[]): Promise<BatchQuotes> {
+    const unique = [...new Set(symbols.map(symbol => symbol.trim()).filter(Boolean))];
+    if (unique.length === 0) {
+      throw new Error('get_batch_quotes requires at least one symbol');
+    }
+    if (unique.length > MAX_BATCH_SYMBOLS) {
+      throw new Error(`get_batch_quotes accepts at most ${MAX_BATCH_SYMBOLS} symbols, got ${unique.length}`);
+    }
+
+    const limit = createLimiter(this.config.batchConcurrency);
+    const loadSingle = (symbol: string) =>
+      limit(() => this.loadCascadingTool<NormalizedQuote>('get_stock_quote', { symbol }));
+    const batches = new Map<string, PendingQuoteBatch>();
+
+    const queueForBatch = (symbol: string, sources: ApiSource[]): Promise<NormalizedQuote> => {
+      const batchKey = sources.join(',');
+      let batch = batches.get(batchKey);
+      if (!batch) {
+        let resolve!: PendingQuoteBatch['resolve'];
+        const ready = new Promise<Map<string, NormalizedQuote>>(r => { resolve = r; });
+        batch = { sources, symbols: [], ready, resolve };
+        batches.set(batchKey, batch);
+      }
+      batch.symbols.push(symbol);
+      return batch.ready.then(quotes => quotes.get(symbol) ?? loadSingle(symbol));
+    };
+
+    // Cache misses queue their symbol synchronously, so every batch is complete before it is sent
+    const pending = unique.map(symbol => {
+      const batchSources = this.getBatchQuoteSources(symbol);
+      const load = batchSources.length > 0
+        ? () => queueForBatch(symbol, batchSources)
+        : () => loadSingle(symbol);
+
+      return this.withCache('get_stock_quote', { symbol }, load).then(
+        (quote): BatchQuoteEntry => ({ symbol, quote }),
+        (error): BatchQuoteEntry => ({ symbol, error: (error as Error).message, code: toToolError(error).code })
+      );
+    });
+
+    for (const batch of batches.values()) {
+      batch.resolve(this.fetchNativeBatchQuotes(batch.sources, batch.symbols));
+    }
+
+    const quotes = await Promise.all(pending);
+    const failed = quotes.filter(entry => entry.error !== undefined).length;
+
+    logger.debug('Batch quotes completed', {
+      requested: unique.length,
+      nativeBatches: batches.size,
+      failed,
+    });
+
+    return { quotes, succeeded: quotes.length - failed, failed };
+  }
+
+  private getBatchQuoteSources(symbol: string): ApiSource[] {
+    return sourceRouter
+      .getSourcesForTool('get_batch_quotes', symbol, this.sourceRanker)
+      .filter(source => typeof this.getClientForSource(source)?.getBatchQuotes === 'function');
+  }
+
+  /**
+   * Tries each batch-capable source in turn; when all fail the map is empty and callers fall back per symbol
+   */
+  private async fetchNativeBatchQuotes(sources: ApiSource[], symbols: string[]): Promise<Map<string, NormalizedQuote>> {
+    for (const source of sources) {
+      if (!this.isSourceAvailable(source) || this.circuitBreakers.get(source)?.isOpen()) {
+        getRequestMeta()?.skippedSources.push(source);
+        continue;
+      }
+
+      try {
+        const client = this.getClientForSource(source);
+        const raw: Map<string, unknown> = await this.executeWithResilience(
+          source,
+          () => client.getBatchQuotes(symbols),
+          'get_batch_quotes'
+        );
+        const quotes = new Map<string, NormalizedQuote>();
+        for (const [symbol, quote] of raw) {
+          quotes.set(symbol, normalizeToolResult('get_stock_quote', quote, { source, params: { symbol } }) as NormalizedQuote);
+        }
+        return quotes;
+      } catch (error) {
+        logger.warn(`Batch quote request to ${source} failed, trying next source`, {
+          source,
+          symbolCount: symbols.length,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return new Map();
+  }
+
+  /**
+   * Runs a tool through the cache and cascading failover, normalizing whichever source wins
+   */
+  private async runCascadingTool<T>(toolName: string, params: Record<string, any>): Promise<T> {
+    return this.withCache(toolName, params, () => this.loadCascadingTool<T>(toolName, params));
+  }
+
+  private async loadCascadingTool<T>(toolName: string, params: Record<string, any>): Promise<T> {
+    const executors = this.createExecutor(params);
+    const result = await this.executeWithCascadingFailover(toolName, executors[toolName], params.symbol);
+    return normalizeToolResult(toolName, result.data, { source: result.source, params }) as T;
+  }
+
+  /**
+   * Runs a tool against several sources at once and reconciles their normalized answers. Up to maxSources
+   * are asked together, then one more at a time while fewer than minSources have answered.
+   * Discrepancies are logged as warnings, so a provider whose parser broke shows up in the logs.
+   */
+  private async runConsensusTool<T extends { source: ApiSource; consensus?: ConsensusReport }>(
+    toolName: string,
+    params: Record<string, any>,
+    reconcile: (answers: T[], failedSources: ApiSource[], config: ConsensusConfig) => Reconciled<T>
+  ): Promise<T> {
+    return this.withCache(toolName, { ...params, consensus: true }, async () => {
+      const executor = this.createExecutor(params)[toolName];
+      const sources = this.preferSourcesWithQuota(sourceRouter.getSourcesForTool(toolName, params.symbol, this.sourceRanker));
+      const attempts: FailoverAttempt[] = [];
+      const skippedSources: ApiSource[] = [];
+      const nextSource = this.createSourceQueue(toolName, sources, skippedSources);
+      const answers = new Map<ApiSource, T>();
+      let failFastError: unknown;
+
+      const ask = async (source: ApiSource) => {
+        try {
+          const data = await this.attemptSource(toolName, source, executor, attempts);
+          answers.set(source, normalizeToolResult(toolName, data, { source, params }) as T);
+        } catch (error) {
+          if (!shouldFailoverToNextSource(error)) failFastError ??= error;
+        }
+      };
+
+      const asked: ApiSource[] = [];
+      while (asked.length < this.consensus.maxSources) {
+        const source = nextSource();
+        if (!source) break;
+        asked.push(source);
+      }
+      await Promise.all(asked.map(ask));
+      while (answers.size < this.consensus.minSources && failFastError === undefined) {
+        const source = nextSource();
+        if (!source) break;
+        asked.push(source);
+        await ask(source);
+      }
+
+      if (answers.size === 0) {
+        throw failFastError ?? new SourcesExhaustedError(toolName, attempts, skippedSources);
+      }
+
+      const ordered = asked.filter(source => answers.has(source)).map(source => answers.get(source) as T);
+      const { chosen, report } = reconcile(ordered, asked.filter(source => !answers.has(source)), this.consensus);
+      for (const discrepancy of report.discrepancies) {
+        logger.warn('Source disagrees with the other sources', { tool: toolName, symbol: params.symbol, ...discrepancy });
+      }
+      const meta = getRequestMeta();
+      if (meta) meta.source = chosen.source;
+      return { ...chosen, consensus: report };
+    });
+  }
+
+  /**
+   * Runs a tool only one provider offers through the cache and resilience stack, normalizing the result
+   */
+  private async runSingleSourceTool<T>(
+    toolName: string,
+    source: ApiSource,
+    params: Record<string, any>,
+    fn: () => Promise<unknown>
+  ): Promise<T> {
+    return this.withCache(toolName, params, async () => {
+      const data = await this.executeWithResilience(source, fn, toolName);
+      return normalizeToolResult(toolName, data, { source, params }) as T;
+    });
   }
 
   async getTwelveDataQuote(symbol: string): Promise<any> {
@@ -211,7 +920,7 @@ export class ResilientApiClient implements ApiClient {
 
   async executeWithKeyRotation<T>(source: ApiSource, fn: () => Promise<T>): Promise<T> {
     const keyManager = this.keyManagers.get(source);
-    if (!keyManager) {
+    if (!keyManager || keyManager.getTotalKeyCount() === 0) {
       return fn();
     }
 
@@ -226,15 +935,23 @@ export class ResilientApiClient implements ApiClient {
       }
 
       try {
-        const result = await fn();
+        const result = await runWithRequestContext(
+          { apiKey: { source, key: keyInfo }, onRateLimit: info => keyManager.recordRateLimit(keyInfo.index, info) },
+          fn
+        );
         keyManager.recordUsage(keyInfo.index);
         return result;
       } catch (error) {
         lastError = error as Error;
         
-        if (isRateLimitError(error)) {
-          logger.debug(`Rate limit hit on key ${keyInfo.index}, rotating`, { source, keyIndex: keyInfo.index });
-          keyManager.markRateLimit(keyInfo.index);
+        if (shouldRetryWithDifferentKey(error)) {
+          const code = classifyError(error);
+          logger.debug(`Key ${keyInfo.index} failed with ${code}, rotating`, { source, keyIndex: keyInfo.index });
+          if (code === 'AUTH_FAILED') {
+            keyManager.markAuthFailure(keyInfo.index);
+          } else {
+            keyManager.markRateLimit(keyInfo.index, error instanceof RateLimitExceededError ? error.retryAt : undefined);
+          }
           const rotated = keyManager.rotateKey();
           if (!rotated) {
             logger.warn(`All keys exhausted for ${source}`);
@@ -250,132 +967,281 @@ export class ResilientApiClient implements ApiClient {
     throw lastError || new Error(`All keys exhausted for ${source}`);
   }
 
+  /**
+   * Tries the tool's sources in ranked order until one answers. Sources that are unavailable
+   * or whose circuit is open are skipped. For hedged tools a source slow to answer is raced against the next.
+   */
   async executeWithCascadingFailover<T>(
     toolName: string,
     executor: SourceExecutor<T>,
     symbol?: string
   ): Promise<CascadingFailoverResult<T>> {
-    const sources = sourceRouter.getSourcesForTool(toolName, symbol);
+    const sources = this.preferSourcesWithQuota(sourceRouter.getSourcesForTool(toolName, symbol, this.sourceRanker));
     const attempts: FailoverAttempt[] = [];
+    const skippedSources: ApiSource[] = [];
     const overallStartTime = Date.now();
-    
-    logger.debug(`Starting cascading failover for ${toolName}`, { sources });
+    const hedged = this.hedging.enabled && this.hedging.tools.includes(toolName);
 
-    for (const source of sources) {
-      if (!this.isSourceAvailable(source)) {
-        logger.debug(`Skipping unavailable source ${source} for ${toolName}`);
-        continue;
-      }
+    logger.debug(`Starting cascading failover for ${toolName}`, { sources, hedged });
 
-      const keyManager = this.keyManagers.get(source);
-      const keyIndex = keyManager?.getCurrentKeyIndex(source) ?? 0;
-      const attemptStart = Date.now();
+    const nextSource = this.createSourceQueue(toolName, sources, skippedSources);
 
+    for (let source = nextSource(); source; source = nextSource()) {
       try {
-        const data = await this.executeWithKeyRotation(source, () => executor(source));
-        const attemptEnd = Date.now();
+        const winner = hedged
+          ? await this.attemptHedged(toolName, source, executor, attempts, nextSource)
+          : { source, data: await this.attemptSource(toolName, source, executor, attempts) };
 
-        attempts.push({
-          source,
-          keyIndex,
-          startTime: attemptStart,
-          endTime: attemptEnd,
-          durationMs: attemptEnd - attemptStart,
-          success: true,
-        });
-
-        logger.debug(`Cascading failover succeeded on ${source}`, { toolName, source, attemptCount: attempts.length });
+        logger.debug(`Cascading failover succeeded on ${winner.source}`, { toolName, source: winner.source, attemptCount: attempts.length });
 
         return {
-          data,
-          source,
+          data: winner.data,
+          source: winner.source,
           attempts,
           totalDurationMs: Date.now() - overallStartTime,
         };
       } catch (error) {
-        const attemptEnd = Date.now();
-        const err = error as Error;
-
-        attempts.push({
-          source,
-          keyIndex,
-          startTime: attemptStart,
-          endTime: attemptEnd,
-          durationMs: attemptEnd - attemptStart,
-          success: false,
-          error: err,
-        });
-
-        logger.debug(`Source ${source} failed for ${toolName}, trying next`, { 
-          source, 
-          error: err.message,
-          shouldFailover: shouldFailoverToNextSource(error)
-        });
-
+        // An unknown symbol or rejected argument would fail the same way on every other source
         if (!shouldFailoverToNextSource(error)) {
           throw error;
         }
       }
     }
 
-    const errors = attempts.filter(a => !a.success).map(a => a.error).filter(Boolean);
-    const aggregateMessage = `All sources failed for ${toolName}: ${errors.map(e => e?.message).join(', ')}`;
-    logger.error(aggregateMessage, { toolName, attemptCount: attempts.length });
-    
-    const aggregateError = new Error(aggregateMessage);
-    (aggregateError as any).attempts = attempts;
+    const aggregateError = new SourcesExhaustedError(toolName, attempts, skippedSources);
+    logger.error(aggregateError.message, { toolName, attemptCount: attempts.length, skippedSources });
     throw aggregateError;
   }
 
+  /**
+   * Hands out the sources in order, skipping and recording those unavailable or with an open circuit
+   * at the time they come up
+   */
+  private createSourceQueue(toolName: string, sources: ApiSource[], skippedSources: ApiSource[]): () => ApiSource | undefined {
+    const remaining = [...sources];
+    return () => {
+      for (let source = remaining.shift(); source; source = remaining.shift()) {
+        if (!this.isSourceAvailable(source)) {
+          logger.debug(`Skipping unavailable source ${source} for ${toolName}`);
+        } else if (this.circuitBreakers.get(source)?.isOpen()) {
+          logger.debug(`Skipping source ${source} for ${toolName}, circuit is open`);
+        } else {
+          return source;
+        }
+        skippedSources.push(source);
+        getRequestMeta()?.skippedSources.push(source);
+      }
+      return undefined;
+    };
+  }
+
+  /**
+   * Runs the executor against one source through the resilience stack and records the attempt
+   * @param signal - Cancels the attempt, which then rejects at once with the signal's reason
+   */
+  private async attemptSource<T>(
+    toolName: string,
+    source: ApiSource,
+    executor: SourceExecutor<T>,
+    attempts: FailoverAttempt[],
+    signal?: AbortSignal
+  ): Promise<T> {
+    const keyIndex = this.keyManagers.get(source)?.getCurrentKeyIndex(source) ?? 0;
+    const attemptStart = Date.now();
+    const record = (error?: Error) => {
+      const attemptEnd = Date.now();
+      const attempt: FailoverAttempt = {
+        source,
+        keyIndex,
+        startTime: attemptStart,
+        endTime: attemptEnd,
+        durationMs: attemptEnd - attemptStart,
+        success: !error,
+        error,
+      };
+      attempts.push(attempt);
+      this.recordAttempt(toolName, attempt);
+    };
+
+    try {
+      const run = () => this.executeWithCircuitBreaker(source, () =>
+        this.executeWithKeyRotation(source, () =>
+          this.executeWithRetryAndTimeout(source, toolName, () => executor(source))
+        )
+      );
+      const data = signal
+        ? await Promise.race([runWithRequestContext({ signal }, run), rejectWhenAborted(signal)])
+        : await run();
+      record();
+      return data;
+    } catch (error) {
+      record(error as Error);
+      logger.debug(`Source ${source} failed for ${toolName}`, {
+        source,
+        error: (error as Error).message,
+        code: classifyError(error),
+        shouldFailover: shouldFailoverToNextSource(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Tries the source and, if it has not answered within its usual latency, the next source alongside it.
+   * The first answer wins and the other attempt is cancelled; both are recorded.
+   * Rejects once every attempt it started has failed, or at once when one fails in a way every source would.
+   */
+  private attemptHedged<T>(
+    toolName: string,
+    primary: ApiSource,
+    executor: SourceExecutor<T>,
+    attempts: FailoverAttempt[],
+    nextSource: () => ApiSource | undefined
+  ): Promise<{ source: ApiSource; data: T }> {
+    const percentile = this.hedging.percentile / 100;
+    const delayMs = hedgeDelayMs(this.hedging, this.sourceStats.successLatency(primary, percentile, this.hedging.minSamples));
+    const running = new Map<ApiSource, { controller: AbortController; done: Promise<unknown> }>();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = async (winner: ApiSource | undefined, outcome: () => void) => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        for (const [source, run] of running) {
+          run.controller.abort(new RequestCancelledError(source, winner
+            ? `${source} request cancelled, ${winner} answered first`
+            : `${source} request cancelled`));
+        }
+        // Cancelled attempts record themselves at once, so provenance lists them before the call returns
+        await Promise.allSettled([...running.values()].map(run => run.done));
+        outcome();
+      };
+
+      const start = (source: ApiSource) => {
+        const controller = new AbortController();
+        const done = this.attemptSource(toolName, source, executor, attempts, controller.signal).then(
+          data => {
+            running.delete(source);
+            if (!settled) void settle(source, () => resolve({ source, data }));
+          },
+          error => {
+            running.delete(source);
+            if (settled) return;
+            if (!shouldFailoverToNextSource(error) || running.size === 0) {
+              void settle(undefined, () => reject(error));
+            }
+          }
+        );
+        running.set(source, { controller, done });
+      };
+
+      start(primary);
+      hedgeTimer = setTimeout(() => {
+        hedgeTimer = undefined;
+        const backup = settled ? undefined : nextSource();
+        if (backup) {
+          logger.debug(`Hedging ${toolName}: ${primary} has not answered in ${delayMs}ms, also trying ${backup}`, { toolName, primary, backup, delayMs });
+          start(backup);
+        }
+      }, delayMs);
+    });
+  }
+
   createExecutor(params: Record<string, any>): Record<string, SourceExecutor<any>> {
+    const symbolFor = (source: ApiSource): string => providerRegistry.formatSymbol(source, params.symbol);
     return {
       get_stock_quote: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getStockQuote) throw new Error(`${source} does not support get_stock_quote`);
-        return client.getStockQuote(params.symbol);
+        if (!client?.getStockQuote) throw unsupported(source, 'get_stock_quote');
+        return client.getStockQuote(symbolFor(source));
       },
       get_stock_candles: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getStockCandles) throw new Error(`${source} does not support get_stock_candles`);
-        return client.getStockCandles(params.symbol, params.resolution, params.from, params.to);
+        if (!client?.getStockCandles) throw unsupported(source, 'get_stock_candles');
+        return client.getStockCandles(symbolFor(source), params.resolution, params.from, params.to);
       },
       get_daily_prices: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getDailyPrices) throw new Error(`${source} does not support get_daily_prices`);
-        return client.getDailyPrices(params.symbol, params.outputsize);
+        if (!client?.getDailyPrices) throw unsupported(source, 'get_daily_prices');
+        return client.getDailyPrices(symbolFor(source), params.outputsize);
       },
       get_news: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getNews) throw new Error(`${source} does not support get_news`);
-        return client.getNews(params.symbol, params.category, params.minId);
+        if (!client?.getNews) throw unsupported(source, 'get_news');
+        return client.getNews(symbolFor(source), params.category, params.minId);
       },
       get_quote: (source: ApiSource) => {
         const client = this.getClientForSource(source);
         const quoteFn = client?.getQuote || client?.getStockQuote;
-        if (!quoteFn) throw new Error(`${source} does not support get_quote`);
-        return quoteFn.call(client, params.symbol);
+        if (!quoteFn) throw unsupported(source, 'get_quote');
+        return quoteFn.call(client, symbolFor(source));
       },
       get_company_overview: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getCompanyOverview) throw new Error(`${source} does not support get_company_overview`);
-        return client.getCompanyOverview(params.symbol);
+        if (!client?.getCompanyOverview) throw unsupported(source, 'get_company_overview');
+        return client.getCompanyOverview(symbolFor(source));
       },
       get_technical_indicator: (source: ApiSource) => {
         const client = this.getClientForSource(source);
-        if (!client?.getTechnicalIndicator) throw new Error(`${source} does not support get_technical_indicator`);
-        return client.getTechnicalIndicator(params.symbol, params.indicator, params.interval, params.time_period);
+        if (!client?.getTechnicalIndicator) throw unsupported(source, 'get_technical_indicator');
+        return client.getTechnicalIndicator(symbolFor(source), params.indicator, params.interval, params.time_period);
+      },
+      get_stock_price_history: (source: ApiSource) => {
+        const client = this.getClientForSource(source);
+        const periodic = params.resolution === 'W' || params.resolution === 'M';
+        // Normalization rolls daily bars up to the requested resolution
+        const resolution = periodic && !providerRegistry.get(source)?.periodBars ? 'D' : params.resolution;
+        if (client?.getStockCandles) {
+          return client.getStockCandles(symbolFor(source), resolution, params.from, params.to);
+        }
+        if (client?.getDailyPrices && resolution === 'D') {
+          const days = (params.to - params.from) / (24 * 60 * 60);
+          return client.getDailyPrices(symbolFor(source), days > COMPACT_DAILY_SERIES_DAYS ? 'full' : 'compact');
+        }
+        throw unsupported(source, `${params.resolution} resolution for get_stock_price_history`);
+      },
+      get_financials: async (source: ApiSource) => {
+        const client = this.getClientForSource(source);
+        if (client?.getIncomeStatement) {
+          const statementTypes = statementsFor(params.statementType);
+          const statements = await Promise.all(
+            statementTypes.map(type => client[STATEMENT_METHODS[type]](symbolFor(source)))
+          );
+          return { statements: Object.fromEntries(statementTypes.map((type, i) => [type, statements[i]])) };
+        }
+        if (client?.getCompanyMetrics) {
+          return { metrics: await client.getCompanyMetrics(symbolFor(source), 'all') };
+        }
+        throw unsupported(source, 'get_financials');
+      },
+      get_company_info: (source: ApiSource) => {
+        const client = this.getClientForSource(source);
+        const profileFn = client?.getCompanyProfile || client?.getCompanyOverview;
+        if (!profileFn) throw unsupported(source, 'get_company_info');
+        return profileFn.call(client, symbolFor(source));
+      },
+      get_index_constituents: (source: ApiSource) => {
+        const client = this.getClientForSource(source);
+        if (!client?.getIndexConstituents) throw unsupported(source, 'get_index_constituents');
+        return client.getIndexConstituents(symbolFor(source));
       },
     };
   }
 
-  async executeWithResilience(source: ApiSource, fn: () => Promise<any>): Promise<any> {
+  async executeWithResilience(source: ApiSource, fn: () => Promise<any>, operation: string = 'request'): Promise<any> {
     const startTime = Date.now();
+    const keyIndex = this.keyManagers.get(source)?.getCurrentKeyIndex(source) ?? 0;
     
-    logger.debug(`API call starting`, { source });
+    logger.debug(`API call starting`, { source, operation });
     
     try {
-      const result = await fn();
+      const result = await this.executeWithCircuitBreaker(source, () =>
+        this.executeWithKeyRotation(source, () => this.executeWithRetryAndTimeout(source, operation, fn))
+      );
       const duration = Date.now() - startTime;
+      this.recordAttempt(operation, { source, keyIndex, startTime, endTime: startTime + duration, durationMs: duration, success: true });
       const responseSize = JSON.stringify(result).length;
       
       logger.debug(`API call completed`, {
@@ -387,6 +1253,15 @@ export class ResilientApiClient implements ApiClient {
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
+      this.recordAttempt(operation, {
+        source,
+        keyIndex,
+        startTime,
+        endTime: startTime + duration,
+        durationMs: duration,
+        success: false,
+        error: error as Error,
+      });
       
       logger.debug(`API call failed`, {
         source,
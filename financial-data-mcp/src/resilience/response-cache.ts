@@ -0,0 +1,321 @@
+/**
+ * Response cache for upstream provider calls
+ * Keys responses by tool name + normalized arguments, applies per-tool TTLs and
+ * keeps expired entries around so they can be served when every source fails
+ */
+
+import * as fs from 'fs';
+import type { CacheStatus } from '../types.js';
+import { logger } from '../logger.js';
+import { toolRegistry } from '../tools/index.js';
+import { defaultStateFile, writeStateFile } from './state-file.js';
+
+export type CacheBackendType = 'memory' | 'file';
+
+export type { CacheStatus };
+
+export interface CacheConfig {
+  enabled: boolean;
+  backend: CacheBackendType;
+  maxEntries: number;
+  filePath: string;
+  /** How long past expiry an entry may still be served when all sources fail */
+  staleMaxAgeMs: number;
+  /** Per-tool TTL overrides in seconds */
+  ttlOverrides: Record<string, number>;
+}
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  tool: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  staleHits: number;
+  size: number;
+}
+
+export interface CacheBackend {
+  get(key: string): CacheEntry | undefined;
+  set(entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  size(): number;
+  /** Writes out changes a persistent backend has not saved yet */
+  flush?(): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 60;
+
+export const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = toolRegistry.getCacheTtls();
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: true,
+  backend: 'memory',
+  maxEntries: 1000,
+  filePath: defaultStateFile('cache'),
+  staleMaxAgeMs: 24 * 3600 * 1000,
+  ttlOverrides: {},
+};
+
+/**
+ * Builds a stable cache key from tool name and arguments.
+ * Argument order does not matter, undefined values are dropped and symbols are upper-cased.
+ */
+export function buildCacheKey(tool: string, args: Record<string, unknown>): string {
+  const normalized = Object.keys(args)
+    .filter(name => args[name] !== undefined && args[name] !== null && args[name] !== '')
+    .sort()
+    .map(name => {
+      const value = args[name];
+      if (name === 'symbol' && typeof value === 'string') {
+        return `${name}=${value.trim().toUpperCase()}`;
+      }
+      return `${name}=${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+    });
+  return `${tool}?${normalized.join('&')}`;
+}
+
+/**
+ * In-memory LRU backend, relying on Map insertion order for recency
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  protected entries: Map<string, CacheEntry> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+/** How long the file backend gathers changes before writing them out */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * LRU backend persisted to a JSON file so cached fundamentals survive restarts.
+ * Changes are written in the background at most once per persistDelayMs, so a crash loses
+ * at most the last few responses.
+ */
+export class FileCacheBackend extends MemoryCacheBackend {
+  private readonly filePath: string;
+  private readonly persistDelayMs: number;
+  private persistTimer?: ReturnType<typeof setTimeout>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, maxEntries: number, persistDelayMs = PERSIST_DELAY_MS) {
+    super(maxEntries);
+    this.filePath = filePath;
+    this.persistDelayMs = persistDelayMs;
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as CacheEntry[];
+      for (const entry of stored) {
+        super.set(entry);
+      }
+      logger.debug('Response cache loaded from disk', { filePath: this.filePath, entries: this.size() });
+    } catch (error) {
+      logger.warn('Failed to load response cache file, starting empty', {
+        filePath: this.filePath,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Writes pending changes now rather than when the delay runs out
+   */
+  flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+      // Writes run one after another so an older snapshot never replaces a newer one
+      this.writing = this.writing.then(() => this.write());
+    }
+    return this.writing;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => void this.flush(), this.persistDelayMs);
+    this.persistTimer.unref?.();
+  }
+
+  private async write(): Promise<void> {
+    try {
+      await writeStateFile(this.filePath, JSON.stringify(Array.from(this.entries.values())));
+    } catch (error) {
+      logger.warn('Failed to persist response cache', { filePath: this.filePath, error: (error as Error).message });
+    }
+  }
+
+  set(entry: CacheEntry): void {
+    super.set(entry);
+    this.schedulePersist();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.schedulePersist();
+  }
+
+  clear(): void {
+    super.clear();
+    this.schedulePersist();
+  }
+}
+
+export class ResponseCache {
+  private readonly config: CacheConfig;
+  private readonly backend: CacheBackend;
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+
+  constructor(config?: Partial<CacheConfig>, backend?: CacheBackend) {
+    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
+    this.backend = backend ?? (this.config.backend === 'file'
+      ? new FileCacheBackend(this.config.filePath, this.config.maxEntries)
+      : new MemoryCacheBackend(this.config.maxEntries));
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getTtlSeconds(tool: string): number {
+    return this.config.ttlOverrides[tool] ?? DEFAULT_CACHE_TTL_SECONDS[tool] ?? DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Returns the entry for a key, including expired entries still inside the stale window
+   */
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.backend.get(key) as CacheEntry<T> | undefined;
+    if (entry && Date.now() > entry.expiresAt + this.config.staleMaxAgeMs) {
+      this.backend.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set<T>(key: string, tool: string, value: T): void {
+    const now = Date.now();
+    this.backend.set({
+      key,
+      tool,
+      value,
+      storedAt: now,
+      expiresAt: now + this.getTtlSeconds(tool) * 1000,
+    });
+  }
+
+  /**
+   * Serves a fresh entry when available, otherwise calls the loader and stores its result.
+   * When the loader fails and an expired entry is still within the stale window, that entry is served instead.
+   */
+  async getOrLoad<T>(tool: string, args: Record<string, unknown>, load: () => Promise<T>): Promise<CacheResult<T>> {
+    if (!this.config.enabled || this.getTtlSeconds(tool) <= 0) {
+      return { value: await load(), status: 'bypass' };
+    }
+
+    const key = buildCacheKey(tool, args);
+    const cached = this.get<T>(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      this.hits++;
+      logger.info('Cache hit', { tool, key, ageMs: Date.now() - cached.storedAt });
+      return { value: cached.value, status: 'hit' };
+    }
+
+    this.misses++;
+    logger.info('Cache miss', { tool, key, hasStaleEntry: !!cached });
+
+    try {
+      const value = await load();
+      this.set(key, tool, value);
+      return { value, status: 'miss' };
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+
+      this.staleHits++;
+      logger.warn('Serving stale cache entry after upstream failure', {
+        tool,
+        key,
+        ageMs: Date.now() - cached.storedAt,
+        error: (error as Error).message,
+      });
+      return { value: cached.value, status: 'stale' };
+    }
+  }
+
+  clear(): void {
+    this.backend.clear();
+  }
+
+  /**
+   * Saves pending changes of a file backend, e.g. before the process exits
+   */
+  async flush(): Promise<void> {
+    await this.backend.flush?.();
+  }
+
+  getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      staleHits: this.staleHits,
+      size: this.backend.size(),
+    };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Adaptive source ranking
+ * Keeps recent calls per tool and source, scores each source from its success rate, latency and
+ * rate limits, and moves better sources ahead of worse ones in a tool's failover chain
+ */
+
+import type { ApiSource, FailoverAttempt, SourceScore } from '../types.js';
+import { classifyError } from './error-detection.js';
+
+export interface AdaptiveRoutingConfig {
+  enabled: boolean;
+  /** Calls older than this no longer count, so a demoted source is scored afresh once its window empties */
+  windowMs: number;
+  /** Calls a source needs in the window before it is scored */
+  minSamples: number;
+  /** Points a source must score above one ordered before it to overtake it, so close scores do not reorder */
+  minScoreGap: number;
+}
+
+export const DEFAULT_ADAPTIVE_ROUTING_CONFIG: AdaptiveRoutingConfig = {
+  enabled: true,
+  windowMs: 15 * 60 * 1000,
+  minSamples: 5,
+  minScoreGap: 10,
+};
+
+/** Score assumed for a source without enough recent calls, so one doing worse is moved behind it and it gets tried */
+const NEUTRAL_SCORE = 75;
+const MAX_LATENCY_PENALTY = 50;
+const MAX_RATE_LIMIT_PENALTY = 30;
+const RATE_LIMIT_PENALTY = 10;
+const MAX_CALLS_PER_SOURCE = 100;
+
+interface RankedCall {
+  at: number;
+  durationMs: number;
+  success: boolean;
+  rateLimited: boolean;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export class SourceRanker {
+  private readonly config: AdaptiveRoutingConfig;
+  private readonly calls: Map<string, Map<ApiSource, RankedCall[]>> = new Map();
+
+  constructor(config: Partial<AdaptiveRoutingConfig> = {}) {
+    this.config = { ...DEFAULT_ADAPTIVE_ROUTING_CONFIG, ...config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Counts a call towards the source's score for the tool.
+   * Unknown symbols and rejected arguments say nothing about the source and are left out.
+   */
+  record(tool: string, attempt: FailoverAttempt): void {
+    const code = attempt.success ? undefined : classifyError(attempt.error);
+    if (code === 'NOT_FOUND' || code === 'INVALID_ARGUMENT') {
+      return;
+    }
+    let bySource = this.calls.get(tool);
+    if (!bySource) {
+      bySource = new Map();
+      this.calls.set(tool, bySource);
+    }
+    const window = bySource.get(attempt.source) ?? [];
+    window.push({ at: attempt.endTime, durationMs: attempt.durationMs, success: attempt.success, rateLimited: code === 'RATE_LIMITED' });
+    bySource.set(attempt.source, window.slice(-MAX_CALLS_PER_SOURCE));
+  }
+
+  /**
+   * Scores a source for a tool from its calls in the window:
+   * 100 times the success rate, less up to 50 points for latency ((p50 + p95) / 100 ms)
+   * and 10 points per rate-limited call, up to 30
+   */
+  score(tool: string, source: ApiSource, configuredRank: number, now: number = Date.now()): SourceScore {
+    const window = (this.calls.get(tool)?.get(source) ?? []).filter(call => now - call.at <= this.config.windowMs);
+    const durations = window.map(call => call.durationMs).sort((a, b) => a - b);
+    const successRate = window.length > 0 ? window.filter(call => call.success).length / window.length : null;
+    const p50Ms = durations.length > 0 ? percentile(durations, 0.5) : null;
+    const p95Ms = durations.length > 0 ? percentile(durations, 0.95) : null;
+    const rateLimited = window.filter(call => call.rateLimited).length;
+
+    let score: number | null = null;
+    if (window.length >= this.config.minSamples) {
+      const latencyPenalty = Math.min(MAX_LATENCY_PENALTY, ((p50Ms ?? 0) + (p95Ms ?? 0)) / 100);
+      const rateLimitPenalty = Math.min(MAX_RATE_LIMIT_PENALTY, rateLimited * RATE_LIMIT_PENALTY);
+      score = Math.round(Math.max(0, 100 * (successRate ?? 0) - latencyPenalty - rateLimitPenalty));
+    }
+
+    return { source, configuredRank, score, samples: window.length, successRate, p50Ms, p95Ms, rateLimited };
+  }
+
+  /**
+   * Orders the sources by score, moving a source ahead of an earlier one only when it scores
+   * at least minScoreGap more. Sources not yet scored count as NEUTRAL_SCORE.
+   */
+  rank(tool: string, sources: ApiSource[]): { order: ApiSource[]; scores: SourceScore[] } {
+    const now = Date.now();
+    const scores = sources.map((source, index) => this.score(tool, source, index, now));
+    if (!this.config.enabled) {
+      return { order: [...sources], scores };
+    }
+
+    const ranked = [...scores];
+    const effective = (entry: SourceScore) => entry.score ?? NEUTRAL_SCORE;
+    for (let pass = 0; pass < ranked.length; pass++) {
+      let swapped = false;
+      for (let i = 0; i < ranked.length - 1; i++) {
+        if (effective(ranked[i + 1]) - effective(ranked[i]) >= this.config.minScoreGap) {
+          [ranked[i], ranked[i + 1]] = [ranked[i + 1], ranked[i]];
+          swapped = true;
+        }
+      }
+      if (!swapped) break;
+    }
+    return { order: ranked.map(entry => entry.source), scores };
+  }
+
+  clear(): void {
+    this.calls.clear();
+  }
+}
@@ -1,84 +1,96 @@
-import type { ApiSource } from '../types.js';
+import type { ApiSource, SourceRankingReport } from '../types.js';
 import { logger } from '../logger.js';
 import { getMarketFromSymbol, type Market } from './market-router.js';
+import type { SourceRanker } from './source-ranking.js';
+import { toolRegistry } from '../tools/index.js';
+import { providerRegistry } from '../providers/index.js';
+import { parseSymbol } from '../symbols/index.js';
 
-const VALID_SOURCES: ApiSource[] = ['finnhub', 'alphavantage', 'twelvedata', 'tiingo', 'sina', 'eastmoney'];
-
-const OPTIMAL_SOURCE_MAP: Record<string, ApiSource[]> = {
-  'get_stock_quote': ['finnhub', 'twelvedata', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
-  'get_stock_candles': ['twelvedata', 'finnhub', 'tiingo', 'sina', 'eastmoney'],
-  'get_stock_price_history': ['twelvedata', 'finnhub', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
-  'get_technical_indicator': ['twelvedata', 'alphavantage'],
-  'get_daily_prices': ['tiingo', 'alphavantage', 'twelvedata', 'sina', 'eastmoney'],
-  'get_news': ['tiingo', 'finnhub'],
-  'get_quote': ['twelvedata', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
-  'get_company_overview': ['tiingo', 'alphavantage'],
-  'get_company_info': ['finnhub', 'alphavantage', 'tiingo'],
-  'get_financials': ['finnhub', 'alphavantage'],
-  'get_company_basic_financials': ['finnhub'],
-  'get_company_metrics': ['finnhub'],
-  'get_income_statement': ['alphavantage'],
-  'get_balance_sheet': ['alphavantage'],
-  'get_cash_flow': ['alphavantage'],
-};
-
-const MARKET_SOURCE_FILTER: Record<Market, ApiSource[]> = {
-  'US': ['finnhub', 'twelvedata', 'tiingo', 'alphavantage'],
-  'SH': ['sina', 'eastmoney'],
-  'SZ': ['sina', 'eastmoney'],
-  'BJ': ['sina', 'eastmoney'],
-  'HK': ['finnhub', 'twelvedata', 'sina'],
-  'UNKNOWN': ['finnhub', 'alphavantage', 'sina', 'eastmoney'],
-};
-
-function parseSourcePriorityEnv(toolName: string): ApiSource[] | null {
-  const envKey = `SOURCE_PRIORITY_${toolName.toUpperCase()}`;
-  const envValue = process.env[envKey];
-  
-  if (!envValue) return null;
-  
-  const sources = envValue.split(',')
-    .map(s => s.trim().toLowerCase() as ApiSource)
-    .filter(s => VALID_SOURCES.includes(s));
-  
-  if (sources.length === 0) {
-    logger.warn(`Invalid SOURCE_PRIORITY for ${toolName}, using default`, { envKey, envValue });
-    return null;
-  }
-  
-  logger.debug(`Custom source priority loaded`, { toolName, sources });
-  return sources;
+export interface SourceRouterConfig {
+  /** Per-tool source priority overrides */
+  sourcePriority?: Record<string, ApiSource[]>;
+  /** Per-market source overrides applied when filtering by symbol */
+  marketSources?: Partial<Record<Market, ApiSource[]>>;
 }
 
 export class SourceRouter {
   private customPriorities: Map<string, ApiSource[]> = new Map();
+  private customMarketSources: Map<Market, ApiSource[]> = new Map();
   
-  constructor() {
-    this.loadCustomPriorities();
+  constructor(config?: SourceRouterConfig) {
+    if (config) {
+      this.configure(config);
+    }
   }
   
-  private loadCustomPriorities(): void {
-    for (const toolName of Object.keys(OPTIMAL_SOURCE_MAP)) {
-      const custom = parseSourcePriorityEnv(toolName);
-      if (custom) {
-        this.customPriorities.set(toolName, custom);
-      }
-    }
+  /**
+   * Replaces custom priorities and market sources, typically from the loaded AppConfig
+   */
+  configure(config: SourceRouterConfig): void {
+    this.customPriorities = new Map(Object.entries(config.sourcePriority ?? {}));
+    this.customMarketSources = new Map(Object.entries(config.marketSources ?? {}) as [Market, ApiSource[]][]);
+    logger.debug('Source router configured', {
+      customPriorities: Object.fromEntries(this.customPriorities),
+      marketSources: Object.fromEntries(this.customMarketSources),
+    });
   }
   
-  getSourcesForTool(toolName: string, symbol?: string): ApiSource[] {
+  /**
+   * The tool's sources for the symbol's market. With a ranker, the best recent performers come first
+   * unless the tool has a custom priority, which operators set to pin the order.
+   */
+  getSourcesForTool(toolName: string, symbol?: string, ranker?: SourceRanker): ApiSource[] {
+    const configured = this.getConfiguredSources(toolName, symbol);
+    if (!ranker || this.hasCustomPriority(toolName)) {
+      return configured;
+    }
+    const { order } = ranker.rank(toolName, configured);
+    if (order.some((source, index) => source !== configured[index])) {
+      logger.debug('Sources reordered by recent performance', { toolName, configured, ranked: order });
+    }
+    return order;
+  }
+
+  /**
+   * Shows how the ranker scores and orders the tool's sources, for debugging the ranking
+   */
+  explainRanking(toolName: string, ranker: SourceRanker, symbol?: string): SourceRankingReport {
+    const configured = this.getConfiguredSources(toolName, symbol);
+    const { order, scores } = ranker.rank(toolName, configured);
+    const fixedReason = this.hasCustomPriority(toolName)
+      ? 'custom source priority'
+      : ranker.isEnabled() ? undefined : 'adaptive routing disabled';
+    return {
+      tool: toolName,
+      symbol,
+      adaptive: fixedReason === undefined,
+      fixedReason,
+      configuredOrder: configured,
+      rankedOrder: fixedReason === undefined ? order : configured,
+      scores,
+    };
+  }
+
+  /**
+   * The tool's custom or default priority, filtered by the symbol's market
+   */
+  getConfiguredSources(toolName: string, symbol?: string): ApiSource[] {
     let sources: ApiSource[];
     
     const custom = this.customPriorities.get(toolName);
     if (custom) {
       sources = custom;
     } else {
-      sources = OPTIMAL_SOURCE_MAP[toolName] || ['finnhub'];
+      sources = this.getDefaultSources(toolName);
     }
     
+    if (symbol && parseSymbol(symbol)?.assetClass === 'index') {
+      return this.filterIndexSources(toolName, symbol, sources);
+    }
+
     if (symbol) {
       const market = getMarketFromSymbol(symbol);
-      const marketSources = MARKET_SOURCE_FILTER[market];
+      const marketSources = this.getMarketSources(market);
       sources = sources.filter(s => marketSources.includes(s));
       
       if (sources.length === 0) {
@@ -91,20 +103,47 @@ export class SourceRouter {
     return sources;
   }
   
+  /**
+   * The tool's preferred sources, then any other provider declaring the tool in registration order.
+   * Only providers that declare the tool are included.
+   */
   getDefaultSources(toolName: string): ApiSource[] {
-    return OPTIMAL_SOURCE_MAP[toolName] || ['finnhub'];
+    const capable = providerRegistry.getIdsForTool(toolName);
+    if (capable.length === 0) {
+      return ['finnhub'];
+    }
+    const preferred = (toolRegistry.get(toolName)?.sources ?? []).filter(source => capable.includes(source));
+    return [...preferred, ...capable.filter(source => !preferred.includes(source))];
   }
   
+  /**
+   * Keeps the sources quoting the index's market. Unlike stocks there is no fallback to the whole market,
+   * since a provider without index quotes would answer for the stock sharing the index's code.
+   */
+  private filterIndexSources(toolName: string, symbol: string, sources: ApiSource[]): ApiSource[] {
+    const market = getMarketFromSymbol(symbol);
+    const marketSources = this.getMarketSources(market);
+    const indexSources = providerRegistry.getIdsForIndexMarket(market);
+    const filtered = sources.filter(source => marketSources.includes(source) && indexSources.includes(source));
+    logger.debug('Sources filtered for index', { toolName, symbol, market, sources: filtered });
+    return filtered;
+  }
+
   hasCustomPriority(toolName: string): boolean {
     return this.customPriorities.has(toolName);
   }
   
   getAllToolNames(): string[] {
-    return Object.keys(OPTIMAL_SOURCE_MAP);
+    return toolRegistry.getToolNames();
   }
   
   getMarketSources(market: Market): ApiSource[] {
-    return MARKET_SOURCE_FILTER[market] || MARKET_SOURCE_FILTER['UNKNOWN'];
+    const custom = this.customMarketSources.get(market);
+    if (custom) {
+      return custom;
+    }
+    const covering = providerRegistry.getIdsForMarket(market);
+    return covering.length > 0 ? covering : providerRegistry.getIdsForMarket('UNKNOWN');
   }
 }
 
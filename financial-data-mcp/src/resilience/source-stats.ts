@@ -0,0 +1,81 @@
+/**
+ * Rolling record of recent provider calls
+ * Keeps the latest attempts per source so status reports can show success rates and latencies
+ */
+
+import type { ApiSource, FailoverAttempt, LatencySummary, SourceActivity } from '../types.js';
+
+const DEFAULT_WINDOW_SIZE = 100;
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function summarizeLatency(durations: number[]): LatencySummary | null {
+  if (durations.length === 0) {
+    return null;
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  return {
+    avgMs: Math.round(sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length),
+    p50Ms: percentile(sorted, 0.5),
+    p95Ms: percentile(sorted, 0.95),
+    maxMs: sorted[sorted.length - 1],
+  };
+}
+
+export class SourceStats {
+  private readonly attempts: Map<ApiSource, FailoverAttempt[]> = new Map();
+
+  /**
+   * @param windowSize - Attempts kept per source, older ones are dropped
+   */
+  constructor(private readonly windowSize: number = DEFAULT_WINDOW_SIZE) {}
+
+  record(attempt: FailoverAttempt): void {
+    let window = this.attempts.get(attempt.source);
+    if (!window) {
+      window = [];
+      this.attempts.set(attempt.source, window);
+    }
+    window.push(attempt);
+    if (window.length > this.windowSize) {
+      window.shift();
+    }
+  }
+
+  summarize(source: ApiSource): SourceActivity {
+    const window = this.attempts.get(source) ?? [];
+    const successes = window.filter(attempt => attempt.success);
+    const lastSuccess = successes[successes.length - 1];
+    const lastFailure = window.filter(attempt => !attempt.success).pop();
+
+    return {
+      calls: window.length,
+      successes: successes.length,
+      failures: window.length - successes.length,
+      successRate: window.length > 0 ? successes.length / window.length : null,
+      latency: summarizeLatency(window.map(attempt => attempt.durationMs)),
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess.endTime).toISOString() : undefined,
+      lastFailureAt: lastFailure ? new Date(lastFailure.endTime).toISOString() : undefined,
+      lastError: lastFailure?.error?.message,
+    };
+  }
+
+  /**
+   * Latency at the given fraction (0-1) of the source's recent successful calls
+   * @returns Null when fewer than minSamples calls succeeded
+   */
+  successLatency(source: ApiSource, fraction: number, minSamples: number = 1): number | null {
+    const durations = (this.attempts.get(source) ?? [])
+      .filter(attempt => attempt.success)
+      .map(attempt => attempt.durationMs)
+      .sort((a, b) => a - b);
+    return durations.length >= Math.max(1, minSamples) ? percentile(durations, fraction) : null;
+  }
+
+  clear(): void {
+    this.attempts.clear();
+  }
+}
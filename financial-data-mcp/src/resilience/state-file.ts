@@ -0,0 +1,48 @@
+/**
+ * Files the server keeps state in between restarts
+ * They live in a per-user cache directory only the user can enter, and are replaced through a
+ * freshly created temp file so nobody else can read them or redirect the write.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+const STATE_DIR_MODE = 0o700;
+const STATE_FILE_MODE = 0o600;
+
+/**
+ * The user's cache directory: $XDG_CACHE_HOME, else ~/.cache, else a per-user directory in the
+ * system temp directory when there is no home, as in some containers
+ */
+function userCacheDir(): string {
+  if (process.env.XDG_CACHE_HOME && path.isAbsolute(process.env.XDG_CACHE_HOME)) {
+    return process.env.XDG_CACHE_HOME;
+  }
+  const home = os.homedir();
+  return home ? path.join(home, '.cache') : path.join(os.tmpdir(), `cache-${process.getuid?.() ?? 'default'}`);
+}
+
+/**
+ * Path of a state file in the server's cache directory, e.g. ~/.cache/financial-data-mcp/cache.json
+ */
+export function defaultStateFile(name: string): string {
+  return path.join(userCacheDir(), 'financial-data-mcp', `${name}.json`);
+}
+
+/**
+ * Replaces a state file with `contents`, creating its directory with owner-only access
+ */
+export async function writeStateFile(filePath: string, contents: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true, mode: STATE_DIR_MODE });
+  // A new name opened exclusively, so an existing file or symlink is never written through
+  const tmpPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.promises.writeFile(tmpPath, contents, { flag: 'wx', mode: STATE_FILE_MODE });
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Symbol identity
+ * One canonical SymbolId per security, parsed from any common notation and formatted per provider
+ */
+
+export {
+  parseSymbol,
+  formatSymbol,
+  toCanonicalSymbol,
+  toTickerSymbol,
+  toTwelveDataSymbol,
+  toSinaSymbol,
+  toEastMoneySecid,
+} from './symbol-id.js';
+
+export type { SymbolId, Exchange, AssetClass } from './symbol-id.js';
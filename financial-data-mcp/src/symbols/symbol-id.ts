@@ -0,0 +1,235 @@
+/**
+ * Canonical symbols
+ * Reads the notations callers and providers use for the same security (AAPL, AAPL.US, 600519.SS,
+ * sh600519, 1.600519, 00700.HK, idx:000300, ^GSPC) into one SymbolId, and writes it back out
+ * in each provider's notation
+ */
+
+export type Exchange = 'SH' | 'SZ' | 'BJ' | 'HK' | 'US';
+
+export type AssetClass = 'stock' | 'fund' | 'index';
+
+export interface SymbolId {
+  exchange: Exchange;
+  /**
+   * Six digits on mainland exchanges, five in Hong Kong, the upper-case ticker in the US;
+   * Hong Kong and US indices go by name (HSI, GSPC)
+   */
+  code: string;
+  assetClass: AssetClass;
+}
+
+const SUFFIX_EXCHANGES: Record<string, Exchange> = {
+  SH: 'SH',
+  SS: 'SH',
+  SZ: 'SZ',
+  BJ: 'BJ',
+  HK: 'HK',
+  US: 'US',
+  N: 'US',
+  O: 'US',
+};
+
+/** EastMoney secid market numbers; 0 covers both Shenzhen and Beijing */
+const EASTMONEY_MARKETS: Record<string, Exchange> = { '1': 'SH', '0': 'SZ', '116': 'HK' };
+
+const US_TICKER = /^[A-Z]{1,5}(?:[.-][A-Z]{1,2})?$/;
+
+/** Indices outside the mainland, by the names Yahoo writes after ^ */
+const NAMED_INDICES: Record<string, Exchange> = {
+  HSI: 'HK',
+  HSCEI: 'HK',
+  HSTECH: 'HK',
+  GSPC: 'US',
+  DJI: 'US',
+  IXIC: 'US',
+  NDX: 'US',
+  RUT: 'US',
+  VIX: 'US',
+};
+
+/** Index names accepted without ^ or idx:, the rest would shadow US tickers */
+const BARE_INDEX_NAMES = new Set(['HSI', 'HSCEI', 'HSTECH']);
+
+/** Twelve Data's names for the US indices where they differ from Yahoo's */
+const TWELVEDATA_INDEX_CODES: Record<string, string> = { GSPC: 'SPX' };
+
+/** EastMoney secids of the Hong Kong and US indices it quotes */
+const EASTMONEY_INDEX_SECIDS: Record<string, string> = {
+  HSI: '100.HSI',
+  HSCEI: '100.HSCEI',
+  HSTECH: '124.HSTECH',
+  GSPC: '100.SPX',
+  DJI: '100.DJIA',
+  NDX: '100.NDX',
+};
+
+/**
+ * Guesses the exchange of a bare six-digit code from its leading digits
+ */
+function mainlandExchange(code: string): Exchange | null {
+  if (/^(6|5|90)/.test(code)) return 'SH';
+  if (/^[0-3]/.test(code)) return 'SZ';
+  if (/^(4|8|92)/.test(code)) return 'BJ';
+  return null;
+}
+
+/**
+ * Shanghai 000xxx and Shenzhen 399xxx codes are indices, so 000001.SH is the Shanghai Composite
+ * while a bare 000001 is Ping An Bank on Shenzhen
+ */
+function mainlandAssetClass(exchange: Exchange, code: string): AssetClass {
+  if (exchange === 'SH') {
+    if (code.startsWith('000')) return 'index';
+    if (code.startsWith('5')) return 'fund';
+  }
+  if (exchange === 'SZ') {
+    if (code.startsWith('399')) return 'index';
+    if (code.startsWith('1')) return 'fund';
+  }
+  return 'stock';
+}
+
+/**
+ * Reads the part after idx: or ^, a mainland index code or an index name
+ */
+function toIndexId(code: string): SymbolId | null {
+  if (/^\d{6}$/.test(code)) {
+    const exchange: Exchange = code.startsWith('399') ? 'SZ' : 'SH';
+    return mainlandAssetClass(exchange, code) === 'index' ? { exchange, code, assetClass: 'index' } : null;
+  }
+  const exchange = NAMED_INDICES[code];
+  return exchange ? { exchange, code, assetClass: 'index' } : null;
+}
+
+function toSymbolId(exchange: Exchange, code: string): SymbolId | null {
+  switch (exchange) {
+    case 'SH':
+    case 'SZ':
+    case 'BJ':
+      return /^\d{6}$/.test(code) ? { exchange, code, assetClass: mainlandAssetClass(exchange, code) } : null;
+    case 'HK':
+      return /^\d{1,5}$/.test(code) ? { exchange, code: code.padStart(5, '0'), assetClass: 'stock' } : null;
+    case 'US':
+      return US_TICKER.test(code) ? { exchange, code: code.replace('-', '.'), assetClass: 'stock' } : null;
+  }
+}
+
+/**
+ * Parses a symbol in any supported notation
+ * @returns The SymbolId, or null when the notation is not recognised or the code does not fit its exchange
+ */
+export function parseSymbol(symbol: string): SymbolId | null {
+  const upper = symbol.trim().toUpperCase();
+  let match: RegExpMatchArray | null;
+
+  // idx:000300, idx:HSI, ^GSPC, HSI
+  if ((match = upper.match(/^(?:IDX:|\^)(.+)$/))) {
+    return toIndexId(match[1]);
+  }
+  if (BARE_INDEX_NAMES.has(upper)) {
+    return toIndexId(upper);
+  }
+
+  // 600519.SH, 600519.SS, 00700.HK, AAPL.US, IBM.N
+  if ((match = upper.match(/^(.+)\.(SH|SS|SZ|BJ|HK|US|N|O)$/))) {
+    return toSymbolId(SUFFIX_EXCHANGES[match[2]], match[1]);
+  }
+  // sh600519, hk00700, hkHSI (Sina)
+  if ((match = upper.match(/^(SH|SZ|BJ|HK)(\d+)$/))) {
+    return toSymbolId(match[1] as Exchange, match[2]);
+  }
+  if ((match = upper.match(/^HK([A-Z]+)$/)) && NAMED_INDICES[match[1]] === 'HK') {
+    return toIndexId(match[1]);
+  }
+  // 1.600519, 0.000001, 116.00700 (EastMoney secid)
+  if ((match = upper.match(/^(0|1|116)\.(\d+)$/))) {
+    const exchange = EASTMONEY_MARKETS[match[1]];
+    return toSymbolId(exchange === 'SZ' && mainlandExchange(match[2]) === 'BJ' ? 'BJ' : exchange, match[2]);
+  }
+
+  if (/^\d{6}$/.test(upper)) {
+    const exchange = mainlandExchange(upper);
+    return exchange ? toSymbolId(exchange, upper) : null;
+  }
+  if (/^\d{5}$/.test(upper)) {
+    return toSymbolId('HK', upper);
+  }
+  return toSymbolId('US', upper);
+}
+
+function isNamedIndex(id: SymbolId): boolean {
+  return id.assetClass === 'index' && (id.exchange === 'HK' || id.exchange === 'US');
+}
+
+/**
+ * The canonical notation returned in tool results: code and exchange, e.g. 600519.SH, 00700.HK, AAPL.US,
+ * or ^ and the name for Hong Kong and US indices, e.g. ^HSI, ^GSPC
+ */
+export function formatSymbol(id: SymbolId): string {
+  return isNamedIndex(id) ? `^${id.code}` : `${id.code}.${id.exchange}`;
+}
+
+/**
+ * Canonical notation of a symbol, or undefined when it cannot be parsed
+ */
+export function toCanonicalSymbol(symbol: string): string | undefined {
+  const id = parseSymbol(symbol);
+  return id ? formatSymbol(id) : undefined;
+}
+
+/**
+ * Exchange-suffixed tickers as Finnhub, Tiingo and Alpha Vantage take them:
+ * AAPL, 0700.HK, 600519.SS, 000001.SZ, ^GSPC
+ */
+export function toTickerSymbol(id: SymbolId): string {
+  if (isNamedIndex(id)) {
+    return `^${id.code}`;
+  }
+  switch (id.exchange) {
+    case 'US':
+      return id.code;
+    case 'HK':
+      return `${String(Number(id.code)).padStart(4, '0')}.HK`;
+    case 'SH':
+      return `${id.code}.SS`;
+    default:
+      return `${id.code}.${id.exchange}`;
+  }
+}
+
+/**
+ * Twelve Data takes tickers like the others, but names indices without ^ (SPX, IXIC, HSI)
+ */
+export function toTwelveDataSymbol(id: SymbolId): string {
+  return isNamedIndex(id) ? TWELVEDATA_INDEX_CODES[id.code] ?? id.code : toTickerSymbol(id);
+}
+
+/**
+ * Sina quote codes: sh600519, sz000001, bj430047, hk00700, hkHSI. Sina has no US quotes in the
+ * A-share layout its client parses, so US tickers are sent as they are.
+ */
+export function toSinaSymbol(id: SymbolId): string {
+  return id.exchange === 'US' ? id.code.toLowerCase() : `${id.exchange.toLowerCase()}${id.code}`;
+}
+
+/**
+ * EastMoney secid, {market}.{code}: 1 for Shanghai, 0 for Shenzhen and Beijing, 116 for Hong Kong.
+ * Hong Kong and US indices have secids of their own; those EastMoney does not quote, like US tickers,
+ * are sent as they are.
+ */
+export function toEastMoneySecid(id: SymbolId): string {
+  if (isNamedIndex(id)) {
+    return EASTMONEY_INDEX_SECIDS[id.code] ?? id.code;
+  }
+  switch (id.exchange) {
+    case 'SH':
+      return `1.${id.code}`;
+    case 'HK':
+      return `116.${id.code}`;
+    case 'US':
+      return id.code;
+    default:
+      return `0.${id.code}`;
+  }
+}
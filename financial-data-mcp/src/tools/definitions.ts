@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { defineTool, type ToolDefinition } from './registry.js';
+import {
+  symbolSchema,
+  indexSymbolSchema,
+  timestampSchema,
+  wholeNumberSchema,
+  candleResolutionSchema,
+  historyResolutionSchema,
+  reportingPeriodSchema,
+  financialsStatementTypeSchema,
+  quoteSchema,
+  batchQuotesSchema,
+  priceSeriesSchema,
+  newsFeedSchema,
+  companyProfileSchema,
+  companyMetricsSchema,
+  financialStatementSchema,
+  financialStatementSetSchema,
+  indicatorSeriesSchema,
+  indexConstituentsSchema,
+  providerStatusReportSchema,
+} from './schemas.js';
+
+/** Upper bound on symbols per get_batch_quotes call, keeping batch URLs within provider limits */
+export const MAX_BATCH_SYMBOLS = 100;
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DEFAULT_CANDLE_DAYS = 30;
+const DEFAULT_HISTORY_DAYS = 365;
+
+const symbolInput = z.object({
+  symbol: symbolSchema.describe('Stock or index symbol in any common notation (e.g., AAPL, 600519.SH, sh600519, 00700.HK, idx:000300, ^GSPC, HSI)'),
+});
+
+const consensusInput = z.boolean().default(false).describe(
+  'Ask several sources and compare their answers; the result then carries a consensus report flagging any source off the median or stale'
+);
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  defineTool({
+    name: 'get_stock_quote',
+    description: 'Get real-time stock quote, or the current level of an index',
+    input: symbolInput.extend({ consensus: consensusInput }),
+    output: quoteSchema,
+    sources: ['finnhub', 'twelvedata', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
+    cacheTtlSeconds: 15,
+    handler: (client, { symbol, consensus }) => consensus ? client.getConsensusQuote(symbol) : client.getStockQuote(symbol),
+  }),
+  defineTool({
+    name: 'get_quote',
+    description: 'Get real-time quote',
+    input: symbolInput,
+    output: quoteSchema,
+    sources: ['twelvedata', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
+    cacheTtlSeconds: 15,
+    handler: (client, { symbol }) => client.getQuote(symbol),
+  }),
+  defineTool({
+    name: 'get_batch_quotes',
+    description: 'Get real-time quotes for many symbols at once, with a per-symbol error for any that fail',
+    input: z.object({
+      symbols: z.array(symbolSchema).min(1).max(MAX_BATCH_SYMBOLS)
+        .describe('Stock symbols, markets may be mixed (e.g., ["AAPL", "600519.SH", "000001.SZ"])'),
+    }),
+    output: batchQuotesSchema,
+    // Native batch endpoints; quotes are cached as get_stock_quote entries
+    sources: ['sina', 'eastmoney'],
+    handler: (client, { symbols }) => client.getBatchQuotes(symbols),
+  }),
+  defineTool({
+    name: 'get_stock_candles',
+    description: 'Get historical candle data',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      resolution: candleResolutionSchema.default('D').describe('Time resolution (1, 5, 15, 30, 60, D, W, M)'),
+      from: timestampSchema.optional().describe('Start as epoch seconds or YYYY-MM-DD (default: 30 days before to)'),
+      to: timestampSchema.optional().describe('End as epoch seconds or YYYY-MM-DD (default: now)'),
+    }),
+    output: priceSeriesSchema,
+    sources: ['twelvedata', 'finnhub', 'tiingo', 'sina', 'eastmoney'],
+    cacheTtlSeconds: 300,
+    handler: (client, { symbol, resolution, from, to = nowSeconds() }) =>
+      client.getStockCandles(symbol, resolution, from ?? to - DEFAULT_CANDLE_DAYS * DAY_SECONDS, to),
+  }),
+  defineTool({
+    name: 'get_stock_price_history',
+    description: 'Get historical price bars from whichever source answers, weekly and monthly bars rolled up from daily ones where a source has no native support',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      resolution: historyResolutionSchema.default('D')
+        .describe('Time resolution (1, 5, 15, 30, 60, D, W, M or daily, weekly, monthly)'),
+      from: timestampSchema.optional().describe('Start as epoch seconds or YYYY-MM-DD (default: one year before to)'),
+      to: timestampSchema.optional().describe('End as epoch seconds or YYYY-MM-DD (default: now)'),
+    }),
+    output: priceSeriesSchema,
+    sources: ['twelvedata', 'finnhub', 'tiingo', 'alphavantage', 'sina', 'eastmoney'],
+    cacheTtlSeconds: 300,
+    handler: (client, { symbol, resolution, from, to = nowSeconds() }) =>
+      client.getStockPriceHistory(symbol, resolution, from ?? to - DEFAULT_HISTORY_DAYS * DAY_SECONDS, to),
+  }),
+  defineTool({
+    name: 'get_daily_prices',
+    description: 'Get daily prices',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      outputsize: z.enum(['compact', 'full']).default('compact').describe('Output size (compact, full)'),
+      consensus: consensusInput,
+    }),
+    output: priceSeriesSchema,
+    sources: ['tiingo', 'alphavantage', 'twelvedata', 'sina', 'eastmoney'],
+    cacheTtlSeconds: 3600,
+    handler: (client, { symbol, outputsize, consensus }) =>
+      consensus ? client.getConsensusDailyPrices(symbol, outputsize) : client.getDailyPrices(symbol, outputsize),
+  }),
+  defineTool({
+    name: 'get_technical_indicator',
+    description: 'Get technical indicator',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      indicator: z.string().trim().min(1).describe('Indicator name (e.g., SMA, EMA, RSI, MACD)'),
+      interval: z.enum(['1min', '5min', '15min', '30min', '60min', 'daily', 'weekly', 'monthly']).default('daily')
+        .describe('Time interval'),
+      time_period: wholeNumberSchema.default(14).describe('Number of data points per indicator value'),
+    }),
+    output: indicatorSeriesSchema,
+    sources: ['twelvedata', 'alphavantage'],
+    cacheTtlSeconds: 3600,
+    handler: (client, { symbol, indicator, interval, time_period }) =>
+      client.getTechnicalIndicator(symbol, indicator, interval, String(time_period)),
+  }),
+  defineTool({
+    name: 'get_news',
+    description: 'Get news for a symbol',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      category: z.string().optional().describe('News category'),
+      minId: wholeNumberSchema.optional().describe('Minimum news ID'),
+    }),
+    output: newsFeedSchema,
+    sources: ['tiingo', 'finnhub'],
+    cacheTtlSeconds: 600,
+    handler: (client, { symbol, category, minId }) => client.getNews(symbol, category, minId),
+  }),
+  defineTool({
+    name: 'get_company_info',
+    description: 'Get company information (name, industry, sector, market cap, shares outstanding)',
+    input: symbolInput,
+    output: companyProfileSchema,
+    sources: ['finnhub', 'alphavantage', 'tiingo'],
+    cacheTtlSeconds: 7 * 24 * 3600,
+    handler: (client, { symbol }) => client.getCompanyInfo(symbol),
+  }),
+  defineTool({
+    name: 'get_company_overview',
+    description: 'Get company overview',
+    input: symbolInput,
+    output: companyProfileSchema,
+    sources: ['tiingo', 'alphavantage'],
+    cacheTtlSeconds: 7 * 24 * 3600,
+    handler: (client, { symbol }) => client.getCompanyOverview(symbol),
+  }),
+  defineTool({
+    name: 'get_financials',
+    description: 'Get financial statements (income, balance sheet, cash flow) for one reporting period',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      period: reportingPeriodSchema.default('annual').describe('Reporting period'),
+      statementType: financialsStatementTypeSchema.default('all').describe('Statement to return'),
+    }),
+    output: financialStatementSetSchema,
+    sources: ['alphavantage', 'finnhub'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol, period, statementType }) => client.getFinancials(symbol, period, statementType),
+  }),
+  defineTool({
+    name: 'get_company_basic_financials',
+    description: 'Get company basic financials',
+    input: symbolInput,
+    output: companyMetricsSchema,
+    sources: ['finnhub'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol }) => client.getCompanyBasicFinancials(symbol),
+  }),
+  defineTool({
+    name: 'get_company_metrics',
+    description: 'Get company metrics',
+    input: z.object({
+      symbol: symbolSchema.describe('Stock symbol'),
+      metricType: z.string().optional().describe('Metric type (all, income_statement, balance_sheet, cash_flow_statement)'),
+    }),
+    output: companyMetricsSchema,
+    sources: ['finnhub'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol, metricType }) => client.getCompanyMetrics(symbol, metricType),
+  }),
+  defineTool({
+    name: 'get_income_statement',
+    description: 'Get income statement',
+    input: symbolInput,
+    output: financialStatementSchema,
+    sources: ['alphavantage'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol }) => client.getIncomeStatement(symbol),
+  }),
+  defineTool({
+    name: 'get_balance_sheet',
+    description: 'Get balance sheet',
+    input: symbolInput,
+    output: financialStatementSchema,
+    sources: ['alphavantage'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol }) => client.getBalanceSheet(symbol),
+  }),
+  defineTool({
+    name: 'get_cash_flow',
+    description: 'Get cash flow statement',
+    input: symbolInput,
+    output: financialStatementSchema,
+    sources: ['alphavantage'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol }) => client.getCashFlow(symbol),
+  }),
+  defineTool({
+    name: 'get_index_constituents',
+    description: 'Get the member stocks of an index. Only CSI 300 (000300.SH), SSE 50 (000016.SH) and CSI 500 (000905.SH) are supported',
+    input: z.object({
+      symbol: indexSymbolSchema.describe('Index symbol (e.g., 000300.SH, idx:000300, 000016.SH)'),
+    }),
+    output: indexConstituentsSchema,
+    sources: ['eastmoney'],
+    cacheTtlSeconds: 24 * 3600,
+    handler: (client, { symbol }) => client.getIndexConstituents(symbol),
+  }),
+  defineTool({
+    name: 'get_provider_status',
+    description: 'Diagnose data providers: configured keys and their cooldowns, circuit state, recent success rates and latencies, '
+      + 'health check results, proxy pool health and, for a tool, how its sources are scored and ordered',
+    input: z.object({
+      source: z.string().trim().toLowerCase().optional().describe('Provider id to report on (default: all providers)'),
+      checkHealth: z.boolean().default(false)
+        .describe('Run each provider\'s health check now, which spends a request of its quota; otherwise the last result is reported'),
+      tool: z.string().trim().optional().describe('Tool whose source ranking to explain, e.g. get_stock_candles'),
+      symbol: symbolSchema.optional().describe('Symbol whose market filters the ranked sources'),
+    }),
+    output: providerStatusReportSchema,
+    sources: [],
+    handler: (client, { source, checkHealth, tool, symbol }) => client.getProviderStatus({ source, checkHealth, tool, symbol }),
+  }),
+];
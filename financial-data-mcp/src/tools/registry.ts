@@ -0,0 +1,145 @@
+/**
+ * Tool registry
+ * Each tool is declared once with its argument and result schemas, handler, cache policy and preferred sources;
+ * the MCP tool list, argument validation and cache TTLs are derived from it
+ */
+
+import { z } from 'zod';
+import type { ApiSource } from '../types.js';
+import type { ResilientApiClient } from '../resilience/resilient-api-client.js';
+
+export interface ToolDefinition<I extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  input: I;
+  output: z.ZodType;
+  /** Default priority of the providers serving the tool; other providers declaring it follow */
+  sources: ApiSource[];
+  /** Freshness of cached results; unset for tools that reuse another tool's cache entries */
+  cacheTtlSeconds?: number;
+  handler(client: ResilientApiClient, args: z.output<I>): Promise<unknown>;
+}
+
+/** A tool as listed to MCP clients */
+export interface ListedTool {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; [key: string]: unknown };
+  outputSchema: { type: 'object'; [key: string]: unknown };
+}
+
+export interface ParsedToolArguments {
+  args: Record<string, unknown>;
+  includeMeta: boolean;
+}
+
+const INCLUDE_META_SCHEMA = z.boolean().optional().describe(
+  'Return { data, meta } where meta names the source that answered, every failover attempt with its duration and error, and the cache status'
+);
+
+export class ToolArgumentError extends Error {
+  readonly code = 'INVALID_ARGUMENT';
+
+  constructor(public tool: string, public issues: string[]) {
+    super(`Invalid arguments for ${tool}: ${issues.join('; ')}`);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+export class UnknownToolError extends Error {
+  readonly code = 'UNKNOWN_TOOL';
+
+  constructor(public tool: string) {
+    super(`Unknown tool: ${tool}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+/**
+ * Keeps the handler's argument type tied to the input schema
+ */
+export function defineTool<I extends z.ZodObject>(definition: ToolDefinition<I>): ToolDefinition<I> {
+  return definition;
+}
+
+/**
+ * JSON Schema for MCP clients, draft-07 so the SDK's default validator accepts it.
+ * Arguments are described as clients send them, before defaults and conversions apply.
+ */
+function toJsonSchema(schema: z.ZodType): { type: 'object'; [key: string]: unknown } {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { target: 'draft-7', io: 'input' });
+  return jsonSchema as { type: 'object'; [key: string]: unknown };
+}
+
+function formatIssue(issue: z.core.$ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+export class ToolRegistry {
+  private readonly tools: Map<string, ToolDefinition> = new Map();
+
+  constructor(definitions: ToolDefinition[]) {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool ${definition.name} is defined twice`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  getToolNames(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  listTools(): ListedTool[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toJsonSchema(tool.input.extend({ includeMeta: INCLUDE_META_SCHEMA })),
+      outputSchema: toJsonSchema(tool.output),
+    }));
+  }
+
+  /**
+   * Validates arguments against the tool's input schema, applying defaults and conversions.
+   * Unknown arguments are dropped.
+   * @throws ToolArgumentError listing every invalid argument
+   */
+  parseArguments(name: string, args: unknown): ParsedToolArguments {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+
+    const result = tool.input.extend({ includeMeta: INCLUDE_META_SCHEMA }).safeParse(args ?? {});
+    if (!result.success) {
+      throw new ToolArgumentError(name, result.error.issues.map(formatIssue));
+    }
+
+    const { includeMeta, ...parsed } = result.data;
+    return { args: parsed, includeMeta: includeMeta === true };
+  }
+
+  /**
+   * Runs a tool with arguments already returned by parseArguments
+   */
+  call(client: ResilientApiClient, name: string, args: Record<string, unknown>): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+    return tool.handler(client, args);
+  }
+
+  getCacheTtls(): Record<string, number> {
+    return Object.fromEntries(
+      [...this.tools.values()]
+        .filter(tool => tool.cacheTtlSeconds !== undefined)
+        .map(tool => [tool.name, tool.cacheTtlSeconds as number])
+    );
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Shared zod schemas for tool arguments and results
+ * Result schemas mirror the normalized types in types.ts and are published as each tool's outputSchema
+ */
+
+import { z } from 'zod';
+import type {
+  ApiSource,
+  NormalizedQuote,
+  PriceSeries,
+  NewsFeed,
+  CompanyProfile,
+  FinancialStatement,
+  FinancialStatementSet,
+  CompanyMetrics,
+  IndicatorSeries,
+  IndexConstituents,
+  BatchQuotes,
+  ProviderStatusReport,
+} from '../types.js';
+import { parseSymbol } from '../symbols/index.js';
+
+/** Provider ids are open-ended since plugins register their own */
+export const apiSourceSchema: z.ZodType<ApiSource> = z.string().describe('Id of the provider that answered');
+
+export const symbolSchema = z.string().trim().min(1, 'expected a non-empty stock symbol');
+
+export const indexSymbolSchema = symbolSchema.refine(
+  symbol => parseSymbol(symbol)?.assetClass === 'index',
+  'expected an index symbol such as 000300.SH, idx:000300, ^GSPC or HSI'
+);
+
+const DATE_HINT = 'expected epoch seconds or a date such as 2024-01-31';
+
+/**
+ * Epoch seconds or milliseconds, or a date string, read as epoch seconds
+ */
+export const timestampSchema = z
+  .union([z.number(), z.string()], { error: DATE_HINT })
+  .transform((value, ctx) => {
+    const numeric = typeof value === 'number' ? value : value.trim() === '' ? NaN : Number(value);
+    if (Number.isFinite(numeric)) {
+      return Math.floor(numeric > 1e12 ? numeric / 1000 : numeric);
+    }
+    const parsed = new Date(String(value)).getTime();
+    if (isNaN(parsed)) {
+      ctx.addIssue({ code: 'custom', message: `${DATE_HINT}, got "${value}"` });
+      return z.NEVER;
+    }
+    return Math.floor(parsed / 1000);
+  });
+
+const WHOLE_NUMBER_HINT = 'expected a whole number';
+
+/**
+ * A whole number given as a number or a string of digits
+ */
+export const wholeNumberSchema = z
+  .union([
+    z.number().int(WHOLE_NUMBER_HINT),
+    z.string().trim().regex(/^\d+$/, WHOLE_NUMBER_HINT),
+  ], { error: WHOLE_NUMBER_HINT })
+  .transform(Number);
+
+export const candleResolutionSchema = z.enum(['1', '5', '15', '30', '60', 'D', 'W', 'M']);
+
+export const historyResolutionSchema = z.enum([...candleResolutionSchema.options, 'daily', 'weekly', 'monthly']);
+
+const resultMetadata = {
+  source: apiSourceSchema,
+  canonicalSymbol: z.string().optional().describe('The requested symbol in canonical notation, e.g. AAPL.US, 600519.SH, 00700.HK'),
+  asOf: z.string(),
+};
+
+const consensusSchema = z.object({
+  sources: z.array(apiSourceSchema),
+  failedSources: z.array(apiSourceSchema),
+  field: z.string(),
+  median: z.number().nullable(),
+  tolerancePct: z.number(),
+  agreed: z.boolean(),
+  discrepancies: z.array(z.object({
+    source: apiSourceSchema,
+    kind: z.enum(['deviation', 'stale']),
+    field: z.string(),
+    date: z.string().optional(),
+    value: z.number().optional(),
+    median: z.number().optional(),
+    deviationPct: z.number().optional(),
+    lagMs: z.number().optional(),
+  })),
+}).describe('How the sources asked compare, present when consensus was requested');
+
+export const quoteSchema: z.ZodType<NormalizedQuote> = z.object({
+  symbol: z.string(),
+  currentPrice: z.number(),
+  change: z.number(),
+  percentChange: z.number(),
+  highPriceOfDay: z.number(),
+  lowPriceOfDay: z.number(),
+  openPriceOfDay: z.number(),
+  previousClosePrice: z.number(),
+  ...resultMetadata,
+  consensus: consensusSchema.optional(),
+});
+
+export const priceSeriesSchema: z.ZodType<PriceSeries> = z.object({
+  symbol: z.string(),
+  prices: z.array(z.object({
+    date: z.string(),
+    open: z.number(),
+    high: z.number(),
+    low: z.number(),
+    close: z.number(),
+    volume: z.number(),
+    adjustedClose: z.number().optional(),
+  })),
+  ...resultMetadata,
+  consensus: consensusSchema.optional(),
+});
+
+export const newsFeedSchema: z.ZodType<NewsFeed> = z.object({
+  symbol: z.string(),
+  articles: z.array(z.object({
+    category: z.string().optional(),
+    datetime: z.number().optional(),
+    publishedAt: z.string().optional(),
+    headline: z.string().optional(),
+    id: z.number().optional(),
+    image: z.string().optional(),
+    related: z.string().optional(),
+    source: z.string().optional(),
+    summary: z.string().optional(),
+    url: z.string().optional(),
+  })),
+  ...resultMetadata,
+});
+
+export const companyProfileSchema: z.ZodType<CompanyProfile> = z.object({
+  symbol: z.string(),
+  companyName: z.string(),
+  industry: z.string().optional(),
+  sector: z.string().optional(),
+  marketCap: z.number().optional(),
+  sharesOutstanding: z.number().optional(),
+  description: z.string().optional(),
+  ...resultMetadata,
+});
+
+const statementTypeSchema = z.enum(['income', 'balance', 'cashflow']);
+
+const financialReportSchema = z.object({
+  fiscalDateEnding: z.string(),
+  reportedCurrency: z.string().optional(),
+  values: z.record(z.string(), z.number().nullable()),
+});
+
+export const financialStatementSchema: z.ZodType<FinancialStatement> = z.object({
+  symbol: z.string(),
+  statementType: statementTypeSchema,
+  annualReports: z.array(financialReportSchema),
+  quarterlyReports: z.array(financialReportSchema),
+  ...resultMetadata,
+});
+
+export const reportingPeriodSchema = z.enum(['annual', 'quarterly']);
+
+export const financialsStatementTypeSchema = z.enum(['income', 'balance', 'cash', 'all']);
+
+export const financialStatementSetSchema: z.ZodType<FinancialStatementSet> = z.object({
+  symbol: z.string(),
+  period: reportingPeriodSchema,
+  statementType: financialsStatementTypeSchema,
+  incomeStatement: z.object({
+    revenue: z.number().optional(),
+    netIncome: z.number().optional(),
+    grossProfit: z.number().optional(),
+  }).optional(),
+  balanceSheet: z.object({
+    totalAssets: z.number().optional(),
+    totalLiabilities: z.number().optional(),
+    totalEquity: z.number().optional(),
+  }).optional(),
+  cashFlowStatement: z.object({
+    operatingCashFlow: z.number().optional(),
+    investingCashFlow: z.number().optional(),
+    financingCashFlow: z.number().optional(),
+    freeCashFlow: z.number().optional(),
+  }).optional(),
+  statements: z.partialRecord(statementTypeSchema, z.array(financialReportSchema)),
+  ...resultMetadata,
+});
+
+const metricSeriesSchema = z.record(z.string(), z.array(z.object({ period: z.string(), value: z.number() })));
+
+export const companyMetricsSchema: z.ZodType<CompanyMetrics> = z.object({
+  symbol: z.string(),
+  metricType: z.string(),
+  metrics: z.record(z.string(), z.number()),
+  series: z.object({
+    annual: metricSeriesSchema,
+    quarterly: metricSeriesSchema,
+  }),
+  ...resultMetadata,
+});
+
+export const indicatorSeriesSchema: z.ZodType<IndicatorSeries> = z.object({
+  symbol: z.string(),
+  indicator: z.string(),
+  interval: z.string().optional(),
+  values: z.array(z.object({
+    date: z.string(),
+    value: z.number(),
+    components: z.record(z.string(), z.number()).optional(),
+  })),
+  ...resultMetadata,
+});
+
+export const indexConstituentsSchema: z.ZodType<IndexConstituents> = z.object({
+  symbol: z.string(),
+  constituents: z.array(z.object({
+    symbol: z.string(),
+    name: z.string().optional(),
+  })),
+  ...resultMetadata,
+});
+
+export const batchQuotesSchema: z.ZodType<BatchQuotes> = z.object({
+  quotes: z.array(z.object({
+    symbol: z.string(),
+    quote: quoteSchema.optional(),
+    error: z.string().optional(),
+    code: z.string().optional(),
+  })),
+  succeeded: z.number(),
+  failed: z.number(),
+});
+
+const latencySchema = z.object({
+  avgMs: z.number(),
+  p50Ms: z.number(),
+  p95Ms: z.number(),
+  maxMs: z.number(),
+});
+
+const dailyUsageSchema = z.object({
+  used: z.number(),
+  limit: z.number(),
+  resetsAt: z.string(),
+});
+
+const providerStatusSchema = z.object({
+  source: apiSourceSchema,
+  name: z.string(),
+  configured: z.boolean(),
+  available: z.boolean(),
+  keys: z.object({
+    configured: z.number(),
+    available: z.number(),
+    entries: z.array(z.object({
+      index: z.number(),
+      usageCount: z.number(),
+      lastUsedAt: z.string().optional(),
+      inCooldown: z.boolean(),
+      cooldownUntil: z.string().optional(),
+      quota: z.object({
+        remaining: z.number(),
+        limit: z.number().optional(),
+        resetAt: z.string().optional(),
+        low: z.boolean(),
+      }).optional(),
+      dailyBudget: dailyUsageSchema.optional(),
+    })),
+  }).nullable(),
+  circuit: z.object({
+    state: z.enum(['closed', 'open', 'half-open']),
+    failureCount: z.number(),
+    lastFailureAt: z.string().optional(),
+    lastStateChangeAt: z.string().optional(),
+    rejectingCalls: z.boolean(),
+    retryAt: z.string().optional(),
+  }).nullable(),
+  rateLimit: z.object({
+    requestsPerSecond: z.number().optional(),
+    requestsPerMinute: z.number().optional(),
+    requestsPerDay: z.number().optional(),
+    minIntervalMs: z.number().optional(),
+    dailyBudget: dailyUsageSchema.optional(),
+  }).nullable(),
+  activity: z.object({
+    calls: z.number(),
+    successes: z.number(),
+    failures: z.number(),
+    successRate: z.number().nullable(),
+    latency: latencySchema.nullable(),
+    lastSuccessAt: z.string().optional(),
+    lastFailureAt: z.string().optional(),
+    lastError: z.string().optional(),
+  }),
+  health: z.object({
+    healthy: z.boolean(),
+    checkedAt: z.string(),
+    durationMs: z.number(),
+    error: z.string().optional(),
+  }).optional(),
+});
+
+const proxyModeSchema = z.enum(['direct', 'prefer', 'require']);
+
+export const providerStatusReportSchema: z.ZodType<ProviderStatusReport> = z.object({
+  generatedAt: z.string(),
+  providers: z.array(providerStatusSchema),
+  proxyPool: z.object({
+    total: z.number(),
+    available: z.number(),
+    rotationStrategy: z.string(),
+    mode: proxyModeSchema,
+    providerModes: z.record(z.string(), proxyModeSchema),
+    proxies: z.array(z.object({
+      url: z.string(),
+      protocol: z.enum(['http', 'https', 'socks5']),
+      weight: z.number(),
+      failureCount: z.number(),
+      inCooldown: z.boolean(),
+      cooldownUntil: z.string().optional(),
+    })),
+  }),
+  coalescing: z.object({
+    enabled: z.boolean(),
+    requests: z.number(),
+    coalesced: z.number(),
+    inFlight: z.number(),
+    coalescedByTool: z.record(z.string(), z.number()),
+  }),
+  ranking: z.object({
+    tool: z.string(),
+    symbol: z.string().optional(),
+    adaptive: z.boolean(),
+    fixedReason: z.string().optional(),
+    configuredOrder: z.array(apiSourceSchema),
+    rankedOrder: z.array(apiSourceSchema),
+    scores: z.array(z.object({
+      source: apiSourceSchema,
+      configuredRank: z.number(),
+      score: z.number().nullable(),
+      samples: z.number(),
+      successRate: z.number().nullable(),
+      p50Ms: z.number().nullable(),
+      p95Ms: z.number().nullable(),
+      rateLimited: z.number(),
+    })),
+  }).optional(),
+});
@@ -0,0 +1,311 @@
+/**
+ * Streamable HTTP transport
+ * Serves MCP at /mcp so one long-running server can be shared by several clients.
+ * Clients that initialize get a session (Mcp-Session-Id header); a POST without a session
+ * is answered statelessly, which lets plain JSON-RPC clients call tools directly.
+ * Requests naming a host or origin other than the server's own are refused, so a web page
+ * cannot reach a local server through a rebound DNS name.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server as NodeHttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import { networkInterfaces } from 'os';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../logger.js';
+
+export interface TransportConfig {
+  /** Serve MCP over stdin/stdout */
+  stdio: boolean;
+  /** Serve MCP Streamable HTTP on httpHost:httpPort */
+  http: boolean;
+  httpHost: string;
+  /** 0 picks a free port */
+  httpPort: number;
+  /** Sessions without a request for this long are closed, 0 keeps them until the client deletes them */
+  sessionIdleTimeoutMs: number;
+}
+
+export type HttpServerConfig = Pick<TransportConfig, 'httpHost' | 'httpPort' | 'sessionIdleTimeoutMs'>;
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const SESSION_HEADER = 'mcp-session-id';
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_SWEEP_INTERVAL_MS = 60000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+type BodyResult = { ok: true; value: unknown } | { ok: false; status: number; code: number; message: string };
+
+export class McpHttpServer {
+  private readonly sessions: Map<string, Session> = new Map();
+  private readonly startedAt = Date.now();
+  private httpServer?: NodeHttpServer;
+  private sweepTimer?: NodeJS.Timeout;
+  private allowedHosts: Set<string> = new Set();
+
+  /**
+   * @param createServer Builds a fresh MCP server; each session and each stateless request gets its own
+   */
+  constructor(
+    private readonly config: HttpServerConfig,
+    private readonly createServer: () => Server
+  ) {}
+
+  async start(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('HTTP request failed', { method: req.method, url: req.url, error: (error as Error).message });
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.httpPort, this.config.httpHost, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+    this.allowedHosts = allowedHosts(this.config.httpHost, this.getPort());
+
+    if (this.config.sessionIdleTimeoutMs > 0) {
+      const interval = Math.min(this.config.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS);
+      this.sweepTimer = setInterval(() => void this.closeIdleSessions(), interval);
+      this.sweepTimer.unref();
+    }
+
+    logger.info('Financial Data MCP Server listening on HTTP', {
+      url: `http://${this.config.httpHost}:${this.getPort()}${MCP_PATH}`,
+    });
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.closeSession(sessionId)));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Port actually bound, which differs from the configured one when that is 0
+   */
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return typeof address === 'object' && address ? address.port : this.config.httpPort;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH) {
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const rejected = this.checkHostAndOrigin(req);
+    if (rejected) {
+      logger.warn('Refused MCP request from a foreign host or origin', { host: req.headers.host, origin: req.headers.origin });
+      sendJsonRpcError(res, 403, -32000, rejected);
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      const parsed = await readJsonBody(req);
+      if (!parsed.ok) {
+        sendJsonRpcError(res, parsed.status, parsed.code, parsed.message);
+        return;
+      }
+      body = parsed.value;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    if (isInitializeRequest(body)) {
+      await this.startSession(req, res, body);
+    } else {
+      await this.handleStatelessRequest(req, res, body);
+    }
+  }
+
+  /**
+   * The reason to refuse a request whose Host, or Origin when a browser sent one, is not this server
+   */
+  private checkHostAndOrigin(req: IncomingMessage): string | undefined {
+    if (!req.headers.host || !this.allowedHosts.has(req.headers.host.toLowerCase())) {
+      return `Forbidden: host ${req.headers.host ?? '(none)'} is not allowed`;
+    }
+
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return undefined;
+    }
+    let originHost: string | undefined;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      originHost = undefined;
+    }
+    return originHost && this.allowedHosts.has(originHost) ? undefined : `Forbidden: origin ${origin} is not allowed`;
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, { server, transport, lastActivity: Date.now() });
+        logger.info('MCP session started', { sessionId, sessions: this.sessions.size });
+      },
+    });
+
+    // Set before connect, which chains its own close handler onto this one
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info('MCP session closed', { sessionId, sessions: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleStatelessRequest(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    await session.transport.close();
+    await session.server.close();
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.config.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        logger.info('Closing idle MCP session', { sessionId, idleMs: Date.now() - session.lastActivity });
+        await this.closeSession(sessionId);
+      }
+    }
+  }
+}
+
+/**
+ * Host header values that name this server: the configured host, its loopback aliases, and every
+ * local address when bound to all interfaces
+ */
+function allowedHosts(httpHost: string, port: number): Set<string> {
+  const host = httpHost.toLowerCase();
+  const names = new Set([host]);
+  if (LOOPBACK_HOSTS.includes(host) || WILDCARD_HOSTS.includes(host)) {
+    LOOPBACK_HOSTS.forEach(name => names.add(name));
+  }
+  if (WILDCARD_HOSTS.includes(host)) {
+    for (const addresses of Object.values(networkInterfaces())) {
+      addresses?.forEach(({ address }) => names.add(address.toLowerCase()));
+    }
+  }
+
+  const hosts = new Set<string>();
+  for (const name of names) {
+    const hostname = name.includes(':') ? `[${name}]` : name;
+    hosts.add(`${hostname}:${port}`);
+    if (port === 80) {
+      hosts.add(hostname);
+    }
+  }
+  return hosts;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<BodyResult> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return { ok: false, status: 413, code: -32000, message: `Request body exceeds ${MAX_BODY_BYTES} bytes` };
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(Buffer.concat(chunks).toString('utf-8')) };
+  } catch {
+    return { ok: false, status: 400, code: -32700, message: 'Parse error: Invalid JSON' };
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,7 @@
+/**
+ * MCP transports beyond stdio
+ */
+
+export { McpHttpServer } from './http-server.js';
+
+export type { TransportConfig, HttpServerConfig } from './http-server.js';
@@ -7,6 +7,8 @@ export interface StockQuote {
   lowPriceOfDay: number;
   openPriceOfDay: number;
   previousClosePrice: number;
+  /** Provider timestamp of the quote, when the provider reports one */
+  asOf?: string;
 }
 
 export interface HistoricalPrice {
@@ -21,7 +23,7 @@ export interface HistoricalPrice {
 
 export interface CompanyFinancials {
   symbol: string;
-  period?: 'annual' | 'quarterly';
+  period?: ReportingPeriod;
   incomeStatement?: {
     revenue?: number;
     netIncome?: number;
@@ -52,7 +54,10 @@ export interface CompanyInfo {
 
 export interface NewsItem {
   category?: string;
+  /** Publication time in epoch seconds */
   datetime?: number;
+  /** Publication time as an ISO timestamp */
+  publishedAt?: string;
   headline?: string;
   id?: number;
   image?: string;
@@ -65,10 +70,186 @@ export interface NewsItem {
 export interface TechnicalIndicator {
   indicator: string;
   symbol: string;
-  data: Record<string, number>;
+  /** Values keyed by date; multi-output indicators (Alpha Vantage) keep one string per output */
+  data: Record<string, number | Record<string, string>>;
 }
 
-export type ApiSource = 'finnhub' | 'alphavantage' | 'twelvedata' | 'tiingo' | 'sina' | 'eastmoney';
+/**
+ * Id of a registered provider: finnhub, alphavantage, twelvedata, tiingo, sina, eastmoney or a plugin's id
+ */
+export type ApiSource = string;
+
+/**
+ * Provenance carried by every normalized tool result
+ */
+export interface ResultMetadata {
+  /** Provider that produced the data */
+  source: ApiSource;
+  /** The requested symbol in canonical notation (e.g. AAPL.US, 600519.SH, 00700.HK), omitted when it cannot be parsed */
+  canonicalSymbol?: string;
+  /**
+   * ISO date or timestamp the data is current as of: the quote time, last bar or latest
+   * fiscal period when the payload has one, otherwise the time it was retrieved
+   */
+  asOf: string;
+}
+
+export interface NormalizedQuote extends StockQuote, ResultMetadata {
+  asOf: string;
+  /** How the sources asked compare, present when consensus was requested */
+  consensus?: ConsensusReport;
+}
+
+/** OHLCV bars sorted by ascending date */
+export interface PriceSeries extends ResultMetadata {
+  symbol: string;
+  prices: HistoricalPrice[];
+  /** How the sources asked compare, present when consensus was requested */
+  consensus?: ConsensusReport;
+}
+
+/**
+ * A source whose answer disagrees with the others
+ */
+export interface ConsensusDiscrepancy {
+  source: ApiSource;
+  /** deviation: the value is further from the median than the tolerance; stale: the data lags the freshest source's */
+  kind: 'deviation' | 'stale';
+  /** Field compared: currentPrice or close for deviations, asOf or date for stale data */
+  field: string;
+  /** Bar date, for daily bars */
+  date?: string;
+  value?: number;
+  median?: number;
+  deviationPct?: number;
+  /** How far the source's data lags the freshest source's */
+  lagMs?: number;
+}
+
+/**
+ * Outcome of asking several sources for the same data and comparing their answers
+ */
+export interface ConsensusReport {
+  /** Sources that answered, in routing order */
+  sources: ApiSource[];
+  /** Sources that were asked and failed */
+  failedSources: ApiSource[];
+  /** Field the sources were compared on */
+  field: string;
+  /** Median of the field across the sources that are not stale; for daily bars, of the latest close all sources report */
+  median: number | null;
+  tolerancePct: number;
+  /** True when enough sources answered and none was flagged */
+  agreed: boolean;
+  discrepancies: ConsensusDiscrepancy[];
+}
+
+/** Articles sorted newest first */
+export interface NewsFeed extends ResultMetadata {
+  symbol: string;
+  articles: NewsItem[];
+}
+
+export interface CompanyProfile extends CompanyInfo, ResultMetadata {}
+
+export type StatementType = 'income' | 'balance' | 'cashflow';
+
+export interface FinancialReport {
+  fiscalDateEnding: string;
+  reportedCurrency?: string;
+  /** Line items keyed by provider field name, null where the provider reports no value */
+  values: Record<string, number | null>;
+}
+
+/** Reports sorted by ascending fiscal date */
+export interface FinancialStatement extends ResultMetadata {
+  symbol: string;
+  statementType: StatementType;
+  annualReports: FinancialReport[];
+  quarterlyReports: FinancialReport[];
+}
+
+export type ReportingPeriod = 'annual' | 'quarterly';
+
+/** Statements requested from get_financials, where 'cash' selects the cash flow statement */
+export type FinancialsStatementType = 'income' | 'balance' | 'cash' | 'all';
+
+/**
+ * Financial statements of one reporting period, as returned by get_financials.
+ * The CompanyFinancials summary holds key line items of the latest report; sources that report
+ * per-period ratios rather than line items (Finnhub) fill `statements` but leave the summary unset.
+ */
+export interface FinancialStatementSet extends CompanyFinancials, ResultMetadata {
+  period: ReportingPeriod;
+  statementType: FinancialsStatementType;
+  /** Reports per requested statement, sorted by ascending fiscal date */
+  statements: Partial<Record<StatementType, FinancialReport[]>>;
+}
+
+export interface MetricSeriesPoint {
+  period: string;
+  value: number;
+}
+
+export interface CompanyMetrics extends ResultMetadata {
+  symbol: string;
+  metricType: string;
+  /** Latest value per metric, non-numeric values dropped */
+  metrics: Record<string, number>;
+  /** Historical values per metric, sorted by ascending period */
+  series: {
+    annual: Record<string, MetricSeriesPoint[]>;
+    quarterly: Record<string, MetricSeriesPoint[]>;
+  };
+}
+
+export interface IndicatorPoint {
+  date: string;
+  value: number;
+  /** All outputs for multi-line indicators such as MACD */
+  components?: Record<string, number>;
+}
+
+/** Indicator values sorted by ascending date */
+export interface IndicatorSeries extends ResultMetadata {
+  symbol: string;
+  indicator: string;
+  interval?: string;
+  values: IndicatorPoint[];
+}
+
+export interface IndexConstituent {
+  /** Canonical symbol, e.g. 600519.SH */
+  symbol: string;
+  name?: string;
+}
+
+/** Members of an index, in the order the provider lists them */
+export interface IndexConstituents extends ResultMetadata {
+  symbol: string;
+  constituents: IndexConstituent[];
+}
+
+/** One symbol of a batch quote request: either its quote or why it could not be fetched */
+export interface BatchQuoteEntry {
+  symbol: string;
+  quote?: NormalizedQuote;
+  error?: string;
+  /** Error code from the provider error taxonomy, see ToolErrorCode */
+  code?: string;
+}
+
+/** Entries follow the order of the requested symbols, duplicates removed */
+export interface BatchQuotes {
+  quotes: BatchQuoteEntry[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Supplies the API key for the next request, letting a KeyManager swap rate-limited keys
+ */
+export type ApiKeyProvider = () => string | null | undefined;
 
 export type LogLevelType = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
@@ -90,14 +271,16 @@ export interface ResilienceConfig {
   retryInitialDelayMs: number;
   retryMaxDelayMs: number;
   apiTimeoutMs: number;
-  finnhubTimeoutMs?: number;
-  alphavantageTimeoutMs?: number;
+  /** Per-provider timeout overrides, keyed `<provider id>TimeoutMs` (e.g. finnhubTimeoutMs) */
+  [providerTimeout: `${string}TimeoutMs`]: number | undefined;
   circuitBreakerEnabled: boolean;
   circuitBreakerFailureThreshold: number;
   circuitBreakerTimeoutMs: number;
   circuitBreakerHalfOpenAttempts: number;
   keyRotationEnabled: boolean;
   keyRotationResetWindowMs: number;
+  /** Maximum concurrent per-symbol lookups in a batch request */
+  batchConcurrency: number;
 }
 
 export type CircuitState = 'closed' | 'open' | 'half-open';
@@ -117,6 +300,23 @@ export interface ApiKeyInfo {
   inCooldown: boolean;
   cooldownUntil?: number;
   lastRateLimitError?: number;
+  /** Latest quota the provider reported for the key */
+  rateLimit?: RateLimitInfo;
+  rateLimitReportedAt?: number;
+}
+
+/**
+ * What a provider's Retry-After and X-RateLimit-* headers said, times as epoch milliseconds
+ */
+export interface RateLimitInfo {
+  /** Calls left in the current window */
+  remaining?: number;
+  /** Calls allowed per window */
+  limit?: number;
+  /** When the current window resets */
+  resetAt?: number;
+  /** When a throttled key may be used again, from Retry-After */
+  retryAt?: number;
 }
 
 export interface FailoverEvent {
@@ -142,11 +342,12 @@ export interface CircuitBreakerEvent {
   state: CircuitState;
   failureCount: number;
   tool?: string;
+  reason?: string;
   timestamp: string;
 }
 
 export interface KeyRotationEvent {
-  event: 'KEY_ROTATED' | 'KEY_RATE_LIMITED' | 'KEY_ROTATION_READY';
+  event: 'KEY_ROTATED' | 'KEY_RATE_LIMITED' | 'KEY_AUTH_FAILED' | 'KEY_ROTATION_READY';
   api: string;
   keyIndex: number;
   reason?: string;
@@ -170,6 +371,34 @@ export interface FailoverAttempt {
   error?: Error;
 }
 
+/**
+ * How a source scores for a tool from its recent calls
+ */
+export interface SourceScore {
+  source: ApiSource;
+  /** Position in the configured order, 0 first */
+  configuredRank: number;
+  /** 0-100, null until the source has enough recent calls for the tool */
+  score: number | null;
+  samples: number;
+  successRate: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  /** Recent calls refused by a rate limit */
+  rateLimited: number;
+}
+
+export interface SourceRankingReport {
+  tool: string;
+  symbol?: string;
+  /** False when the tool keeps its configured order, see fixedReason */
+  adaptive: boolean;
+  fixedReason?: string;
+  configuredOrder: ApiSource[];
+  rankedOrder: ApiSource[];
+  scores: SourceScore[];
+}
+
 export interface CascadingFailoverResult<T> {
   data: T;
   source: ApiSource;
@@ -178,3 +407,182 @@ export interface CascadingFailoverResult<T> {
 }
 
 export type SourceExecutor<T> = (source: ApiSource) => Promise<T>;
+
+export type CacheStatus = 'hit' | 'miss' | 'stale' | 'bypass';
+
+/**
+ * A FailoverAttempt in serializable form, as reported to MCP clients
+ */
+export interface ProvenanceAttempt {
+  source: ApiSource;
+  keyIndex: number;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  /** Error code from the provider error taxonomy, see ToolErrorCode */
+  code?: string;
+}
+
+/**
+ * Provenance of a tool call: which source answered, what was tried and whether the cache served it
+ */
+export interface ToolResultMeta {
+  tool: string;
+  /** Source the data came from, including for cache hits */
+  source?: ApiSource;
+  cacheStatus?: CacheStatus;
+  /** Set when the call shared the outcome of an identical call already in flight, whose attempts are not repeated here */
+  coalesced?: boolean;
+  attempts: ProvenanceAttempt[];
+  skippedSources: ApiSource[];
+  totalDurationMs: number;
+}
+
+export interface ToolResponse<T> {
+  data: T;
+  meta: ToolResultMeta;
+}
+
+/**
+ * Requests counted against a daily budget, which resets at midnight UTC
+ */
+export interface DailyUsage {
+  used: number;
+  limit: number;
+  resetsAt: string;
+}
+
+export interface KeyStatus {
+  index: number;
+  usageCount: number;
+  lastUsedAt?: string;
+  inCooldown: boolean;
+  /** When a key in cooldown becomes usable again */
+  cooldownUntil?: string;
+  /** Quota reported by the provider's rate-limit headers, until the window resets */
+  quota?: {
+    remaining: number;
+    limit?: number;
+    resetAt?: string;
+    /** Whether the key is passed over for keys with more calls left */
+    low: boolean;
+  };
+  /** Today's requests against the key's daily budget, when it has one */
+  dailyBudget?: DailyUsage;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failureCount: number;
+  lastFailureAt?: string;
+  lastStateChangeAt?: string;
+  /** Whether calls are currently rejected without reaching the provider */
+  rejectingCalls: boolean;
+  /** When an open circuit lets a recovery probe through */
+  retryAt?: string;
+}
+
+export interface LatencySummary {
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/**
+ * Outcome of a source's most recent calls, each failover attempt counting once
+ */
+export interface SourceActivity {
+  calls: number;
+  successes: number;
+  failures: number;
+  /** Share of calls that succeeded, null before the first call */
+  successRate: number | null;
+  latency: LatencySummary | null;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+export interface HealthCheckResult {
+  healthy: boolean;
+  checkedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ProviderStatus {
+  source: ApiSource;
+  name: string;
+  /** Whether a client exists, i.e. keyed providers have a key */
+  configured: boolean;
+  /** Whether failover would currently try this source */
+  available: boolean;
+  /** Null for providers that need no key */
+  keys: {
+    configured: number;
+    available: number;
+    entries: KeyStatus[];
+  } | null;
+  circuit: CircuitStatus | null;
+  /** Limits the rate limiter applies, null when the provider has none */
+  rateLimit: {
+    requestsPerSecond?: number;
+    requestsPerMinute?: number;
+    requestsPerDay?: number;
+    minIntervalMs?: number;
+    /** Today's requests of a keyless provider against its daily budget; keyed providers report it per key */
+    dailyBudget?: DailyUsage;
+  } | null;
+  activity: SourceActivity;
+  /** Latest health check, absent until one has run */
+  health?: HealthCheckResult;
+}
+
+/**
+ * How a provider's requests use the proxy pool:
+ * - direct: never proxied
+ * - prefer: proxied while a proxy is available, direct otherwise
+ * - require: proxied, and the provider is unavailable while every proxy is in cooldown
+ */
+export type ProxyMode = 'direct' | 'prefer' | 'require';
+
+export interface ProxyStatus {
+  /** Proxy URL with credentials redacted */
+  url: string;
+  protocol: 'http' | 'https' | 'socks5';
+  weight: number;
+  failureCount: number;
+  inCooldown: boolean;
+  cooldownUntil?: string;
+}
+
+export interface ProxyPoolStatus {
+  total: number;
+  available: number;
+  rotationStrategy: string;
+  /** Mode of providers without their own */
+  mode: ProxyMode;
+  /** Providers whose mode differs from the default */
+  providerModes: Record<string, ProxyMode>;
+  proxies: ProxyStatus[];
+}
+
+export interface CoalescingStats {
+  enabled: boolean;
+  /** Tool calls that went through the coalescer */
+  requests: number;
+  /** Calls that shared an identical call in flight instead of going upstream */
+  coalesced: number;
+  inFlight: number;
+  coalescedByTool: Record<string, number>;
+}
+
+export interface ProviderStatusReport {
+  generatedAt: string;
+  providers: ProviderStatus[];
+  proxyPool: ProxyPoolStatus;
+  coalescing: CoalescingStats;
+  /** How the requested tool's sources are currently ordered */
+  ranking?: SourceRankingReport;
+}
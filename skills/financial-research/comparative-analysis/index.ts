@@ -105,10 +105,11 @@ export class ComparativeAnalysisSkill {
     const uniqueSymbols = [...new Set(symbols.map(s => s.toUpperCase()))];
     info(`Processing ${uniqueSymbols.length} companies`, { companies: uniqueSymbols.join(', ') });
 
+    const quotes = await this.fetchQuotes(uniqueSymbols);
     const companies: CompanyData[] = [];
 
     for (const symbol of uniqueSymbols) {
-      const companyData = await this.gatherCompanyData(symbol, options);
+      const companyData = await this.gatherCompanyData(symbol, options, quotes.get(symbol));
       companies.push(companyData);
     }
 
@@ -126,14 +127,14 @@ export class ComparativeAnalysisSkill {
 
   private async gatherCompanyData(
     symbol: string,
-    options: { period?: string; timeframe?: string }
+    options: { period?: string; timeframe?: string },
+    quote?: StockQuote
   ): Promise<CompanyData> {
     const data: CompanyData = { symbol };
 
     try {
       info(`Fetching data for ${symbol}`);
-      const [quote, financials, companyInfo] = await Promise.all([
-        this.fetchQuote(symbol),
+      const [financials, companyInfo] = await Promise.all([
         this.fetchFinancials(symbol, options.period || 'annual'),
         this.fetchCompanyInfo(symbol)
       ]);
@@ -159,30 +160,41 @@ export class ComparativeAnalysisSkill {
     }
   }
 
-  private async fetchQuote(symbol: string): Promise<StockQuote | undefined> {
+  private async fetchQuotes(symbols: string[]): Promise<Map<string, StockQuote>> {
+    const quotes = new Map<string, StockQuote>();
+
     try {
-      const result = await this.mcpClient.invokeTool('get_stock_quote', {
-        symbol,
-        source: 'finnhub'
-      });
+      const result = await this.mcpClient.invokeTool('get_batch_quotes', { symbols });
 
       if (result.success && result.normalized) {
-        const data = result.normalized as any;
-        return {
-          symbol,
-          currentPrice: data.c?.currentPrice || 0,
-          change: data.c?.change || 0,
-          percentChange: data.c?.percentChange || 0,
-          highPriceOfDay: data.c?.highPriceOfDay || 0,
-          lowPriceOfDay: data.c?.lowPriceOfDay || 0,
-          openPriceOfDay: data.c?.openPriceOfDay || 0,
-          previousClosePrice: data.c?.previousClosePrice || 0
-        };
+        const entries = ((result.normalized as any).quotes || []) as Array<{
+          symbol: string;
+          quote?: any;
+          error?: string;
+        }>;
+
+        for (const entry of entries) {
+          if (!entry.quote) {
+            warn(`Quote unavailable for ${entry.symbol}`, { error: entry.error });
+            continue;
+          }
+          quotes.set(entry.symbol.toUpperCase(), {
+            symbol: entry.symbol,
+            currentPrice: entry.quote.currentPrice || 0,
+            change: entry.quote.change || 0,
+            percentChange: entry.quote.percentChange || 0,
+            highPriceOfDay: entry.quote.highPriceOfDay || 0,
+            lowPriceOfDay: entry.quote.lowPriceOfDay || 0,
+            openPriceOfDay: entry.quote.openPriceOfDay || 0,
+            previousClosePrice: entry.quote.previousClosePrice || 0
+          });
+        }
       }
     } catch (err) {
-      error(`Quote fetch error for ${symbol}`, { error: err });
-      return undefined;
+      error('Batch quote fetch error', { symbols, error: err });
     }
+
+    return quotes;
   }
 
   private async fetchFinancials(
@@ -409,7 +409,8 @@ export class NewsSentimentAnalyzer {
       };
     }
 
-    const priceData = result.normalized as any[];
+    const series = result.normalized as any;
+    const priceData: any[] = Array.isArray(series) ? series : series.prices ?? [];
 
     // Align sentiment with price data (simplified)
     const divergences: string[] = [];
@@ -5,7 +5,7 @@
  * from multiple sources with structured formatting and actionable insights.
  */
 
-import { MCPClientWrapper } from '../../shared/mcp/client.js';
+import { MCPClientWrapper, MCPToolMeta } from '../../shared/mcp/client.js';
 import { formatCurrency, formatPercent, formatDate } from '../../shared/utils/formatters.js';
 
 export interface ReportInput {
@@ -16,6 +16,8 @@ export interface ReportInput {
   includeTechnical?: boolean; // default true
 }
 
+export type ReportDataSection = 'companyInfo' | 'priceData' | 'financials' | 'news' | 'technical';
+
 export interface ReportData {
   symbol: string;
   companyInfo?: any;
@@ -24,6 +26,7 @@ export interface ReportData {
   news?: any[];
   technical?: any;
   peers?: string[];
+  sources?: Partial<Record<ReportDataSection, MCPToolMeta>>;
 }
 
 export interface GeneratedReport {
@@ -40,6 +43,23 @@ export interface GeneratedReport {
   };
 }
 
+const SOURCE_NAMES: Record<string, string> = {
+  finnhub: 'Finnhub API',
+  alphavantage: 'Alpha Vantage API',
+  twelvedata: 'TwelveData API',
+  tiingo: 'Tiingo API',
+  sina: 'Sina Finance',
+  eastmoney: 'East Money',
+};
+
+const SOURCE_LABELS: Record<ReportDataSection, string> = {
+  priceData: 'Price Data',
+  financials: 'Financial Data',
+  news: 'News Data',
+  technical: 'Technical Indicators',
+  companyInfo: 'Company Information',
+};
+
 // Report templates
 const REPORT_SECTIONS = {
   investment: [
@@ -123,13 +143,13 @@ export class ResearchReportGenerator {
   }
 
   private async gatherData(input: ReportInput): Promise<ReportData> {
-    const data: ReportData = { symbol: input.symbol };
+    const data: ReportData = { symbol: input.symbol, sources: {} };
 
     // Parallel data fetching where possible
     const [companyInfo, priceData, financials] = await Promise.all([
-      this.getCompanyInfo(input.symbol),
-      this.getPriceData(input.symbol, input.period || '1y'),
-      this.getFinancials(input.symbol),
+      this.getCompanyInfo(input.symbol, data),
+      this.getPriceData(input.symbol, input.period || '1y', data),
+      this.getFinancials(input.symbol, data),
     ]);
 
     data.companyInfo = companyInfo;
@@ -138,11 +158,11 @@ export class ResearchReportGenerator {
 
     // Optional data
     if (input.includeNews !== false) {
-      data.news = await this.getNews(input.symbol);
+      data.news = await this.getNews(input.symbol, data);
     }
 
     if (input.includeTechnical !== false) {
-      data.technical = await this.getTechnicalIndicators(input.symbol);
+      data.technical = await this.getTechnicalIndicators(input.symbol, data);
     }
 
     // Get peers if available
@@ -153,28 +173,32 @@ export class ResearchReportGenerator {
     return data;
   }
 
-  private async getCompanyInfo(symbol: string) {
-    const result = await this.mcpClient.invokeTool('get_company_info', {
+  private async getCompanyInfo(symbol: string, data: ReportData) {
+    const result = await this.invokeWithProvenance(data, 'companyInfo', 'get_company_info', {
       symbol,
       source: 'finnhub',
     });
     return result.success ? result.normalized : null;
   }
 
-  private async getPriceData(symbol: string, period: string) {
+  private async getPriceData(symbol: string, period: string, data: ReportData) {
     const days = this.parsePeriod(period);
-    const result = await this.mcpClient.invokeTool('get_stock_price_history', {
+    const result = await this.invokeWithProvenance(data, 'priceData', 'get_stock_price_history', {
       symbol,
       source: 'finnhub',
       resolution: 'D',
       from: Math.floor((Date.now() - days * 24 * 60 * 60 * 1000) / 1000),
       to: Math.floor(Date.now() / 1000),
     });
-    return result.success ? result.normalized : [];
+    if (!result.success) return [];
+
+    // The server returns { prices } sorted by ascending date; the analysis reads newest first
+    const series = result.normalized as any;
+    return Array.isArray(series) ? series : [...(series?.prices ?? [])].reverse();
   }
 
-  private async getFinancials(symbol: string) {
-    const result = await this.mcpClient.invokeTool('get_financials', {
+  private async getFinancials(symbol: string, data: ReportData) {
+    const result = await this.invokeWithProvenance(data, 'financials', 'get_financials', {
       symbol,
       source: 'finnhub',
       statementType: 'all',
@@ -183,16 +207,16 @@ export class ResearchReportGenerator {
     return result.success ? result.normalized : null;
   }
 
-  private async getNews(symbol: string) {
-    const result = await this.mcpClient.invokeTool('get_news', {
+  private async getNews(symbol: string, data: ReportData) {
+    const result = await this.invokeWithProvenance(data, 'news', 'get_news', {
       symbol,
       source: 'finnhub',
     });
     return result.success ? result.normalized : [];
   }
 
-  private async getTechnicalIndicators(symbol: string) {
-    const result = await this.mcpClient.invokeTool('get_technical_indicator', {
+  private async getTechnicalIndicators(symbol: string, data: ReportData) {
+    const result = await this.invokeWithProvenance(data, 'technical', 'get_technical_indicator', {
       symbol,
       source: 'alphavantage',
       indicator: 'SMA',
@@ -201,6 +225,22 @@ export class ResearchReportGenerator {
     return result.success ? result.normalized : null;
   }
 
+  /**
+   * Calls a tool with includeMeta so the sources section can cite the provider that answered
+   */
+  private async invokeWithProvenance(
+    data: ReportData,
+    section: ReportDataSection,
+    name: string,
+    args: Record<string, unknown>
+  ) {
+    const result = await this.mcpClient.invokeTool(name, { ...args, includeMeta: true });
+    if (result.meta && data.sources) {
+      data.sources[section] = result.meta;
+    }
+    return result;
+  }
+
   private parsePeriod(period: string): number {
     const match = period.match(/^(\d+)([dmy])$/);
     if (!match) return 365;
@@ -578,17 +618,39 @@ export class ResearchReportGenerator {
 
   private generateSources(data: ReportData): string {
     let content = `### Data Sources\n\n`;
-    content += `- **Price Data:** Finnhub API\n`;
-    content += `- **Financial Data:** Finnhub API / Alpha Vantage\n`;
-    content += `- **News Data:** Finnhub API\n`;
-    content += `- **Technical Indicators:** Alpha Vantage API\n`;
-    content += `- **Company Information:** Finnhub API\n\n`;
+    for (const [section, label] of Object.entries(SOURCE_LABELS) as [ReportDataSection, string][]) {
+      content += `- **${label}:** ${this.describeSource(data.sources?.[section], data[section])}\n`;
+    }
+    content += `\n`;
 
     content += `*Report generated by AI Research System. Data accuracy not guaranteed. Verify with primary sources before making investment decisions.*\n`;
 
     return content;
   }
 
+  private describeSource(meta: MCPToolMeta | undefined, sectionData: unknown): string {
+    // Fall back to the source tag on the normalized result when the server sent no provenance
+    const source = meta?.source ??
+      (sectionData && typeof (sectionData as any).source === 'string' ? (sectionData as any).source : undefined);
+    if (!source) {
+      const hasData = Array.isArray(sectionData) ? sectionData.length > 0 : Boolean(sectionData);
+      return hasData ? 'Source not reported' : 'Not available';
+    }
+
+    let description = SOURCE_NAMES[source] ?? source;
+    if (meta?.cacheStatus === 'hit') {
+      description += ' (cached)';
+    } else if (meta?.cacheStatus === 'stale') {
+      return `${description} (stale cache, live providers unavailable)`;
+    }
+
+    const failed = meta?.attempts.filter(attempt => !attempt.success).map(attempt => SOURCE_NAMES[attempt.source] ?? attempt.source);
+    if (failed && failed.length > 0) {
+      description += ` after failover from ${failed.join(', ')}`;
+    }
+    return description;
+  }
+
   private calculateRecommendation(data: ReportData): {
     verdict: 'STRONG BUY' | 'BUY' | 'HOLD' | 'SELL' | 'STRONG SELL';
     confidence: 'LOW' | 'MEDIUM' | 'HIGH';
@@ -310,6 +310,42 @@ describe('ResearchReportGenerator', () => {
     });
   });
 
+  describe('Sources', () => {
+    it('should cite the providers reported in tool provenance', () => {
+      const sources = generator['generateSources']({
+        symbol: 'AAPL',
+        priceData: [{ close: 175 }],
+        companyInfo: { companyName: 'Apple Inc.', source: 'finnhub' },
+        sources: {
+          priceData: {
+            tool: 'get_stock_price_history',
+            source: 'alphavantage',
+            cacheStatus: 'miss',
+            attempts: [
+              { source: 'finnhub', keyIndex: 0, durationMs: 120, success: false, error: 'Finnhub API error: 503' },
+              { source: 'alphavantage', keyIndex: 0, durationMs: 80, success: true },
+            ],
+            skippedSources: [],
+            totalDurationMs: 200,
+          },
+          news: {
+            tool: 'get_news',
+            source: 'tiingo',
+            cacheStatus: 'hit',
+            attempts: [],
+            skippedSources: [],
+            totalDurationMs: 1,
+          },
+        },
+      });
+
+      expect(sources).toContain('**Price Data:** Alpha Vantage API after failover from Finnhub API');
+      expect(sources).toContain('**News Data:** Tiingo API (cached)');
+      expect(sources).toContain('**Company Information:** Finnhub API');
+      expect(sources).toContain('**Financial Data:** Not available');
+    });
+  });
+
   describe('Data Validation', () => {
     it('should validate data and throw error for insufficient data', () => {
       expect(() =>
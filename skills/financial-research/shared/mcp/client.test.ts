@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import * as path from 'path';
+import { MCPClientWrapper } from './client.js';
+
+const PACKAGE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+// Minimal stdio server standing in for financial-data-mcp
+const FIXTURE_SERVER = `
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server({ name: 'fixture', version: '1.0.0' }, { capabilities: { tools: {} } });
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [{ name: 'get_stock_quote', inputSchema: { type: 'object' } }],
+}));
+server.setRequestHandler(CallToolRequestSchema, async request => {
+  const args = request.params.arguments ?? {};
+  if (args.symbol === 'FAIL') {
+    const error = { code: 'ALL_SOURCES_FAILED', message: 'All sources failed', retryable: true };
+    return { content: [{ type: 'text', text: JSON.stringify({ error }) }], isError: true };
+  }
+  if (args.symbol === 'BUSY') {
+    const error = { code: 'RATE_LIMITED', message: 'Rate limit hit', retryable: true };
+    return { content: [{ type: 'text', text: JSON.stringify({ error }) }], isError: true };
+  }
+  const data = { symbol: args.symbol, currentPrice: 150, source: 'finnhub', pid: process.pid, apiKey: process.env.FIXTURE_KEY };
+  const meta = { tool: 'get_stock_quote', source: 'finnhub', attempts: [], skippedSources: [], totalDurationMs: 1 };
+  return { content: [{ type: 'text', text: JSON.stringify(args.includeMeta ? { data, meta } : data) }] };
+});
+await server.connect(new StdioServerTransport());
+`;
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('MCPClientWrapper over stdio', () => {
+  let client: MCPClientWrapper;
+
+  afterEach(async () => {
+    await client?.disconnect();
+  });
+
+  function createClient(): MCPClientWrapper {
+    return new MCPClientWrapper({
+      serverCommand: process.execPath,
+      serverArgs: ['--input-type=module', '-e', FIXTURE_SERVER],
+      cwd: PACKAGE_DIR,
+      env: { FIXTURE_KEY: 'fixture-key' },
+    });
+  }
+
+  it('should spawn the server, list its tools and call them', async () => {
+    client = createClient();
+
+    const [first, second] = await Promise.all([
+      client.invokeTool('get_stock_quote', { symbol: 'AAPL' }),
+      client.invokeTool('get_stock_quote', { symbol: 'MSFT' }),
+    ]);
+
+    expect(client.getAvailableTools()).toEqual(['get_stock_quote']);
+    expect(first).toMatchObject({ success: true, normalized: { symbol: 'AAPL', currentPrice: 150, apiKey: 'fixture-key' } });
+    expect(second.normalized?.symbol).toBe('MSFT');
+    expect(second.normalized?.pid).toBe(first.normalized?.pid);
+  }, 15000);
+
+  it('should unwrap provenance and report tool errors', async () => {
+    client = createClient();
+
+    const withMeta = await client.invokeTool('get_stock_quote', { symbol: 'AAPL', includeMeta: true });
+    const failed = await client.invokeTool('get_stock_quote', { symbol: 'FAIL' });
+    const unknown = await client.invokeTool('get_crypto_quote', { symbol: 'BTC' });
+
+    expect(withMeta.normalized?.symbol).toBe('AAPL');
+    expect(withMeta.meta?.source).toBe('finnhub');
+    expect(failed).toMatchObject({ success: false, error: 'All sources failed', errorCode: 'ALL_SOURCES_FAILED' });
+    expect(unknown).toMatchObject({ success: false, error: 'Unknown tool: get_crypto_quote' });
+  }, 15000);
+
+  it('should flag rate limits from the error code only, not from 429 in the data', async () => {
+    client = createClient();
+
+    const quote = await client.invokeTool('get_stock_quote', { symbol: '429 TOO MANY REQUESTS' });
+    expect(quote.success).toBe(true);
+    expect(client.getToolStats('get_stock_quote').rateLimited).toBe(false);
+
+    const busy = await client.invokeTool('get_stock_quote', { symbol: 'BUSY' });
+    expect(busy).toMatchObject({ success: false, error: 'Rate limit exceeded for tool: get_stock_quote', errorCode: 'RATE_LIMITED' });
+    expect(client.getToolStats('get_stock_quote').rateLimited).toBe(true);
+  }, 15000);
+
+  it('should stop the server process on disconnect', async () => {
+    client = createClient();
+    const result = await client.invokeTool('get_stock_quote', { symbol: 'AAPL' });
+    const pid = result.normalized?.pid as number;
+
+    await client.disconnect();
+
+    for (let i = 0; i < 30 && isRunning(pid); i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    expect(isRunning(pid)).toBe(false);
+    expect(client.isConnected()).toBe(false);
+  }, 15000);
+
+  it('should fail without a command or URL', async () => {
+    client = new MCPClientWrapper({});
+
+    const result = await client.invokeTool('get_stock_quote', { symbol: 'AAPL' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('serverCommand or serverUrl');
+  });
+});
@@ -1,3 +1,8 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
 
 
 export interface MCPToolCall {
@@ -5,49 +10,125 @@ export interface MCPToolCall {
   arguments: Record<string, unknown>;
 }
 
+export interface MCPToolAttempt {
+  source: string;
+  keyIndex: number;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Provenance returned by the server when a tool is called with includeMeta: true
+ */
+export interface MCPToolMeta {
+  tool: string;
+  source?: string;
+  cacheStatus?: 'hit' | 'miss' | 'stale' | 'bypass';
+  attempts: MCPToolAttempt[];
+  skippedSources: string[];
+  totalDurationMs: number;
+}
+
 export interface MCPToolResult {
   success: boolean;
   data: unknown;
   error?: string;
+  /** Server error code such as NOT_FOUND or ALL_SOURCES_FAILED */
+  errorCode?: string;
   normalized?: Record<string, unknown>;
+  meta?: MCPToolMeta;
 }
 
 export interface MCPClientConfig {
-  serverCommand: string;
+  /** Command that starts the server over stdio, e.g. `node` */
+  serverCommand?: string;
   serverArgs?: string[];
+  /** Extra environment for the spawned server, on top of this process's environment */
   env?: Record<string, string>;
+  /** Working directory for the spawned server */
+  cwd?: string;
+  /** Streamable HTTP endpoint of a running server; when set, no process is spawned */
+  serverUrl?: string;
 }
 
+const CLIENT_INFO = { name: 'financial-research-skills', version: '1.0.0' };
+
 export class MCPClientWrapper {
   private toolCallCounts: Map<string, number> = new Map();
   private rateLimitErrors: Set<string> = new Set();
+  private client?: Client;
+  private connecting?: Promise<Client>;
+  private availableTools: Set<string> = new Set();
 
   constructor(private config: MCPClientConfig) {}
 
+  /**
+   * Starts or connects to the server, performs the initialize handshake and loads the tool list.
+   * Called lazily by invokeTool; concurrent callers share one connection.
+   */
+  async connect(): Promise<void> {
+    await this.getClient();
+  }
+
+  isConnected(): boolean {
+    return this.client !== undefined;
+  }
+
+  getAvailableTools(): string[] {
+    return [...this.availableTools];
+  }
+
   async invokeTool(name: string, args: Record<string, unknown>): Promise<MCPToolResult> {
     const callCount = (this.toolCallCounts.get(name) || 0) + 1;
     this.toolCallCounts.set(name, callCount);
 
     try {
-      const response = await fetch('http://localhost:3000/mcp', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
-      });
-
-      const result = await response.json();
+      const client = await this.getClient();
 
-      if (this.isRateLimitError(result)) {
-        this.rateLimitErrors.add(name);
+      if (!this.availableTools.has(name)) {
         return {
           success: false,
           data: null,
-          error: 'Rate limit exceeded for tool: ' + name
+          error: 'Unknown tool: ' + name
         };
       }
 
+      const result = await client.callTool({ name, arguments: args });
+
       const normalized = this.normalizeResponse(result);
 
+      if (result.isError) {
+        const { message, code } = this.describeError(normalized.error);
+        if (code === 'RATE_LIMITED') {
+          this.rateLimitErrors.add(name);
+          return {
+            success: false,
+            data: null,
+            error: 'Rate limit exceeded for tool: ' + name,
+            errorCode: code,
+            meta: normalized.meta as MCPToolMeta | undefined
+          };
+        }
+        return {
+          success: false,
+          data: result,
+          error: message ?? 'Tool call failed: ' + name,
+          errorCode: code,
+          meta: normalized.meta as MCPToolMeta | undefined
+        };
+      }
+
+      if (args.includeMeta === true && this.isMetaEnvelope(normalized)) {
+        return {
+          success: true,
+          data: result,
+          normalized: normalized.data as Record<string, unknown>,
+          meta: normalized.meta as MCPToolMeta
+        };
+      }
+
       return {
         success: true,
         data: result,
@@ -62,15 +143,63 @@ export class MCPClientWrapper {
     }
   }
 
-  private isRateLimitError(result: unknown): boolean {
-    if (typeof result !== 'object' || result === null) {
-      return false;
+  private getClient(): Promise<Client> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+    if (!this.connecting) {
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openConnection(): Promise<Client> {
+    const client = new Client(CLIENT_INFO);
+
+    try {
+      await client.connect(this.createTransport());
+      const { tools } = await client.listTools();
+      this.availableTools = new Set(tools.map(tool => tool.name));
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new MCPConnectionError('Failed to connect to MCP server: ' + message);
+    }
+
+    this.client = client;
+    return client;
+  }
+
+  private createTransport(): Transport {
+    if (this.config.serverUrl) {
+      return new StreamableHTTPClientTransport(new URL(this.config.serverUrl));
+    }
+
+    if (!this.config.serverCommand) {
+      throw new MCPConnectionError('MCPClientConfig needs either serverCommand or serverUrl');
     }
 
-    const errorText = JSON.stringify(result).toLowerCase();
-    return errorText.includes('rate limit') ||
-           errorText.includes('too many requests') ||
-           errorText.includes('429');
+    return new StdioClientTransport({
+      command: this.config.serverCommand,
+      args: this.config.serverArgs,
+      cwd: this.config.cwd,
+      env: { ...getDefaultEnvironment(), ...this.inheritedEnv(), ...this.config.env }
+    });
+  }
+
+  /**
+   * Passes this process's environment through so the server sees API keys from the caller's .env
+   */
+  private inheritedEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(process.env)) {
+      if (value !== undefined) {
+        env[key] = value;
+      }
+    }
+    return env;
   }
 
   private normalizeResponse(result: unknown): Record<string, unknown> {
@@ -96,6 +225,29 @@ export class MCPClientWrapper {
     return obj;
   }
 
+  /**
+   * Reads the server's { code, message } error, or the bare message older servers send
+   */
+  private describeError(error: unknown): { message?: string; code?: string } {
+    if (typeof error === 'string') {
+      return { message: error };
+    }
+    if (typeof error === 'object' && error !== null) {
+      const { message, code } = error as { message?: unknown; code?: unknown };
+      return {
+        message: typeof message === 'string' ? message : undefined,
+        code: typeof code === 'string' ? code : undefined
+      };
+    }
+    return {};
+  }
+
+  private isMetaEnvelope(normalized: Record<string, unknown>): boolean {
+    return 'data' in normalized &&
+           typeof normalized.meta === 'object' &&
+           normalized.meta !== null;
+  }
+
   getToolStats(name: string): { calls: number; rateLimited: boolean } {
     return {
       calls: this.toolCallCounts.get(name) || 0,
@@ -107,7 +259,14 @@ export class MCPClientWrapper {
     this.rateLimitErrors.clear();
   }
 
+  /**
+   * Closes the connection; for stdio servers this also terminates the child process
+   */
   async disconnect(): Promise<void> {
+    const client = this.client ?? await this.connecting?.catch(() => undefined);
+    this.client = undefined;
+    this.availableTools.clear();
+    await client?.close();
   }
 }
 
@@ -162,10 +162,11 @@ export class TrendAnalyzer {
         throw new Error(`Failed to retrieve price data for ${symbol}`);
       }
 
-      // Normalize data to PriceDataPoint format
+      // Normalize data to PriceDataPoint format; the server returns { prices } sorted by ascending date
       const rawData = result.normalized as any;
-      if (Array.isArray(rawData)) {
-        return rawData.map((item: any) => ({
+      const bars = Array.isArray(rawData) ? rawData : rawData.prices;
+      if (Array.isArray(bars)) {
+        return bars.map((item: any) => ({
           date: item.date || item.t,
           open: item.open || item.o,
           high: item.high || item.h,
@@ -214,9 +215,18 @@ export class TrendAnalyzer {
     const financials = data as any;
     const result: PriceDataPoint[] = [];
 
+    // The server returns statements whose reports carry line items under values
+    const items = Array.isArray(financials)
+      ? financials
+      : (financials?.statements?.income ?? []).map((report: any) => ({
+          date: report.fiscalDateEnding,
+          revenue: report.values.totalRevenue,
+          netIncome: report.values.netIncome,
+        }));
+
     // This is a simplified transformation - real implementation would parse actual financial statements
-    if (Array.isArray(financials)) {
-      for (const item of financials) {
+    if (Array.isArray(items)) {
+      for (const item of items) {
         const value = indicator === 'revenue' ? item.revenue : item.netIncome;
         if (value) {
           result.push({